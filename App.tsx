@@ -5,28 +5,75 @@ import {
 } from 'recharts';
 import * as Lucide from 'lucide-react';
 
-import { MedFlowRow, DataMetrics, SkinType, Lang, AgentPipeline, AgentStep, GlobalFilters } from './types';
-import { SKINS, I18N, DEFAULT_SAMPLE_CSV, DEFAULT_AGENTS_YAML, DEFAULT_SKILL_MD, DEFAULT_FULL_DATASET } from './constants';
-import { parseData } from './services/dataService';
-import { callGeminiAgent } from './services/geminiService';
+import { MedFlowRow, DataMetrics, SkinType, Lang, AgentPipeline, AgentStep, AgentConfigError, GlobalFilters, ApiKeys, ToolCallLog, RenderedPrompt, PipelineRun, OutputVersion, ColumnMapping, MappingProfile, RowDecision, DataSource, RowSource, DateSystem, ForecastOptions, TimeGranularity, PeriodComparison, PeriodStats, SourceSample } from './types';
+import { SKINS, I18N, DEFAULT_SAMPLE_CSV, DEFAULT_AGENTS_YAML, DEFAULT_SKILL_MD, DEFAULT_FULL_DATASET, TFDA_SPECIALTIES } from './constants';
+import { createMetricsAccumulator, parseTableRows, suggestMapping, ENCODINGS, Encoding, MAPPED_FIELDS, ParseSummary } from './services/dataService';
+import { parseInWorker, ParseProgress, ParseResult } from './services/parserClient';
+import { isWorkbookFile, EXCEL_EXTENSIONS } from './services/excelService';
+import { sniffSource, findProfile, loadProfiles, saveProfile, deleteProfile, toMapping } from './services/mappingService';
+import { isAbortError } from './services/streamService';
+import { parseAgentsYaml } from './services/agentConfigService';
+import { buildQueryTools } from './services/queryToolsService';
+import { runDag, buildPromptVariables, effectiveOutput, descendantsOf, StepContext, NonRetryableError } from './services/pipelineService';
+import { buildContextVariables, renderWithBudget, estimateTokens, CONTEXT_VARIABLES } from './services/contextBuilderService';
+import { PROVIDERS, callAgent, validateProviderModel } from './services/llmService';
+import { evaluateQuality, loadQualityHistory, recordQuality } from './services/qualityService';
+import { detectDuplicates, applyDecisions } from './services/duplicateService';
+import { createRowSource, createDeduper, sourceMetrics } from './services/sourceService';
+import { exportData, buildPipelineReport, DataExportFormat, ReportFormat, ExportFile } from './services/reportService';
+import { downloadFile } from './services/exportService';
+import { normalizeTimeZone, inDateRange } from './services/dateService';
+import { buildForecast } from './services/forecastService';
+import { detectAnomalies } from './services/anomalyService';
+import { TIME_GRANULARITIES, PERIOD_COMPARISONS, buildTrend, comparePeriods } from './services/periodService';
+import { saveRun, listRuns, deleteRun, datasetFingerprint, toRunStep, runStatus } from './services/runHistoryService';
 import NetworkGraph from './components/NetworkGraph';
+import RecallWorkbench from './components/RecallWorkbench';
+import PipelineGraph from './components/PipelineGraph';
+import AgentOutputPanel from './components/AgentOutputPanel';
+import RunHistory from './components/RunHistory';
+import WorkbookImport from './components/WorkbookImport';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import QualityPanel from './components/QualityPanel';
+import DuplicateReview from './components/DuplicateReview';
+import ChartExportButtons from './components/ChartExportButtons';
+import DateRangeFilter from './components/DateRangeFilter';
+import LicensePanel from './components/LicensePanel';
+import CategoryExplorer from './components/CategoryExplorer';
+import ForecastChart from './components/ForecastChart';
+import AnomalyPanel from './components/AnomalyPanel';
+import PivotExplorer from './components/PivotExplorer';
+import { Card, Button } from './components/ui';
 
-// --- Utility Components ---
-const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
-  <div className={`p-6 rounded-2xl shadow-lg border border-white/20 transition-all duration-300 ${className}`} style={{ backdropFilter: 'blur(10px)' }}>
-    {children}
-  </div>
-);
-
-const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'danger' }> = 
-  ({ children, className = '', variant = 'primary', ...props }) => {
-  const baseStyle = "px-4 py-2 rounded-lg font-medium transition-all transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 justify-center";
-  const variants = {
-    primary: "bg-white/20 hover:bg-white/30 text-current border border-white/30",
-    secondary: "bg-black/20 hover:bg-black/30 text-current border border-white/10",
-    danger: "bg-red-500/20 hover:bg-red-500/30 text-red-100 border border-red-500/30"
-  };
-  return <button className={`${baseStyle} ${variants[variant]} ${className}`} {...props}>{children}</button>;
+// What a column mapping is applied to: a file or pasted text, or an imported sheet
+type MappingTarget = File | string | { rows: string[][]; headerRow: number; name: string; dateSystem: DateSystem };
+
+interface MappingRequest {
+  target: MappingTarget;
+  sample: SourceSample;
+  mapping: ColumnMapping;
+  replaces: string | null; // source id whose rows are replaced, when re-mapping a loaded source
+}
+
+// The rows and sources a new load is added to
+interface LoadBase {
+  rows: MedFlowRow[];
+  sources: DataSource[];
+}
+
+const DEFAULT_FILTERS: GlobalFilters = {
+  dateRange: ['', ''],
+  topN: 10,
+  searchSupplier: '',
+  category: '',
+  licenseNo: '',
+  model: '',
+  lotNo: '',
+  serNo: '',
+  customerID: '',
+  specialty: '',
+  deviceName: '',
+  timeZone: ''
 };
 
 // --- Main App ---
@@ -35,38 +82,61 @@ export default function App() {
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [skin, setSkin] = useState<SkinType>('VanGogh');
   const [lang, setLang] = useState<Lang>('en');
-  const [apiKey, setApiKey] = useState(process.env.API_KEY || '');
+  const [apiKeys, setApiKeys] = useState<ApiKeys>({
+    gemini: process.env.API_KEY || '',
+    openai: process.env.OPENAI_API_KEY || '',
+    anthropic: process.env.ANTHROPIC_API_KEY || '',
+    grok: process.env.XAI_API_KEY || ''
+  });
   
   // State: Data
   const [inputText, setInputText] = useState(DEFAULT_FULL_DATASET);
   const [data, setData] = useState<MedFlowRow[]>([]);
   const [metrics, setMetrics] = useState<DataMetrics | null>(null);
   const [previewRows, setPreviewRows] = useState(20);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const [encoding, setEncoding] = useState<Encoding>('auto');
+  const [parseInfo, setParseInfo] = useState<Pick<ParseResult, 'encoding' | 'delimiter' | 'errorCount'> & { profile: string | null; duplicatesSkipped: number } | null>(null);
+  const [dataSources, setDataSources] = useState<DataSource[]>([]);
+  const [appendMode, setAppendMode] = useState(false);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(loadProfiles);
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(null); // wizard open
+  const [appliedMapping, setAppliedMapping] = useState<MappingRequest | null>(null);
+  const [qualityHistory, setQualityHistory] = useState(loadQualityHistory);
+  const [rowDecisions, setRowDecisions] = useState<Record<string, RowDecision>>({}); // duplicate review
   
   // State: Filters
-  const [filters, setFilters] = useState<GlobalFilters>({
-    dateRange: ['', ''],
-    topN: 10,
-    searchSupplier: '',
-    category: '',
-    licenseNo: '',
-    model: '',
-    lotNo: '',
-    serNo: '',
-    customerID: '',
-    timeZone: ''
-  });
+  const [filters, setFilters] = useState<GlobalFilters>(DEFAULT_FILTERS);
   const [showFilters, setShowFilters] = useState(false);
+  const [showForecast, setShowForecast] = useState(false);
+  const [trendGranularity, setTrendGranularity] = useState<TimeGranularity>('month');
+  const [periodComparison, setPeriodComparison] = useState<PeriodComparison>('previous');
+  const [forecastOptions, setForecastOptions] = useState<ForecastOptions>({ dimension: 'all', value: '', granularity: 'month', horizon: 6 });
 
   // State: Agents
   const [agentsYaml, setAgentsYaml] = useState(DEFAULT_AGENTS_YAML);
   const [skillMd, setSkillMd] = useState(DEFAULT_SKILL_MD);
   const [pipeline, setPipeline] = useState<AgentPipeline | null>(null);
+  const [configErrors, setConfigErrors] = useState<AgentConfigError[]>([]);
+  const [isPipelineRunning, setIsPipelineRunning] = useState(false);
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [pauseBeforeStep, setPauseBeforeStep] = useState(false);
+  const [runHistory, setRunHistory] = useState<PipelineRun[]>([]);
   const [activeTab, setActiveTab] = useState('dashboard');
   const [isParsing, setIsParsing] = useState(false);
 
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const parseControllerRef = useRef<AbortController | null>(null);
+  const runControllerRef = useRef<AbortController | null>(null);
+  const stepControllersRef = useRef(new Map<string, AbortController>());
+  const pauseGatesRef = useRef(new Map<string, () => void>());
+  const pauseBeforeStepRef = useRef(false);
+  const pipelineRef = useRef<AgentPipeline | null>(null);
+  const parsedYamlRef = useRef<string | null>(null);
+  // Everything about the current run except its results, which are read once it has finished
+  const activeRunRef = useRef<Omit<PipelineRun, 'finishedAt' | 'status' | 'steps'> & { stepIds: string[] } | null>(null);
 
   // Derived Values
   const t = I18N[lang];
@@ -77,73 +147,236 @@ export default function App() {
     document.documentElement.className = theme;
   }, [theme]);
 
+  // Read by the running pipeline, so changes take effect mid-run
+  useEffect(() => {
+    pauseBeforeStepRef.current = pauseBeforeStep;
+  }, [pauseBeforeStep]);
+
+  useEffect(() => {
+    pipelineRef.current = pipeline;
+  }, [pipeline]);
+
   // Initial Parse
   useEffect(() => {
     handleParse();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); 
 
+  useEffect(() => {
+    listRuns().then(setRunHistory).catch(e => console.error('Failed to load run history', e));
+  }, []);
+
   // Yaml Parsing
   useEffect(() => {
+    if (agentsYaml === parsedYamlRef.current) return; // already applied, e.g. by restoring a run
+    parsedYamlRef.current = agentsYaml;
+    const result = parseAgentsYaml(agentsYaml);
+    setConfigErrors(result.errors);
+    if (result.pipeline) setPipeline(result.pipeline);
+  }, [agentsYaml]);
+
+  // Actions
+  // Appending keeps every loaded source; re-mapping a source keeps all the others
+  const loadBase = (replaces: string | null): LoadBase => {
+    const sources = replaces ? dataSources.filter(s => s.id !== replaces) : appendMode ? dataSources : [];
+    if (sources.length === 0) return { rows: [], sources };
+    if (sources.length === dataSources.length) return { rows: data, sources };
+    const ids = new Set(sources.map(s => s.id));
+    return { rows: data.filter(r => ids.has(r.sourceId)), sources };
+  };
+
+  const finishLoad = (
+    base: LoadBase,
+    rowSource: RowSource,
+    rows: MedFlowRow[],
+    duplicatesSkipped: number,
+    summary: Pick<ParseSummary, 'parseFailures' | 'errors'>
+  ) => {
+    const sources = [...base.sources, {
+      ...rowSource,
+      rowCount: rows.length,
+      duplicatesSkipped,
+      parseFailures: summary.parseFailures,
+      errors: summary.errors,
+    }];
+    const all = base.rows.concat(rows);
+    setDataSources(sources);
+    setData(all);
+    setMetrics(sourceMetrics(all, sources));
+  };
+
+  // Parses off the main thread; the dashboard updates as batches of rows arrive
+  const parseSource = async (
+    source: File | string,
+    base: LoadBase,
+    rowSource: RowSource,
+    mapping?: ColumnMapping,
+    profile: string | null = null,
+    onSample?: (sample: SourceSample) => void
+  ) => {
+    parseControllerRef.current?.abort();
+    const controller = new AbortController();
+    parseControllerRef.current = controller;
+    const previous = { data, metrics };
+    const deduper = createDeduper(base.rows);
+    const rows: MedFlowRow[] = [];
+    // Metrics follow each batch; everything else waits for the whole file (see the !isParsing memos)
+    const accumulator = createMetricsAccumulator();
+    accumulator.add(base.rows);
+
+    setIsParsing(true);
+    setParseProgress({ loaded: 0, total: 0, rows: 0 });
     try {
-      const lines = agentsYaml.split('\n');
-      const steps: AgentStep[] = [];
-      let currentStep: Partial<AgentStep> = {};
-      
-      let inAgents = false;
-      lines.forEach(line => {
-        if (line.includes('agents:')) { inAgents = true; return; }
-        if (!inAgents) return;
-        
-        const trimmed = line.trim();
-        if (trimmed.startsWith('- id:')) {
-            if (currentStep.id) steps.push(currentStep as AgentStep);
-            currentStep = { status: 'idle', output: '' };
-            currentStep.id = trimmed.split('id:')[1].trim().replace(/"/g, '');
-        } else if (trimmed.startsWith('name:')) currentStep.name = trimmed.split('name:')[1].trim().replace(/"/g, '');
-        else if (trimmed.startsWith('provider:')) currentStep.provider = trimmed.split('provider:')[1].trim().replace(/"/g, '') as any;
-        else if (trimmed.startsWith('model:')) currentStep.model = trimmed.split('model:')[1].trim().replace(/"/g, '');
-        else if (trimmed.startsWith('system_prompt:')) currentStep.system_prompt = trimmed.split('system_prompt:')[1].trim().replace(/"/g, '');
-        else if (trimmed.startsWith('user_prompt_template:')) currentStep.user_prompt_template = trimmed.split('user_prompt_template:')[1].trim().replace(/"/g, '');
-        else if (trimmed.startsWith('max_tokens:')) currentStep.max_tokens = parseInt(trimmed.split('max_tokens:')[1].trim());
+      const summary = await parseInWorker(source, {
+        signal: controller.signal,
+        encoding,
+        mapping,
+        rowSource,
+        onSample,
+        onProgress: setParseProgress,
+        onRows: (batch) => {
+          const fresh = deduper.filter(batch);
+          fresh.forEach(row => rows.push(row));
+          accumulator.add(fresh);
+          setData(base.rows.concat(rows));
+          setMetrics(accumulator.metrics());
+        }
       });
-      if (currentStep.id) steps.push(currentStep as AgentStep);
+      finishLoad(base, rowSource, rows, deduper.skipped(), summary);
+      setParseInfo({
+        encoding: summary.encoding,
+        delimiter: summary.delimiter,
+        errorCount: summary.errorCount,
+        profile,
+        duplicatesSkipped: deduper.skipped(),
+      });
+    } catch (e: any) {
+      // A parse that was superseded by a newer one leaves the data to its successor
+      if (parseControllerRef.current === controller) {
+        setData(previous.data);
+        setMetrics(previous.metrics);
+      }
+      if (!isAbortError(e)) alert(`Failed to parse Data: ${e.message}`);
+    } finally {
+      if (parseControllerRef.current === controller) {
+        parseControllerRef.current = null;
+        setIsParsing(false);
+        setParseProgress(null);
+      }
+    }
+  };
+
+  // Workbooks are imported through the sheet / header-row picker instead
+  const workbookFile = sourceFile && isWorkbookFile(sourceFile) ? sourceFile : null;
+
+  const targetName = (target: MappingTarget) =>
+    typeof target === 'string' ? t.sourcePasted : target.name;
 
-      setPipeline({ defaults: { temperature: 0.2, max_tokens: 2000 }, agents: steps });
-    } catch (e) {
-      console.error("YAML Parse Error", e);
+  const applyMapping = (request: MappingRequest, mapping: ColumnMapping, profile: string | null) => {
+    const base = loadBase(request.replaces);
+    const rowSource = createRowSource(targetName(request.target));
+    setMappingRequest(null);
+    // Editing the mapping later re-parses into this source's place
+    setAppliedMapping({ ...request, mapping, replaces: rowSource.id });
+    const { target } = request;
+    if (typeof target === 'string' || target instanceof File) {
+      parseSource(target, base, rowSource, mapping, profile);
+      return;
     }
-  }, [agentsYaml]);
+    parseControllerRef.current?.abort();
+    const deduper = createDeduper(base.rows);
+    const result = parseTableRows(target.rows, target.headerRow, { mapping, source: rowSource, dateSystem: target.dateSystem });
+    const rows = deduper.filter(result.data);
+    finishLoad(base, rowSource, rows, deduper.skipped(), {
+      parseFailures: result.metrics.parseFailures,
+      errors: result.metrics.parseErrors,
+    });
+    setParseInfo({
+      encoding: null,
+      delimiter: null,
+      errorCount: result.metrics.parseErrors.length,
+      profile,
+      duplicatesSkipped: deduper.skipped(),
+    });
+  };
 
-  // Actions
-  const handleParse = () => {
-    setIsParsing(true);
-    setTimeout(() => {
-      try {
-        const result = parseData(inputText);
-        setData(result.data);
-        setMetrics(result.metrics);
-      } catch (e) {
-        alert("Failed to parse Data");
+  const removeSource = (id: string) => {
+    const sources = dataSources.filter(s => s.id !== id);
+    const rows = data.filter(r => r.sourceId !== id);
+    setDataSources(sources);
+    setData(rows);
+    setMetrics(sourceMetrics(rows, sources));
+    if (appliedMapping?.replaces === id) setAppliedMapping(null);
+  };
+
+  // A saved profile for these headers, or aliases that cover every field, skip the mapping wizard.
+  // `streaming` is the source of a JSON parse already running on the aliases; it is kept when they suffice.
+  const mapColumns = (target: MappingTarget, sample: SourceSample, streaming?: RowSource) => {
+    const profile = findProfile(mappingProfiles, sample.headers);
+    const suggested = suggestMapping(sample.headers);
+    const request = { target, sample, mapping: profile ? toMapping(profile) : suggested, replaces: null };
+    const aliasesSuffice = !profile && MAPPED_FIELDS.every(f => suggested.columns[f] !== undefined);
+    if (streaming) {
+      // Without headers there is nothing to map; the parser reports the problem
+      if (aliasesSuffice || sample.headers.length === 0) {
+        setAppliedMapping({ ...request, replaces: streaming.id });
+        return;
       }
-      setIsParsing(false);
-    }, 500);
+      parseControllerRef.current?.abort();
+    }
+    if (profile) applyMapping(request, request.mapping, profile.name);
+    else if (aliasesSuffice) applyMapping(request, suggested, null);
+    else setMappingRequest(request);
+  };
+
+  const prepareSource = async (source: File | string) => {
+    let sample: SourceSample | null;
+    try {
+      sample = await sniffSource(source, encoding);
+    } catch {
+      sample = { headers: [], rows: [] };
+    }
+    if (sample === null) {
+      // JSON is parsed once, in the worker, which reports its sample before the first rows
+      const rowSource = createRowSource(targetName(source));
+      parseSource(source, loadBase(null), rowSource, undefined, null, json => mapColumns(source, json, rowSource));
+    } else if (sample.headers.length === 0) {
+      // Unreadable sources go straight to the parser, which reports the error
+      parseSource(source, loadBase(null), createRowSource(targetName(source)));
+    } else {
+      mapColumns(source, sample);
+    }
+  };
+
+  const handleParse = () => {
+    if (workbookFile) return;
+    prepareSource(sourceFile ?? inputText);
+  };
+
+  const handleWorkbookImport = (rows: string[][], headerRow: number, dateSystem: DateSystem) => {
+    const headers = (rows[headerRow] ?? []).map(h => h.trim());
+    mapColumns({ rows, headerRow, name: workbookFile?.name ?? '', dateSystem }, { headers, rows: rows.slice(headerRow + 1, headerRow + 21) });
+  };
+
+  const handleSaveProfile = (name: string, mapping: ColumnMapping) => {
+    if (!mappingRequest) return;
+    setMappingProfiles(saveProfile(mappingProfiles, name, mappingRequest.sample.headers, mapping));
   };
 
+  const cancelParse = () => parseControllerRef.current?.abort();
+
+  // Large files are parsed straight from disk instead of going through the text area
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-        if (evt.target?.result) {
-            setInputText(evt.target.result as string);
-        }
-    };
-    reader.readAsText(file);
+    setSourceFile(file);
+    setMappingRequest(null);
+    if (!isWorkbookFile(file)) prepareSource(file);
   };
 
   const handleLoadDefault = () => {
+      setSourceFile(null);
       setInputText(DEFAULT_FULL_DATASET);
   };
 
@@ -158,85 +391,358 @@ export default function App() {
     }, 100);
   };
 
-  const runAgentStep = async (index: number) => {
-    if (!pipeline || !metrics) return;
-    
-    const newAgents = [...pipeline.agents];
-    newAgents[index].status = 'running';
-    setPipeline({ ...pipeline, agents: newAgents });
-
-    const dataSummary = JSON.stringify({
-       totalUnits: metrics.totalUnits,
-       uniqueSuppliers: metrics.uniqueSuppliers,
-       topCategories: filteredData.slice(0, 5).map(r => r.Category),
-       dateRange: metrics.dateRange
+  // Functional update so concurrent branches never overwrite each other's results
+  const updateStep = useCallback((id: string, patch: Partial<AgentStep>) => {
+    setPipeline(prev => prev && {
+        ...prev,
+        agents: prev.agents.map(a => a.id === id ? { ...a, ...patch } : a)
     });
-    
-    const previousOutput = index > 0 ? pipeline.agents[index-1].output : "None";
-    
-    let prompt = newAgents[index].user_prompt_template
-        .replace('{{data_summary}}', dataSummary)
-        .replace('{{previous_output}}', previousOutput);
-
-    const response = await callGeminiAgent(
-        apiKey,
-        newAgents[index].model,
-        `${newAgents[index].system_prompt}\n\n${skillMd}`,
-        prompt,
-        newAgents[index].max_tokens
+  }, []);
+
+  // Engine updates: every finished model output is also recorded in the step's version history
+  const onStepUpdate = useCallback((id: string, patch: Partial<AgentStep>) => {
+    setPipeline(prev => prev && {
+        ...prev,
+        agents: prev.agents.map(a => {
+            if (a.id !== id) return a;
+            const versions = patch.status === 'completed'
+                ? [...a.versions, { text: patch.output ?? '', source: 'model' as const, at: Date.now() }]
+                : a.versions;
+            return { ...a, ...patch, versions };
+        })
+    });
+  }, []);
+
+  const saveStepEdit = (id: string, text: string) => {
+    setPipeline(prev => prev && {
+        ...prev,
+        agents: prev.agents.map(a => a.id === id
+            ? { ...a, editedOutput: text, versions: [...a.versions, { text, source: 'edit' as const, at: Date.now() }] }
+            : a)
+    });
+  };
+
+  const appendToolCall = (id: string, log: ToolCallLog) => {
+    setPipeline(prev => prev && {
+        ...prev,
+        agents: prev.agents.map(a => a.id === id ? { ...a, toolCalls: [...a.toolCalls, log] } : a)
+    });
+  };
+
+  const revertStepEdit = (id: string) => updateStep(id, { editedOutput: undefined });
+
+  // Renders a step's prompt against the given upstream outputs, truncating context variables to its budget
+  const renderStepPrompt = (step: AgentStep, outputs: Record<string, string>): RenderedPrompt => {
+    // Edits made while the run is paused take precedence over the engine's model outputs
+    const latest = { ...outputs };
+    pipelineRef.current?.agents.forEach(a => {
+        if (a.editedOutput !== undefined && latest[a.id] !== undefined) latest[a.id] = a.editedOutput;
+    });
+    return renderWithBudget(
+        `${step.system_prompt}\n\n${skillMd}`,
+        step.user_prompt_template,
+        buildPromptVariables(step, contextVariables ?? {}, latest), // variables stay unresolved while a load streams
+        step.context_budget
     );
+  };
+
+  const previewStepPrompt = (step: AgentStep): RenderedPrompt => renderStepPrompt(step, completedOutputs());
+
+  const executeStep = async (step: AgentStep, outputs: Record<string, string>, context: StepContext): Promise<string> => {
+    if (!metrics) throw new NonRetryableError('No data loaded');
+
+    const rendered = renderStepPrompt(step, outputs);
+    if (rendered.budget && rendered.tokens > rendered.budget) {
+        throw new NonRetryableError(`Prompt needs ~${rendered.tokens} tokens even after truncating context variables; context_budget is ${rendered.budget}`);
+    }
+    updateStep(step.id, { renderedPrompt: rendered });
+    updateStep(step.id, { toolCalls: [] });
+
+    return callAgent(step.provider, apiKeys, {
+        model: step.model,
+        systemInstruction: rendered.system,
+        prompt: rendered.user,
+        maxTokens: step.max_tokens,
+        temperature: step.temperature,
+        signal: context.signal,
+        onToken: context.onToken,
+        tools: step.tools.length > 0
+            ? buildQueryTools(() => filteredData).filter(tool => step.tools.includes(tool.name))
+            : undefined,
+        onToolCall: (log) => appendToolCall(step.id, log)
+    });
+  };
+
+  // Per-step abort controllers, each chained to the controller of the whole run
+  const signalFor = (id: string): AbortSignal => {
+    const controller = new AbortController();
+    const run = runControllerRef.current;
+    if (run) {
+        if (run.signal.aborted) controller.abort();
+        else run.signal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+    stepControllersRef.current.set(id, controller);
+    return controller.signal;
+  };
+
+  // "Pause before next step": every step after the first waits for the analyst to continue
+  const beforeStep = (step: AgentStep, started: number): Promise<void> => {
+    if (!pauseBeforeStepRef.current || started === 0) return Promise.resolve();
+    updateStep(step.id, { status: 'paused' });
+    return new Promise(resolve => { pauseGatesRef.current.set(step.id, resolve); });
+  };
+
+  const continueStep = (id: string) => {
+    pauseGatesRef.current.get(id)?.();
+    pauseGatesRef.current.delete(id);
+  };
+
+  const cancelStep = (id: string) => {
+    stepControllersRef.current.get(id)?.abort();
+    continueStep(id);
+  };
 
-    newAgents[index].status = 'completed';
-    newAgents[index].output = response;
-    setPipeline({ ...pipeline, agents: newAgents });
+  const cancelPipeline = () => {
+    runControllerRef.current?.abort();
+    Array.from(pauseGatesRef.current.keys()).forEach(continueStep);
+  };
+
+  const runSteps = async (steps: AgentStep[], initialOutputs: Record<string, string> = {}) => {
+    if (dataFingerprint === null) return; // rows are still arriving
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    activeRunRef.current = {
+        id: `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        startedAt: Date.now(),
+        datasetFingerprint: dataFingerprint,
+        rowCount: data.length,
+        filters,
+        agentsYaml,
+        skillMd,
+        stepIds: steps.map(s => s.id)
+    };
+    stepControllersRef.current.clear();
+    setIsPipelineRunning(true);
+    try {
+        await runDag(
+            steps,
+            { execute: executeStep, onUpdate: onStepUpdate, beforeStep, signalFor },
+            { initialOutputs, signal: controller.signal }
+        );
+    } finally {
+        runControllerRef.current = null;
+        setIsPipelineRunning(false);
+    }
+  };
+
+  const completedOutputs = (): Record<string, string> => {
+    const outputs: Record<string, string> = {};
+    pipeline?.agents.forEach(a => { if (a.status === 'completed') outputs[a.id] = effectiveOutput(a); });
+    return outputs;
+  };
+
+  const runAgentStep = async (id: string) => {
+    const step = pipeline?.agents.find(a => a.id === id);
+    if (!step || !metrics) return;
+    setSelectedStepId(id);
+    await runSteps([step], completedOutputs());
+  };
+
+  // Re-runs everything downstream of a step, feeding it the step's current (possibly edited) output
+  const rerunDownstream = async (id: string) => {
+    if (!pipeline || !metrics) return;
+    const downstream = new Set(descendantsOf(pipeline.agents, id));
+    await runSteps(pipeline.agents.filter(a => downstream.has(a.id)), completedOutputs());
   };
 
   const runPipeline = async () => {
-    if (!pipeline) return;
-    for (let i = 0; i < pipeline.agents.length; i++) {
-        await runAgentStep(i);
+    if (!pipeline || !metrics) return;
+    await runSteps(pipeline.agents);
+  };
+
+  // Brings back a saved run's configuration, filters and results
+  const restoreRun = (run: PipelineRun) => {
+    const result = parseAgentsYaml(run.agentsYaml);
+    parsedYamlRef.current = run.agentsYaml;
+    setAgentsYaml(run.agentsYaml);
+    setSkillMd(run.skillMd);
+    setFilters({ ...DEFAULT_FILTERS, ...run.filters }); // runs saved before a filter existed lack it
+    setConfigErrors(result.errors);
+    if (result.pipeline) {
+        setPipeline({
+            ...result.pipeline,
+            agents: result.pipeline.agents.map(a => {
+                const saved = run.steps.find(s => s.id === a.id);
+                if (!saved) return a;
+                const versions: OutputVersion[] = saved.status === 'completed'
+                    ? [{ text: saved.output, source: 'model', at: saved.finishedAt ?? run.finishedAt }]
+                    : [];
+                if (saved.editedOutput !== undefined) versions.push({ text: saved.editedOutput, source: 'edit', at: run.finishedAt });
+                return { ...a, ...saved, versions };
+            })
+        });
     }
+    setSelectedStepId(run.steps[0]?.id ?? null);
+    setActiveTab('agents');
   };
 
+  const removeRun = (id: string) => {
+    deleteRun(id)
+        .then(() => setRunHistory(prev => prev.filter(r => r.id !== id)))
+        .catch(e => console.error('Failed to delete run', e));
+  };
+
+  // Duplicate review choices apply before any filter
+  const reviewedData = useMemo(() => applyDecisions(data, rowDecisions), [data, rowDecisions]);
+
   // Filter Data Logic
+  // Timestamps with an offset land on the calendar day of the chosen time zone
+  const zonedData = useMemo(() => normalizeTimeZone(reviewedData, filters.timeZone), [reviewedData, filters.timeZone]);
+
   const filteredData = useMemo(() => {
-    let res = data;
+    let res = zonedData;
     // Apply filters
     const match = (val: string, filter: string) => !filter || val.toLowerCase().includes(filter.toLowerCase());
     
     res = res.filter(r => 
+        inDateRange(r.parsedDate, filters.dateRange) &&
         match(r.SupplierID, filters.searchSupplier) &&
         match(r.Category, filters.category) &&
         match(r.LicenseNo, filters.licenseNo) &&
         match(r.Model, filters.model) &&
         match(r.LotNO, filters.lotNo) &&
         match(r.SerNo, filters.serNo) &&
-        match(r.CustomerID, filters.customerID)
+        match(r.CustomerID, filters.customerID) &&
+        match(r.DeviceNAME, filters.deviceName) &&
+        (!filters.specialty || r.categorySpecialty === filters.specialty)
     );
     
     return res;
-  }, [data, filters]);
+  }, [zonedData, filters]);
 
-  // Chart Data Preparation
-  const trendData = useMemo(() => {
-    const agg: Record<string, number> = {};
-    filteredData.forEach(r => {
-        const d = r.Deliverdate; 
-        agg[d] = (agg[d] || 0) + r.Number;
+  // The memos below skip streamed batches and run once a load has finished; null while parsing
+  const dataFingerprint = useMemo(() => !isParsing ? datasetFingerprint(data) : null, [data, isParsing]);
+
+  // Row ids are unique across sources, so decisions only go away with their rows
+  useEffect(() => {
+    setRowDecisions(prev => {
+      const decided = Object.keys(prev);
+      if (decided.length === 0) return prev;
+      const ids = new Set(data.map(r => r.id));
+      const next: Record<string, RowDecision> = {};
+      decided.forEach(id => {
+        const decision = prev[id];
+        if (ids.has(id) && (decision.action === 'exclude' || ids.has(decision.into))) next[id] = decision;
+      });
+      return Object.keys(next).length === decided.length ? prev : next;
+    });
+  }, [data]);
+
+  const duplicateGroups = useMemo(
+    () => !isParsing && data.length > 0 ? detectDuplicates(data) : null,
+    [data, isParsing]
+  );
+
+  // Evaluated once a load has finished, not for every streamed batch
+  const qualityReport = useMemo(
+    () => !isParsing && data.length > 0 ? evaluateQuality(data) : null,
+    [data, isParsing]
+  );
+
+  useEffect(() => {
+    if (!qualityReport) return;
+    setQualityHistory(history => recordQuality(history, {
+      timestamp: Date.now(),
+      score: qualityReport.score,
+      rowCount: qualityReport.totalRows,
+      datasetFingerprint: dataFingerprint,
+    }));
+  }, [qualityReport, dataFingerprint]);
+
+  // Persist a finished run once its final step states have been rendered
+  useEffect(() => {
+    const active = activeRunRef.current;
+    if (isPipelineRunning || !active || !pipeline) return;
+    activeRunRef.current = null;
+    const { stepIds, ...meta } = active;
+    const steps = pipeline.agents.filter(a => stepIds.includes(a.id)).map(toRunStep);
+    const run: PipelineRun = { ...meta, finishedAt: Date.now(), status: runStatus(steps), steps };
+    saveRun(run)
+        .then(() => setRunHistory(prev => [run, ...prev]))
+        .catch(e => console.error('Failed to save run', e));
+  }, [isPipelineRunning, pipeline]);
+
+  // Exports
+  const trendChartRef = useRef<HTMLDivElement>(null);
+  const categoryChartRef = useRef<HTMLDivElement>(null);
+  const networkRef = useRef<HTMLDivElement>(null);
+  const chartBackground = theme === 'dark' ? '#111827' : '#ffffff';
+
+  const download = (file: ExportFile) => downloadFile(file.filename, file.content, file.mimeType);
+
+  const handleExportData = (format: DataExportFormat) => download(exportData(filteredData, filters, format));
+
+  // Computed whether or not the chart shows it, since agents get it as prompt context
+  const forecast = useMemo(
+    () => !isParsing ? buildForecast(filteredData, forecastOptions) : null,
+    [filteredData, forecastOptions, isParsing]
+  );
+
+  // Rows are still arriving while parsing; volume statistics over part of a file would mislead
+  const anomalies = useMemo(
+    () => !isParsing ? detectAnomalies(filteredData) : null,
+    [filteredData, isParsing]
+  );
+
+  const contextVariables = useMemo(
+    () => forecast && anomalies ? buildContextVariables(filteredData, filters, forecast, anomalies) : null,
+    [filteredData, filters, forecast, anomalies]
+  );
+
+  const hasPipelineOutput = !!pipeline?.agents.some(step => effectiveOutput(step).trim() !== '');
+
+  const handleExportReport = (format: ReportFormat) => {
+    if (!pipeline) return;
+    download(buildPipelineReport(pipeline, { filters, rowCount: filteredData.length, contextVariables }, format));
+  };
+
+  // Provider/model/key problems per step, so runs are rejected up front with a clear reason
+  const stepIssues = useMemo(() => {
+    const issues: Record<string, string | null> = {};
+    pipeline?.agents.forEach(step => {
+        issues[step.id] = validateProviderModel(step.provider, step.model, apiKeys);
     });
-    return Object.entries(agg).map(([date, val]) => ({ date, val })).sort((a,b) => a.date.localeCompare(b.date));
-  }, [filteredData]);
+    return issues;
+  }, [pipeline, apiKeys]);
+  const selectedStep = pipeline?.agents.find(a => a.id === selectedStepId)
+    ?? pipeline?.agents.find(a => a.status === 'running' || a.status === 'completed')
+    ?? null;
+  const pipelineReady = !!pipeline && pipeline.agents.length > 0 && !isParsing && Object.values(stepIssues).every(issue => !issue);
+  const hasAnyKey = Object.values(apiKeys).some(Boolean);
+
+  // Chart Data Preparation
+  const trendData = useMemo(
+    () => !isParsing ? buildTrend(filteredData, trendGranularity, periodComparison) : [],
+    [filteredData, trendGranularity, periodComparison, isParsing]
+  );
+  const periodDelta = useMemo(
+    () => !isParsing ? comparePeriods(filteredData, trendGranularity, periodComparison) : null,
+    [filteredData, trendGranularity, periodComparison, isParsing]
+  );
 
   const catData = useMemo(() => {
+    if (isParsing) return [];
     const agg: Record<string, number> = {};
+    const labels: Record<string, string> = {};
     filteredData.forEach(r => {
         agg[r.Category] = (agg[r.Category] || 0) + r.Number;
+        labels[r.Category] = r.categoryCode || r.Category; // the code fits the axis; the full name is in the tooltip
     });
     return Object.entries(agg)
-        .map(([name, value]) => ({ name, value }))
+        .map(([name, value]) => ({ name, label: labels[name], value }))
         .sort((a,b) => b.value - a.value)
         .slice(0, filters.topN);
-  }, [filteredData, filters.topN]);
+  }, [filteredData, filters.topN, isParsing]);
 
   // Styles
   const appStyle = {
@@ -256,8 +762,14 @@ export default function App() {
           {[
             { id: 'dashboard', icon: Lucide.LayoutDashboard, label: t.dashboard },
             { id: 'network', icon: Lucide.Network, label: t.network },
+            { id: 'recall', icon: Lucide.SearchCheck, label: t.recall },
             { id: 'agents', icon: Lucide.Bot, label: t.agents },
+            { id: 'history', icon: Lucide.History, label: t.history },
+            { id: 'licenses', icon: Lucide.BadgeCheck, label: t.licenses },
+            { id: 'anomalies', icon: Lucide.Siren, label: t.anomalies },
+            { id: 'pivot', icon: Lucide.Table2, label: t.pivot },
             { id: 'quality', icon: Lucide.ShieldCheck, label: t.quality },
+            { id: 'duplicates', icon: Lucide.CopyX, label: t.duplicates },
             { id: 'data', icon: Lucide.Database, label: t.data },
             { id: 'config', icon: Lucide.Settings, label: t.config },
           ].map(item => (
@@ -283,6 +795,12 @@ export default function App() {
            
            {showFilters && (
                <div className="space-y-2 animate-fade-in-down">
+                    <DateRangeFilter
+                        range={filters.dateRange}
+                        timeZone={filters.timeZone}
+                        onChange={(dateRange, timeZone) => setFilters({...filters, dateRange, timeZone})}
+                        t={t}
+                    />
                     {[
                         { key: 'searchSupplier', placeholder: 'Supplier ID' },
                         { key: 'category', placeholder: 'Category' },
@@ -291,7 +809,7 @@ export default function App() {
                         { key: 'lotNo', placeholder: 'Lot NO' },
                         { key: 'serNo', placeholder: 'SN / Serial' },
                         { key: 'customerID', placeholder: 'Customer ID' },
-                        { key: 'timeZone', placeholder: 'Time Zone (Optional)' },
+                        { key: 'deviceName', placeholder: 'Device Name' },
                     ].map(f => (
                         <input
                             key={f.key}
@@ -301,6 +819,16 @@ export default function App() {
                             className="w-full bg-black/20 border border-white/10 rounded px-2 py-1 text-xs focus:outline-none focus:border-white/40 placeholder-white/30"
                         />
                     ))}
+                    <select
+                        value={filters.specialty}
+                        onChange={(e) => setFilters({...filters, specialty: e.target.value})}
+                        className="w-full bg-black/20 border border-white/10 rounded px-2 py-1 text-xs focus:outline-none focus:border-white/40"
+                    >
+                        <option value="">{t.specialtyAll}</option>
+                        {Object.entries(TFDA_SPECIALTIES).map(([letter, labels]) => (
+                            <option key={letter} value={letter}>{letter} · {labels[lang]}</option>
+                        ))}
+                    </select>
                </div>
            )}
         </div>
@@ -321,16 +849,21 @@ export default function App() {
                  </button>
             </div>
 
-            {/* API Key */}
-            <div className="relative group">
-                <Lucide.Key size={14} className="absolute left-3 top-3 opacity-50"/>
-                <input 
-                    type="password" 
-                    placeholder={t.apiKeyPlaceholder}
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    className="w-full bg-black/20 border border-white/10 rounded-lg py-2 pl-8 pr-2 text-xs focus:outline-none focus:border-white/40 placeholder-white/30"
-                />
+            {/* API Keys */}
+            <div className="space-y-2">
+                <p className="text-xs font-bold uppercase tracking-wider opacity-60">{t.apiKeys}</p>
+                {(Object.keys(apiKeys) as (keyof ApiKeys)[]).map(id => (
+                    <div key={id} className="relative group">
+                        <Lucide.Key size={14} className="absolute left-3 top-3 opacity-50"/>
+                        <input 
+                            type="password" 
+                            placeholder={`${PROVIDERS[id].label} ${t.apiKeyPlaceholder}`}
+                            value={apiKeys[id]}
+                            onChange={(e) => setApiKeys({ ...apiKeys, [id]: e.target.value })}
+                            className="w-full bg-black/20 border border-white/10 rounded-lg py-2 pl-8 pr-2 text-xs focus:outline-none focus:border-white/40 placeholder-white/30"
+                        />
+                    </div>
+                ))}
             </div>
         </div>
       </aside>
@@ -346,10 +879,24 @@ export default function App() {
                 <span className="flex items-center gap-1"><Lucide.Palette size={12}/> {currentSkin.name}</span>
                 <span className="h-4 w-px bg-white/20"/>
                 <span className="flex items-center gap-1">
-                    <div className={`w-2 h-2 rounded-full ${apiKey ? 'bg-green-400' : 'bg-red-400'}`}/> 
-                    {apiKey ? 'API Ready' : 'Key Missing'}
+                    <div className={`w-2 h-2 rounded-full ${pipelineReady ? 'bg-green-400' : 'bg-red-400'}`}/> 
+                    {pipelineReady ? 'API Ready' : hasAnyKey ? 'Pipeline Not Ready' : 'Key Missing'}
                 </span>
             </div>
+            <div className="flex items-center gap-1 px-4 text-xs">
+                <Lucide.Download size={12} className="opacity-60"/>
+                <span className="opacity-60 mr-1">{t.exportData}</span>
+                {(['csv', 'json', 'xlsx'] as DataExportFormat[]).map(format => (
+                    <button
+                        key={format}
+                        onClick={() => handleExportData(format)}
+                        disabled={filteredData.length === 0}
+                        className="px-2 py-0.5 rounded hover:bg-white/10 uppercase font-mono disabled:opacity-30"
+                    >
+                        {format}
+                    </button>
+                ))}
+            </div>
         </header>
 
         {/* Tab Content */}
@@ -378,41 +925,131 @@ export default function App() {
                         </Card>
                     </div>
 
+                    {/* Period-over-period deltas */}
+                    {periodDelta && (
+                        <div>
+                            <p className="text-xs opacity-60 mb-2">
+                                {t.periodCompare}: {periodDelta.current.label} ({periodDelta.current.from} – {periodDelta.current.to})
+                                {' vs '}{periodDelta.previous.label} ({periodDelta.previous.from} – {periodDelta.previous.to})
+                            </p>
+                            <div className="grid grid-cols-4 gap-6">
+                                {(['rows', 'units', 'suppliers', 'customers'] as (keyof PeriodStats)[]).map(key => {
+                                    const current = periodDelta.current.stats[key];
+                                    const previous = periodDelta.previous.stats[key];
+                                    const delta = current - previous;
+                                    return (
+                                        <Card key={key} className={`bg-[${currentSkin.cardBg}] py-3`}>
+                                            <h3 className="text-xs opacity-70 mb-1">{t[key]}</h3>
+                                            <p className="flex items-baseline gap-2">
+                                                <span className="text-xl font-bold">{current.toLocaleString()}</span>
+                                                <span className={`text-sm flex items-center ${delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'opacity-60'}`}>
+                                                    {delta > 0 ? <Lucide.ArrowUpRight size={14}/> : delta < 0 ? <Lucide.ArrowDownRight size={14}/> : null}
+                                                    {previous === 0 ? (current === 0 ? '0%' : t.deltaNew) : `${delta > 0 ? '+' : ''}${((delta / previous) * 100).toFixed(1)}%`}
+                                                </span>
+                                            </p>
+                                            <p className="text-xs opacity-50">{t.deltaWas} {previous.toLocaleString()}</p>
+                                        </Card>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
                     <div className="grid grid-cols-3 gap-6">
                         {/* Trend Chart */}
                         <Card className="col-span-2 min-h-[400px]">
-                            <h3 className="text-xl font-bold mb-4 flex items-center gap-2"><Lucide.TrendingUp size={20}/> Unit Trend</h3>
-                            <div className="h-[300px] w-full">
-                                <ResponsiveContainer width="100%" height="100%">
-                                    <LineChart data={trendData}>
-                                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
-                                        <XAxis dataKey="date" stroke="currentColor" style={{fontSize: 10}} tickFormatter={(val) => val.slice(4)}/>
-                                        <YAxis stroke="currentColor" style={{fontSize: 10}}/>
-                                        <ReTooltip 
-                                            contentStyle={{backgroundColor: 'rgba(0,0,0,0.8)', border: 'none', borderRadius: '8px'}}
-                                            itemStyle={{color: '#fff'}}
-                                        />
-                                        <Line type="monotone" dataKey="val" stroke={currentSkin.accent} strokeWidth={3} dot={false} />
-                                    </LineChart>
-                                </ResponsiveContainer>
+                            <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                                <Lucide.TrendingUp size={20}/> Unit Trend
+                                {!showForecast && (
+                                    <span className="ml-auto flex gap-2 text-xs font-normal">
+                                        <select
+                                            value={trendGranularity}
+                                            onChange={(e) => setTrendGranularity(e.target.value as TimeGranularity)}
+                                            className="bg-black/30 border border-white/20 rounded p-1"
+                                        >
+                                            {TIME_GRANULARITIES.map(g => <option key={g} value={g}>{t[`granularity_${g}`]}</option>)}
+                                        </select>
+                                        <select
+                                            value={periodComparison}
+                                            onChange={(e) => setPeriodComparison(e.target.value as PeriodComparison)}
+                                            className="bg-black/30 border border-white/20 rounded p-1"
+                                        >
+                                            {PERIOD_COMPARISONS.map(c => <option key={c} value={c}>{t[`compare_${c}`]}</option>)}
+                                        </select>
+                                    </span>
+                                )}
+                                <button
+                                    onClick={() => setShowForecast(!showForecast)}
+                                    className={`${showForecast ? 'ml-auto' : ''} px-2 py-1 rounded text-xs font-normal flex items-center gap-1 ${showForecast ? 'bg-white/20' : 'opacity-70 hover:opacity-100 hover:bg-white/10'}`}
+                                >
+                                    <Lucide.LineChart size={12}/> {t.forecast}
+                                </button>
+                                <ChartExportButtons targetRef={trendChartRef} filename={showForecast ? 'unit-forecast' : 'unit-trend'} background={chartBackground} t={t}/>
+                            </h3>
+                            <div ref={trendChartRef} className="h-[300px] w-full">
+                                {showForecast && forecast ? (
+                                    <ForecastChart
+                                        data={filteredData}
+                                        result={forecast}
+                                        onOptionsChange={setForecastOptions}
+                                        accent={currentSkin.accent}
+                                        t={t}
+                                    />
+                                ) : showForecast ? (
+                                    <p className="opacity-60 text-sm">{t.parsing}</p>
+                                ) : (
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <LineChart data={trendData}>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                                            <XAxis dataKey="period" stroke="currentColor" style={{fontSize: 10}}/>
+                                            <YAxis stroke="currentColor" style={{fontSize: 10}}/>
+                                            <ReTooltip 
+                                                contentStyle={{backgroundColor: 'rgba(0,0,0,0.8)', border: 'none', borderRadius: '8px'}}
+                                                itemStyle={{color: '#fff'}}
+                                            />
+                                            <Line type="monotone" dataKey="val" name={t.units} stroke={currentSkin.accent} strokeWidth={3} dot={false} />
+                                            {periodComparison !== 'none' && (
+                                                <Line type="monotone" dataKey="compare" name={t[`compare_${periodComparison}`]} stroke={currentSkin.accent} strokeOpacity={0.5} strokeWidth={2} strokeDasharray="4 4" dot={false} />
+                                            )}
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                )}
                             </div>
                         </Card>
 
                         {/* Top Categories */}
                         <Card className="col-span-1 min-h-[400px]">
-                             <h3 className="text-xl font-bold mb-4 flex items-center gap-2"><Lucide.BarChart2 size={20}/> Top Categories</h3>
-                             <div className="h-[300px] w-full">
+                             <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                                 <Lucide.BarChart2 size={20}/> Top Categories
+                                 <span className="ml-auto"><ChartExportButtons targetRef={categoryChartRef} filename="top-categories" background={chartBackground} t={t}/></span>
+                             </h3>
+                             <div ref={categoryChartRef} className="h-[300px] w-full">
                                 <ResponsiveContainer width="100%" height="100%">
                                     <BarChart layout="vertical" data={catData}>
                                         <XAxis type="number" hide />
-                                        <YAxis dataKey="name" type="category" width={80} stroke="currentColor" style={{fontSize: 10}}/>
-                                        <ReTooltip cursor={{fill: 'rgba(255,255,255,0.1)'}} contentStyle={{backgroundColor: '#000', borderRadius: '8px', border:'none'}}/>
+                                        <YAxis dataKey="label" type="category" width={80} stroke="currentColor" style={{fontSize: 10}}/>
+                                        <ReTooltip
+                                            cursor={{fill: 'rgba(255,255,255,0.1)'}}
+                                            contentStyle={{backgroundColor: '#000', borderRadius: '8px', border:'none'}}
+                                            labelFormatter={(_, payload) => payload?.[0]?.payload.name}
+                                        />
                                         <Bar dataKey="value" fill={currentSkin.accent} radius={[0, 4, 4, 0]} />
                                     </BarChart>
                                 </ResponsiveContainer>
                              </div>
                         </Card>
                     </div>
+
+                    {/* Category drill-down */}
+                    <CategoryExplorer
+                        data={filteredData}
+                        filters={filters}
+                        onFiltersChange={(patch) => setFilters({...filters, ...patch})}
+                        accent={currentSkin.accent}
+                        background={chartBackground}
+                        lang={lang}
+                        t={t}
+                    />
                 </div>
             )}
 
@@ -425,11 +1062,33 @@ export default function App() {
                             <label className="text-xs block mb-1">Top N: {filters.topN}</label>
                             <input type="range" min="5" max="50" value={filters.topN} onChange={(e) => setFilters({...filters, topN: parseInt(e.target.value)})} className="w-full accent-white"/>
                          </div>
-                         <NetworkGraph data={filteredData} topN={filters.topN} width={1200} height={800} />
+                         <div className="absolute top-4 right-4 z-10 glass-panel px-3 py-2 rounded-lg">
+                            <ChartExportButtons targetRef={networkRef} filename="supply-network" background={chartBackground} t={t}/>
+                         </div>
+                         <div ref={networkRef}>
+                            <NetworkGraph data={filteredData} topN={filters.topN} width={1200} height={800} />
+                         </div>
                     </Card>
                 </div>
             )}
 
+            {/* --- RECALL --- */}
+            {activeTab === 'recall' && (
+                <RecallWorkbench data={data} t={t} />
+            )}
+
+            {/* --- RUN HISTORY --- */}
+            {activeTab === 'history' && (
+                <RunHistory
+                    runs={runHistory}
+                    currentFingerprint={dataFingerprint}
+                    onRestore={restoreRun}
+                    onDelete={removeRun}
+                    isRunning={isPipelineRunning}
+                    t={t}
+                />
+            )}
+
             {/* --- AGENTS --- */}
             {activeTab === 'agents' && (
                 <div className="grid grid-cols-3 gap-6 h-[80vh]">
@@ -437,34 +1096,100 @@ export default function App() {
                      <div className="col-span-1 space-y-4 overflow-y-auto pr-2">
                         <div className="flex justify-between items-center mb-4">
                             <h2 className="text-xl font-bold">Pipeline</h2>
-                            <Button onClick={runPipeline} disabled={!apiKey} className="text-xs">
-                                <Lucide.Play size={14}/> {t.runPipeline}
-                            </Button>
+                            {configErrors.length > 0 && (
+                                <button onClick={() => setActiveTab('config')} className="text-xs text-red-300 flex items-center gap-1">
+                                    <Lucide.AlertTriangle size={12}/> {configErrors.length} {t.configErrors}
+                                </button>
+                            )}
+                            {isPipelineRunning ? (
+                                <Button variant="danger" onClick={cancelPipeline} className="text-xs">
+                                    <Lucide.Square size={14}/> {t.cancelPipeline}
+                                </Button>
+                            ) : (
+                                <Button onClick={runPipeline} disabled={!pipelineReady} className="text-xs">
+                                    <Lucide.Play size={14}/> {t.runPipeline}
+                                </Button>
+                            )}
                         </div>
-                        {pipeline?.agents.map((step, idx) => (
-                            <div key={idx} className={`p-4 rounded-xl border transition-all ${step.status === 'running' ? 'border-yellow-400 bg-yellow-400/10' : 'border-white/10 bg-white/5'}`}>
+                        <label className="flex items-center gap-2 text-xs opacity-80 cursor-pointer">
+                            <input type="checkbox" checked={pauseBeforeStep} onChange={(e) => setPauseBeforeStep(e.target.checked)} />
+                            {t.pauseBeforeStep}
+                        </label>
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className="opacity-60 flex items-center gap-1"><Lucide.FileText size={12}/> {t.exportReport}</span>
+                            {(['md', 'html'] as ReportFormat[]).map(format => (
+                                <Button
+                                    key={format}
+                                    variant="secondary"
+                                    onClick={() => handleExportReport(format)}
+                                    disabled={isPipelineRunning || !hasPipelineOutput}
+                                    className="text-xs py-1 uppercase"
+                                >
+                                    {format}
+                                </Button>
+                            ))}
+                        </div>
+                        {pipeline?.agents.map(step => (
+                            <div key={step.id} onClick={() => setSelectedStepId(step.id)} className={`p-4 rounded-xl border transition-all cursor-pointer ${step.status === 'running' ? 'border-yellow-400 bg-yellow-400/10' : selectedStep?.id === step.id ? 'border-white/40 bg-white/10' : 'border-white/10 bg-white/5'}`}>
                                 <div className="flex justify-between items-start mb-2">
                                     <span className="font-mono text-xs opacity-50">{step.id}</span>
                                     {step.status === 'completed' && <Lucide.CheckCircle2 className="text-green-400" size={16}/>}
                                     {step.status === 'running' && <Lucide.Loader2 className="animate-spin text-yellow-400" size={16}/>}
+                                    {step.status === 'error' && <Lucide.XCircle className="text-red-400" size={16}/>}
+                                    {step.status === 'skipped' && <Lucide.SkipForward className="opacity-50" size={16}/>}
+                                    {step.status === 'paused' && <Lucide.PauseCircle className="text-blue-400" size={16}/>}
+                                    {step.status === 'cancelled' && <Lucide.Ban className="text-orange-400" size={16}/>}
                                 </div>
                                 <h3 className="font-bold text-sm mb-1">{step.name}</h3>
-                                <p className="text-xs opacity-60 mb-3">{step.model}</p>
-                                <Button size={12} variant="secondary" onClick={() => runAgentStep(idx)} disabled={!apiKey || step.status === 'running'} className="w-full text-xs py-1">
-                                    {t.runStep}
-                                </Button>
+                                <p className="text-xs opacity-60 mb-1">{step.provider} · {step.model}</p>
+                                <p className="text-xs opacity-40 mb-3 font-mono">
+                                    {step.depends_on.length > 0 ? `← ${step.depends_on.join(', ')}` : t.noDependencies}
+                                    {step.retry.max_attempts > 1 && ` · ${t.retry} ${step.attempts}/${step.retry.max_attempts}`}
+                                </p>
+                                {stepIssues[step.id] && (
+                                    <p className="text-xs text-red-300 mb-3 flex items-start gap-1"><Lucide.AlertTriangle size={12} className="mt-0.5 shrink-0"/> {stepIssues[step.id]}</p>
+                                )}
+                                {step.status === 'paused' ? (
+                                    <div className="flex gap-2">
+                                        <Button size={12} onClick={(e) => { e.stopPropagation(); continueStep(step.id); }} className="flex-1 text-xs py-1">
+                                            <Lucide.Play size={12}/> {t.continueStep}
+                                        </Button>
+                                        <Button size={12} variant="danger" onClick={(e) => { e.stopPropagation(); cancelStep(step.id); }} className="flex-1 text-xs py-1">
+                                            {t.cancel}
+                                        </Button>
+                                    </div>
+                                ) : step.status === 'running' ? (
+                                    <Button size={12} variant="danger" onClick={(e) => { e.stopPropagation(); cancelStep(step.id); }} className="w-full text-xs py-1">
+                                        <Lucide.Square size={12}/> {t.cancel}
+                                    </Button>
+                                ) : (
+                                    <Button size={12} variant="secondary" onClick={(e) => { e.stopPropagation(); runAgentStep(step.id); }} disabled={!!stepIssues[step.id] || isPipelineRunning} className="w-full text-xs py-1">
+                                        {t.runStep}
+                                    </Button>
+                                )}
                             </div>
                         ))}
                      </div>
 
-                     {/* Output View */}
-                     <div className="col-span-2">
-                        <Card className="h-full flex flex-col">
-                            <h3 className="font-bold mb-4 flex items-center gap-2"><Lucide.Terminal size={18}/> Agent Output</h3>
-                            <div className="flex-1 bg-black/30 rounded-lg p-4 font-mono text-sm overflow-y-auto whitespace-pre-wrap">
-                                {pipeline?.agents.find(a => a.status === 'completed' || a.status === 'running')?.output || "Waiting for execution..."}
-                            </div>
-                        </Card>
+                     {/* Run Graph & Output View */}
+                     <div className="col-span-2 flex flex-col gap-6 min-h-0">
+                        {pipeline && (
+                            <Card className="p-4">
+                                <h3 className="font-bold mb-2 flex items-center gap-2 text-sm"><Lucide.GitBranch size={16}/> {t.runGraph}</h3>
+                                <PipelineGraph steps={pipeline.agents} selectedId={selectedStep?.id ?? null} onSelect={setSelectedStepId} />
+                            </Card>
+                        )}
+                        <AgentOutputPanel
+                            steps={pipeline?.agents ?? []}
+                            selectedId={selectedStep?.id ?? null}
+                            onSelect={setSelectedStepId}
+                            onSaveEdit={saveStepEdit}
+                            onRevertEdit={revertStepEdit}
+                            onRerunDownstream={rerunDownstream}
+                            previewPrompt={previewStepPrompt}
+                            isRunning={isPipelineRunning}
+                            t={t}
+                        />
                      </div>
                 </div>
             )}
@@ -473,35 +1198,64 @@ export default function App() {
              {activeTab === 'quality' && metrics && (
                 <div className="space-y-6">
                     <h2 className="text-2xl font-bold mb-4">Data Quality Report</h2>
-                    <div className="grid grid-cols-2 gap-6">
-                        <Card>
-                             <h3 className="text-lg font-bold mb-4 text-red-300">Issues detected</h3>
-                             <ul className="space-y-2">
-                                <li className="flex justify-between border-b border-white/10 pb-2">
-                                    <span>Parse Failures</span>
-                                    <span className="font-mono">{metrics.parseFailures}</span>
-                                </li>
-                                <li className="flex justify-between border-b border-white/10 pb-2">
-                                    <span>Missing Dates</span>
-                                    <span className="font-mono">{metrics.totalRows - (metrics.dateRange[0] ? metrics.totalRows : 0) }</span>
-                                </li>
-                             </ul>
-                        </Card>
-                        <Card>
-                             <h3 className="text-lg font-bold mb-4 text-blue-300">Context Preview (LLM)</h3>
-                             <pre className="text-xs font-mono bg-black/40 p-4 rounded overflow-x-auto">
-                                {JSON.stringify({
-                                   rows: metrics.totalRows,
-                                   units: metrics.totalUnits,
-                                   sample: data.slice(0, 2)
-                                }, null, 2)}
-                             </pre>
-                             <p className="text-xs opacity-50 mt-2 text-right">Estimated Tokens: ~150</p>
-                        </Card>
-                    </div>
+                    <QualityPanel
+                        data={data}
+                        metrics={metrics}
+                        report={qualityReport}
+                        history={qualityHistory}
+                        accent={currentSkin.accent}
+                        t={t}
+                    />
+                    <Card>
+                         <h3 className="text-lg font-bold mb-4 text-blue-300">Context Preview (LLM)</h3>
+                         {!contextVariables ? (
+                            <p className="opacity-60 text-sm">{t.parsing}</p>
+                         ) : (<>
+                         <div className="space-y-2">
+                            {Object.entries(CONTEXT_VARIABLES).map(([name, description]) => (
+                                <details key={name} className="text-xs border border-white/10 rounded">
+                                    <summary className="cursor-pointer p-2 flex justify-between gap-2">
+                                        <span><span className="font-mono text-blue-300">{`{{${name}}}`}</span> <span className="opacity-60">{description}</span></span>
+                                        <span className="font-mono opacity-70 shrink-0">~{estimateTokens(contextVariables[name])}</span>
+                                    </summary>
+                                    <pre className="font-mono bg-black/40 p-3 overflow-auto max-h-60">{contextVariables[name]}</pre>
+                                </details>
+                            ))}
+                         </div>
+                         <p className="text-xs opacity-50 mt-2 text-right">
+                            {t.promptTokens}: ~{Object.keys(CONTEXT_VARIABLES).reduce((acc, name) => acc + estimateTokens(contextVariables[name]), 0).toLocaleString()}
+                         </p>
+                         </>)}
+                    </Card>
                 </div>
             )}
 
+            {/* --- DUPLICATES --- */}
+            {activeTab === 'duplicates' && (
+                <DuplicateReview
+                    data={data}
+                    groups={duplicateGroups}
+                    decisions={rowDecisions}
+                    onChange={setRowDecisions}
+                    t={t}
+                />
+            )}
+
+            {/* --- ANOMALIES --- */}
+            {activeTab === 'anomalies' && (
+                <AnomalyPanel data={filteredData} anomalies={anomalies} t={t} />
+            )}
+
+            {/* --- PIVOT --- */}
+            {activeTab === 'pivot' && (
+                <PivotExplorer data={filteredData} t={t} />
+            )}
+
+            {/* --- LICENSES --- */}
+            {activeTab === 'licenses' && (
+                <LicensePanel data={filteredData} accent={currentSkin.accent} t={t} />
+            )}
+
             {/* --- DATA MGR --- */}
             {activeTab === 'data' && (
                 <div className="max-w-5xl mx-auto space-y-6">
@@ -515,7 +1269,7 @@ export default function App() {
                                 type="file" 
                                 ref={fileInputRef} 
                                 className="hidden" 
-                                accept=".csv,.json,.txt"
+                                accept={['.csv', '.tsv', '.json', '.txt', ...EXCEL_EXTENSIONS].join(',')}
                                 onChange={handleFileUpload}
                             />
                         </Card>
@@ -525,23 +1279,124 @@ export default function App() {
                             </Button>
                              <div className="w-full h-px bg-white/10"/>
                              <div className="flex gap-2 w-full">
-                                 <Button variant="danger" onClick={() => setInputText('')} className="flex-1">Clear</Button>
-                                 <Button onClick={handleParse} disabled={isParsing} className="flex-1">
-                                    {isParsing ? t.parsing : t.parse}
-                                </Button>
+                                 <Button variant="danger" onClick={() => { setInputText(''); setSourceFile(null); setMappingRequest(null); }} className="flex-1">Clear</Button>
+                                 {isParsing ? (
+                                     <Button variant="secondary" onClick={cancelParse} className="flex-1">
+                                        <Lucide.XCircle size={16}/> {t.cancel}
+                                     </Button>
+                                 ) : (
+                                     <Button onClick={handleParse} disabled={!!workbookFile} className="flex-1">{t.parse}</Button>
+                                 )}
                              </div>
+                             <label className="w-full flex items-center gap-2 text-xs cursor-pointer">
+                                 <input type="checkbox" checked={appendMode} onChange={(e) => setAppendMode(e.target.checked)}/>
+                                 <span className="opacity-70">{t.appendMode}</span>
+                             </label>
+                             <label className="w-full flex items-center justify-between gap-2 text-xs">
+                                 <span className="opacity-70">{t.encoding}</span>
+                                 <select
+                                     className="bg-black/30 border border-white/20 rounded p-1"
+                                     value={encoding}
+                                     onChange={(e) => setEncoding(e.target.value as Encoding)}
+                                 >
+                                     {ENCODINGS.map(enc => <option key={enc} value={enc}>{enc === 'auto' ? t.encodingAuto : enc}</option>)}
+                                 </select>
+                             </label>
+                             {parseInfo && !parseProgress && (
+                                 <p className="w-full text-xs opacity-60">
+                                     {parseInfo.encoding && <>{t.encoding}: {parseInfo.encoding} · </>}
+                                     {parseInfo.delimiter && <>{t.delimiter}: {parseInfo.delimiter === '\t' ? 'TAB' : parseInfo.delimiter} · </>}
+                                     {parseInfo.errorCount} {t.parseErrors}
+                                     {parseInfo.duplicatesSkipped > 0 && <> · {parseInfo.duplicatesSkipped} {t.sourceSkipped}</>}
+                                     {parseInfo.profile && <> · {t.mappingProfile}: {parseInfo.profile}</>}
+                                     {appliedMapping && !mappingRequest && (
+                                         <button onClick={() => setMappingRequest(appliedMapping)} className="ml-2 underline hover:opacity-100">
+                                             {t.mappingEdit}
+                                         </button>
+                                     )}
+                                 </p>
+                             )}
+                             {parseProgress && (
+                                 <div className="w-full text-xs">
+                                     <div className="h-1.5 bg-white/10 rounded overflow-hidden mb-1">
+                                         <div
+                                             className="h-full bg-yellow-400 transition-all"
+                                             style={{ width: `${parseProgress.total ? Math.round(parseProgress.loaded / parseProgress.total * 100) : 0}%` }}
+                                         />
+                                     </div>
+                                     <p className="opacity-70">
+                                         {t.parsing} {parseProgress.total ? Math.round(parseProgress.loaded / parseProgress.total * 100) : 0}% · {parseProgress.rows.toLocaleString()} {t.rowsLoaded}
+                                     </p>
+                                 </div>
+                             )}
                         </Card>
                     </div>
 
+                    {dataSources.length > 0 && (
+                        <Card>
+                            <h3 className="font-bold mb-2 flex items-center gap-2"><Lucide.Layers size={16}/> {t.sources}</h3>
+                            <table className="w-full text-xs text-left">
+                                <tbody>
+                                    {dataSources.map(src => (
+                                        <tr key={src.id} className="border-t border-white/5">
+                                            <td className="p-1.5 font-mono truncate max-w-[16rem]">{src.name}</td>
+                                            <td className="p-1.5 opacity-70">{new Date(src.loadedAt).toLocaleString()}</td>
+                                            <td className="p-1.5">{src.rowCount.toLocaleString()} {t.rowsLoaded}</td>
+                                            <td className="p-1.5 opacity-70">{src.duplicatesSkipped.toLocaleString()} {t.sourceSkipped}</td>
+                                            <td className="p-1.5 opacity-70">{src.errors.length} {t.parseErrors}</td>
+                                            <td className="p-1.5 text-right">
+                                                <Button variant="secondary" onClick={() => removeSource(src.id)} disabled={isParsing} className="text-xs py-1">
+                                                    <Lucide.Trash2 size={12}/> {t.sourceRemove}
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </Card>
+                    )}
+
+                    {mappingRequest && (
+                        <ColumnMappingWizard
+                            key={mappingRequest.sample.headers.join('\u0000')}
+                            sample={mappingRequest.sample}
+                            initial={mappingRequest.mapping}
+                            profiles={mappingProfiles}
+                            onApply={(mapping, profile) => applyMapping(mappingRequest, mapping, profile)}
+                            onSaveProfile={handleSaveProfile}
+                            onDeleteProfile={(id) => setMappingProfiles(deleteProfile(mappingProfiles, id))}
+                            onCancel={() => setMappingRequest(null)}
+                            t={t}
+                        />
+                    )}
+
                     {/* Preview Area */}
                     <div className="grid grid-cols-2 gap-6 h-[500px]">
                         <Card className="flex flex-col">
                             <h3 className="font-bold mb-2">Raw Input</h3>
-                            <textarea 
-                                className="flex-1 bg-black/20 border border-white/20 rounded-lg p-4 font-mono text-xs focus:outline-none focus:border-white/50 resize-none"
-                                value={inputText}
-                                onChange={(e) => setInputText(e.target.value)}
-                            />
+                            {workbookFile ? (
+                                <WorkbookImport
+                                    file={workbookFile}
+                                    onImport={handleWorkbookImport}
+                                    onCancel={() => setSourceFile(null)}
+                                    t={t}
+                                />
+                            ) : sourceFile ? (
+                                <div className="flex-1 bg-black/20 border border-white/20 rounded-lg p-4 flex flex-col items-center justify-center gap-3 text-sm">
+                                    <Lucide.FileText size={32} className="opacity-50"/>
+                                    <p className="font-mono">{sourceFile.name}</p>
+                                    <p className="text-xs opacity-60">{(sourceFile.size / 1024 / 1024).toFixed(1)} MB</p>
+                                    <Button variant="secondary" onClick={() => setSourceFile(null)} disabled={isParsing} className="text-xs py-1">
+                                        <Lucide.X size={12}/> {t.fileUnload}
+                                    </Button>
+                                </div>
+                            ) : (
+                                <textarea 
+                                    className="flex-1 bg-black/20 border border-white/20 rounded-lg p-4 font-mono text-xs focus:outline-none focus:border-white/50 resize-none"
+                                    value={inputText}
+                                    onChange={(e) => setInputText(e.target.value)}
+                                />
+                            )}
                         </Card>
                         <Card className="flex flex-col overflow-hidden">
                             <div className="flex justify-between items-center mb-4">
@@ -598,10 +1453,19 @@ export default function App() {
                     <Card className="flex flex-col">
                         <h3 className="font-bold mb-2">agents.yaml</h3>
                         <textarea 
-                            className="flex-1 bg-black/20 border border-white/20 rounded p-4 font-mono text-xs resize-none focus:outline-none"
+                            className={`flex-1 bg-black/20 border rounded p-4 font-mono text-xs resize-none focus:outline-none ${configErrors.length > 0 ? 'border-red-400/60' : 'border-white/20'}`}
                             value={agentsYaml}
                             onChange={(e) => setAgentsYaml(e.target.value)}
                         />
+                        {configErrors.length > 0 && (
+                            <ul className="mt-2 max-h-32 overflow-y-auto text-xs bg-red-500/10 border border-red-500/30 rounded p-2 space-y-1">
+                                {configErrors.map((err, i) => (
+                                    <li key={i} className="font-mono">
+                                        <span className="text-red-300">{t.configLine} {err.line}:{err.col}</span> {err.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </Card>
                     <Card className="flex flex-col">
                         <h3 className="font-bold mb-2">SKILL.md</h3>
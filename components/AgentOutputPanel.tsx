@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { AgentStep, RenderedPrompt } from '../types';
+import { Card, Button } from './ui';
+import DiffView from './DiffView';
+import { effectiveOutput } from '../services/pipelineService';
+
+interface AgentOutputPanelProps {
+  steps: AgentStep[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onSaveEdit: (id: string, text: string) => void;
+  onRevertEdit: (id: string) => void;
+  onRerunDownstream: (id: string) => void;
+  previewPrompt: (step: AgentStep) => RenderedPrompt;
+  isRunning: boolean;
+  t: Record<string, string>;
+}
+
+type PanelMode = 'view' | 'edit' | 'history' | 'prompt';
+
+const AgentOutputPanel: React.FC<AgentOutputPanelProps> = ({
+  steps, selectedId, onSelect, onSaveEdit, onRevertEdit, onRerunDownstream, previewPrompt, isRunning, t
+}) => {
+  const [mode, setMode] = useState<PanelMode>('view');
+  const [draft, setDraft] = useState('');
+  const [compareIndex, setCompareIndex] = useState<number | null>(null);
+
+  const step = steps.find(s => s.id === selectedId) ?? null;
+  const current = step ? effectiveOutput(step) : '';
+  const hasDownstream = !!step && steps.some(s => s.depends_on.includes(step.id));
+
+  // Leave edit/history mode when switching tabs
+  useEffect(() => {
+    setMode('view');
+    setCompareIndex(null);
+  }, [selectedId]);
+
+  const startEdit = () => {
+    setDraft(current);
+    setMode('edit');
+  };
+
+  const saveEdit = () => {
+    if (!step) return;
+    onSaveEdit(step.id, draft);
+    setMode('view');
+  };
+
+  const compareWith = step && compareIndex !== null ? step.versions[compareIndex] : null;
+
+  // Steps that have not started yet show a live preview; otherwise what was actually sent
+  const prompt = mode === 'prompt' && step
+    ? (['idle', 'paused'].includes(step.status) || !step.renderedPrompt ? previewPrompt(step) : step.renderedPrompt)
+    : null;
+
+  return (
+    <Card className="flex-1 flex flex-col min-h-0">
+      {/* Tabs */}
+      <div className="flex items-center gap-1 mb-3 overflow-x-auto border-b border-white/10">
+        <Lucide.Terminal size={16} className="mr-2 shrink-0"/>
+        {steps.map(s => (
+          <button
+            key={s.id}
+            onClick={() => onSelect(s.id)}
+            className={`px-3 py-2 text-xs whitespace-nowrap rounded-t-lg flex items-center gap-1 ${s.id === step?.id ? 'bg-white/20 font-bold' : 'opacity-60 hover:opacity-100'}`}
+          >
+            {s.status === 'running' && <Lucide.Loader2 size={10} className="animate-spin"/>}
+            {s.name}
+            {s.editedOutput !== undefined && <Lucide.Pencil size={10} className="text-yellow-300"/>}
+          </button>
+        ))}
+      </div>
+
+      {!step ? (
+        <div className="flex-1 flex items-center justify-center opacity-30 italic">Waiting for execution...</div>
+      ) : (
+        <>
+          {/* Toolbar */}
+          <div className="flex items-center gap-2 mb-3 text-xs">
+            {(['view', 'edit', 'history', 'prompt'] as PanelMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => m === 'edit' ? startEdit() : setMode(m)}
+                disabled={m === 'edit' && step.status !== 'completed'}
+                className={`px-2 py-1 rounded border disabled:opacity-30 ${mode === m ? 'bg-white/20 border-white/40' : 'border-white/10'}`}
+              >
+                {t[`output_${m}`]}
+              </button>
+            ))}
+            {step.editedOutput !== undefined && (
+              <span className="text-yellow-300 flex items-center gap-1"><Lucide.Pencil size={10}/> {t.outputEdited}</span>
+            )}
+            <div className="flex-1"/>
+            {step.editedOutput !== undefined && mode === 'view' && (
+              <Button variant="secondary" onClick={() => onRevertEdit(step.id)} className="text-xs py-1">
+                <Lucide.Undo2 size={12}/> {t.outputRevert}
+              </Button>
+            )}
+            {hasDownstream && (
+              <Button variant="secondary" onClick={() => onRerunDownstream(step.id)} disabled={isRunning || step.status !== 'completed'} className="text-xs py-1">
+                <Lucide.RefreshCw size={12}/> {t.rerunDownstream}
+              </Button>
+            )}
+          </div>
+
+          {/* Body */}
+          {mode === 'view' && (
+            <div className="flex-1 bg-black/30 rounded-lg p-4 font-mono text-sm overflow-y-auto whitespace-pre-wrap">
+              {step.toolCalls.length > 0 && (
+                <details className="mb-3 text-xs border border-white/10 rounded">
+                  <summary className="cursor-pointer p-2 flex items-center gap-1 opacity-80">
+                    <Lucide.Wrench size={12}/> {t.toolCalls} ({step.toolCalls.length})
+                  </summary>
+                  <ol className="p-2 space-y-2">
+                    {step.toolCalls.map((call, i) => (
+                      <li key={i} className="border-t border-white/10 pt-2">
+                        <p className={call.error ? 'text-red-300' : 'text-blue-300'}>
+                          {i + 1}. {call.name}({JSON.stringify(call.args)})
+                        </p>
+                        <pre className="opacity-70 max-h-40 overflow-auto">
+                          {call.error ? `Error: ${call.error}` : JSON.stringify(call.result, null, 2)}
+                        </pre>
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              )}
+              {current || (step.status === 'running' ? '' : "Waiting for execution...")}
+              {step.status === 'running' && <span className="animate-pulse">▍</span>}
+            </div>
+          )}
+
+          {mode === 'edit' && (
+            <div className="flex-1 flex flex-col gap-2 min-h-0">
+              <textarea
+                className="flex-1 bg-black/30 border border-white/20 rounded-lg p-4 font-mono text-sm resize-none focus:outline-none focus:border-white/50"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="secondary" onClick={() => setMode('view')} className="text-xs py-1">{t.cancel}</Button>
+                <Button onClick={saveEdit} disabled={draft === current} className="text-xs py-1">
+                  <Lucide.Save size={12}/> {t.outputSave}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {prompt && (
+            <div className="flex-1 flex flex-col gap-2 min-h-0 text-xs">
+              <div className="flex items-center gap-3">
+                <span className={prompt.budget && prompt.tokens > prompt.budget ? 'text-red-300' : 'opacity-70'}>
+                  ~{prompt.tokens.toLocaleString()} {t.promptTokens}{prompt.budget ? ` / ${prompt.budget.toLocaleString()}` : ''}
+                </span>
+                {prompt.truncated.length > 0 && (
+                  <span className="text-yellow-300 flex items-center gap-1">
+                    <Lucide.Scissors size={10}/> {t.promptTruncated}: {prompt.truncated.join(', ')}
+                  </span>
+                )}
+              </div>
+              <div className="flex-1 bg-black/30 rounded-lg p-4 font-mono overflow-y-auto whitespace-pre-wrap">
+                <p className="opacity-50 mb-1">{t.promptSystem}</p>
+                <p className="opacity-70 mb-4">{prompt.system}</p>
+                <p className="opacity-50 mb-1">{t.promptUser}</p>
+                <p>{prompt.user}</p>
+              </div>
+            </div>
+          )}
+
+          {mode === 'history' && (
+            <div className="flex-1 grid grid-cols-3 gap-3 min-h-0">
+              <ul className="col-span-1 overflow-y-auto space-y-1 text-xs">
+                {step.versions.length === 0 && <li className="opacity-50 italic">{t.outputNoHistory}</li>}
+                {step.versions.map((v, i) => (
+                  <li key={i}>
+                    <button
+                      onClick={() => setCompareIndex(i)}
+                      className={`w-full text-left p-2 rounded border ${compareIndex === i ? 'border-white/40 bg-white/10' : 'border-white/10'}`}
+                    >
+                      <span className="font-bold">v{i + 1}</span> · {v.source === 'edit' ? t.outputSourceEdit : t.outputSourceModel}
+                      <span className="block opacity-50">{new Date(v.at).toLocaleString()}</span>
+                    </button>
+                  </li>
+                )).reverse()}
+              </ul>
+              <div className="col-span-2 bg-black/30 rounded-lg p-3 overflow-y-auto">
+                {compareWith ? (
+                  <>
+                    <p className="text-xs opacity-60 mb-2">{t.outputDiffHint}</p>
+                    <DiffView before={compareWith.text} after={current} />
+                  </>
+                ) : (
+                  <p className="text-xs opacity-50 italic">{t.outputPickVersion}</p>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default AgentOutputPanel;
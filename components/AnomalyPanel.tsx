@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { MedFlowRow, Anomaly, AnomalyKind, AnomalySeverity } from '../types';
+import { Card } from './ui';
+import { ANOMALY_KINDS } from '../services/anomalyService';
+
+interface AnomalyPanelProps {
+  data: MedFlowRow[];
+  anomalies: Anomaly[] | null; // null while parsing
+  t: Record<string, string>;
+}
+
+const SEVERITY_CLASS: Record<AnomalySeverity, string> = {
+  high: 'text-red-300',
+  medium: 'text-yellow-300',
+  low: 'text-blue-300',
+};
+
+const COLUMNS: (keyof MedFlowRow)[] = ['Deliverdate', 'SupplierID', 'CustomerID', 'DeviceNAME', 'Model', 'LotNO', 'SerNo', 'Number'];
+
+const ROW_LIMIT = 200;
+
+const AnomalyPanel: React.FC<AnomalyPanelProps> = ({ data, anomalies, t }) => {
+  const [kind, setKind] = useState<AnomalyKind | 'all'>('all');
+  const [minSeverity, setMinSeverity] = useState<AnomalySeverity>('low');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const rowsById = useMemo(() => new Map(data.map(r => [r.id, r])), [data]);
+
+  if (!anomalies) {
+    return <Card><p className="opacity-60 text-sm">{t.parsing}</p></Card>;
+  }
+
+  const severities: AnomalySeverity[] = minSeverity === 'high' ? ['high'] : minSeverity === 'medium' ? ['high', 'medium'] : ['high', 'medium', 'low'];
+  const visible = anomalies.filter(a => (kind === 'all' || a.kind === kind) && severities.includes(a.severity));
+  const selected = visible.find(a => a.id === selectedId) ?? visible[0] ?? null;
+  const rows = selected ? selected.rowIds.map(id => rowsById.get(id)).filter((r): r is MedFlowRow => !!r) : [];
+
+  return (
+    <div className="grid grid-cols-3 gap-6 h-[calc(100vh-140px)]">
+      {/* Anomaly list */}
+      <Card className="col-span-1 flex flex-col min-h-0">
+        <h3 className="font-bold mb-1 flex items-center gap-2"><Lucide.Siren size={18}/> {t.anomalies}</h3>
+        <p className="text-xs opacity-60 mb-3">
+          {(['high', 'medium', 'low'] as AnomalySeverity[]).map(s => (
+            <span key={s} className={`mr-2 ${SEVERITY_CLASS[s]}`}>{anomalies.filter(a => a.severity === s).length} {t[`anomalySeverity_${s}`]}</span>
+          ))}
+        </p>
+        <div className="flex flex-wrap gap-1 mb-2">
+          {(['all', ...ANOMALY_KINDS] as const).map(k => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={`px-2 py-1 rounded text-xs ${kind === k ? 'bg-white/20 font-bold' : 'opacity-60 hover:opacity-100'}`}
+            >
+              {k === 'all' ? t.dupAll : t[`anomaly_${k}`]} ({k === 'all' ? anomalies.length : anomalies.filter(a => a.kind === k).length})
+            </button>
+          ))}
+        </div>
+        <select
+          value={minSeverity}
+          onChange={(e) => setMinSeverity(e.target.value as AnomalySeverity)}
+          className="bg-black/30 border border-white/20 rounded p-1 text-xs mb-3"
+        >
+          <option value="low">{t.anomalyAllSeverities}</option>
+          <option value="medium">{t.anomalySeverity_medium}+</option>
+          <option value="high">{t.anomalySeverity_high}</option>
+        </select>
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {visible.length === 0 && <p className="text-sm opacity-50 italic">{t.anomalyNone}</p>}
+          {visible.map(a => (
+            <button
+              key={a.id}
+              onClick={() => setSelectedId(a.id)}
+              className={`w-full text-left p-2 rounded-lg border text-xs ${a.id === selected?.id ? 'border-white/50 bg-white/10' : 'border-white/10 hover:bg-white/5'}`}
+            >
+              <span className="flex justify-between gap-2">
+                <span className={`font-bold ${SEVERITY_CLASS[a.severity]}`}>{t[`anomaly_${a.kind}`]}</span>
+                <span className="opacity-60 shrink-0">{a.period}</span>
+              </span>
+              <span className="block truncate">{a.subject}</span>
+              <span className="block opacity-60 truncate">{a.detail}</span>
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {/* Rows behind the selected anomaly */}
+      <Card className="col-span-2 flex flex-col min-h-0">
+        {!selected ? (
+          <div className="flex-1 flex items-center justify-center opacity-40 italic">{t.anomalyNone}</div>
+        ) : (
+          <>
+            <div className="mb-3">
+              <h3 className={`font-bold ${SEVERITY_CLASS[selected.severity]}`}>
+                {t[`anomaly_${selected.kind}`]} · {t[`anomalySeverity_${selected.severity}`]}
+              </h3>
+              <p className="text-sm">{selected.subject} <span className="opacity-60">· {selected.period}</span></p>
+              <p className="text-xs opacity-70">{selected.detail}</p>
+              <p className="text-xs opacity-50 mt-1">{t[`anomalyHint_${selected.kind}`]}</p>
+            </div>
+            <div className="flex-1 overflow-auto bg-black/20 rounded-lg border border-white/10">
+              <table className="w-full text-xs text-left">
+                <thead className="sticky top-0 bg-black/80">
+                  <tr>
+                    <th className="p-2 border-b border-white/10">Row</th>
+                    {COLUMNS.map(c => <th key={c} className="p-2 border-b border-white/10">{c}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, ROW_LIMIT).map(row => (
+                    <tr key={row.id} className="border-b border-white/5">
+                      <td className="p-2 font-mono opacity-60">{row.id}</td>
+                      {COLUMNS.map(c => <td key={c} className="p-2 max-w-[10rem] truncate">{String(row[c])}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > ROW_LIMIT && <p className="text-xs opacity-50 mt-2">{t.qualityDrillLimit}: {ROW_LIMIT}</p>}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AnomalyPanel;
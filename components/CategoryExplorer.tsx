@@ -0,0 +1,115 @@
+import React, { useMemo, useRef } from 'react';
+import { Treemap, ResponsiveContainer } from 'recharts';
+import * as Lucide from 'lucide-react';
+import { MedFlowRow, GlobalFilters, Lang } from '../types';
+import { Card } from './ui';
+import ChartExportButtons from './ChartExportButtons';
+import { TFDA_SPECIALTIES } from '../constants';
+import { CATEGORY_LEVELS, LEVEL_FILTER, CategoryNode, categoryNodes, categoryPath } from '../services/categoryService';
+
+interface CategoryExplorerProps {
+  data: MedFlowRow[]; // already narrowed by the path's filters
+  filters: GlobalFilters;
+  onFiltersChange: (patch: Partial<GlobalFilters>) => void;
+  accent: string;
+  background: string; // for chart export
+  lang: Lang;
+  t: Record<string, string>;
+}
+
+const specialtyLabel = (letter: string, lang: Lang) => TFDA_SPECIALTIES[letter]?.[lang] ?? '';
+
+const CategoryExplorer: React.FC<CategoryExplorerProps> = ({ data, filters, onFiltersChange, accent, background, lang, t }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const path = categoryPath(filters);
+  const depth = Math.min(path.length, CATEGORY_LEVELS.length - 1);
+  const level = CATEGORY_LEVELS[depth];
+  const atLeaf = path.length === CATEGORY_LEVELS.length;
+
+  const nodes = useMemo(() => categoryNodes(data, level), [data, level]);
+  // Returns (negative units) cannot be drawn as areas; they still count in the totals elsewhere
+  const cells = nodes.filter(n => n.units > 0).map(n => ({ ...n, size: n.units }));
+
+  const open = (node: CategoryNode) => {
+    if (!node.key || atLeaf) return;
+    onFiltersChange({ [LEVEL_FILTER[level]]: node.key });
+  };
+
+  // Going back to `index` clears that level's filter and every one below it
+  const goTo = (index: number) => {
+    const patch: Partial<GlobalFilters> = {};
+    CATEGORY_LEVELS.slice(index).forEach(l => { (patch as Record<string, string>)[LEVEL_FILTER[l]] = ''; });
+    onFiltersChange(patch);
+  };
+
+  const title = (node: { name: string; detail: string }) =>
+    level === 'specialty'
+      ? (node.name ? `${node.name} · ${specialtyLabel(node.name, lang)}` : t.categoryUncoded)
+      : node.detail ? `${node.name} ${node.detail}` : node.name || '—';
+
+  const renderCell = (props: any) => {
+    const { x, y, width, height, index, depth: nodeDepth } = props;
+    if (nodeDepth !== 1) return <g/>;
+    const node = props as CategoryNode;
+    const label = title(node);
+    return (
+      <g style={{ cursor: node.key && !atLeaf ? 'pointer' : 'default' }}>
+        <rect x={x} y={y} width={width} height={height} fill={accent} fillOpacity={0.85 - Math.min(index, 10) * 0.06} stroke={background} strokeWidth={2}/>
+        {width > 50 && height > 24 && (
+          <text x={x + 6} y={y + 16} fill="#fff" fontSize={11} style={{ pointerEvents: 'none' }}>
+            {label.length > width / 7 ? `${label.slice(0, Math.max(1, Math.floor(width / 7) - 1))}…` : label}
+          </text>
+        )}
+        {width > 50 && height > 40 && (
+          <text x={x + 6} y={y + 32} fill="#fff" fillOpacity={0.7} fontSize={10} style={{ pointerEvents: 'none' }}>
+            {node.units.toLocaleString()} {t.units}
+          </text>
+        )}
+        <title>{`${label}\n${node.units.toLocaleString()} ${t.units} · ${node.rows.toLocaleString()} ${t.rows}`}</title>
+      </g>
+    );
+  };
+
+  return (
+    <Card className="min-h-[460px]">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <Lucide.LayoutGrid size={20}/> {t.categoryExplorer}
+        <span className="ml-auto"><ChartExportButtons targetRef={chartRef} filename="category-explorer" background={background} t={t}/></span>
+      </h3>
+
+      {/* Breadcrumb */}
+      <div className="flex flex-wrap items-center gap-1 text-xs mb-3">
+        <button onClick={() => goTo(0)} className={path.length ? 'underline opacity-70 hover:opacity-100' : 'font-bold'}>{t.categoryAll}</button>
+        {path.map((value, i) => (
+          <React.Fragment key={i}>
+            <Lucide.ChevronRight size={12} className="opacity-50"/>
+            <button onClick={() => goTo(i + 1)} className={i < path.length - 1 ? 'underline opacity-70 hover:opacity-100' : 'font-bold'}>
+              <span className="opacity-60">{t[`categoryLevel_${CATEGORY_LEVELS[i]}`]}:</span>{' '}
+              {CATEGORY_LEVELS[i] === 'specialty' ? `${value} ${specialtyLabel(value, lang)}` : value}
+            </button>
+          </React.Fragment>
+        ))}
+        <span className="ml-auto opacity-60">{atLeaf ? t.categoryLeaf : `${t.categoryShowing} ${t[`categoryLevel_${level}`]}`}</span>
+      </div>
+
+      <div ref={chartRef} className="h-[360px] w-full">
+        {cells.length === 0 ? (
+          <div className="h-full flex items-center justify-center opacity-40 italic text-sm">{t.categoryEmpty}</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <Treemap
+              data={cells}
+              dataKey="size"
+              nameKey="name"
+              isAnimationActive={false}
+              content={renderCell}
+              onClick={(node) => open(node as unknown as CategoryNode)}
+            />
+          </ResponsiveContainer>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default CategoryExplorer;
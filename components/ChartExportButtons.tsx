@@ -0,0 +1,41 @@
+import React from 'react';
+import * as Lucide from 'lucide-react';
+import { downloadFile, formatDate, serializeSvg, svgToPng } from '../services/exportService';
+
+interface ChartExportButtonsProps {
+  targetRef: React.RefObject<HTMLElement | null>; // element containing the chart's SVG
+  filename: string; // without extension
+  background: string;
+  t: Record<string, string>;
+}
+
+// Recharts renders legend icons as small SVGs too; the chart itself is the surface
+const findSvg = (root: HTMLElement | null): SVGSVGElement | null =>
+  root?.querySelector<SVGSVGElement>('svg.recharts-surface') ?? root?.querySelector<SVGSVGElement>('svg') ?? null;
+
+const ChartExportButtons: React.FC<ChartExportButtonsProps> = ({ targetRef, filename, background, t }) => {
+  const name = `${filename}-${formatDate(new Date()).replace(/-/g, '')}`;
+
+  const exportSvg = () => {
+    const svg = findSvg(targetRef.current);
+    if (svg) downloadFile(`${name}.svg`, serializeSvg(svg, background), 'image/svg+xml');
+  };
+
+  const exportPng = () => {
+    const svg = findSvg(targetRef.current);
+    if (!svg) return;
+    svgToPng(svg, background)
+      .then(blob => downloadFile(`${name}.png`, blob, 'image/png'))
+      .catch(e => alert(e.message));
+  };
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs font-normal">
+      <Lucide.Download size={12} className="opacity-60"/>
+      <button onClick={exportSvg} className="px-1.5 py-0.5 rounded hover:bg-white/10 opacity-70 hover:opacity-100" title={t.exportChart}>SVG</button>
+      <button onClick={exportPng} className="px-1.5 py-0.5 rounded hover:bg-white/10 opacity-70 hover:opacity-100" title={t.exportChart}>PNG</button>
+    </span>
+  );
+};
+
+export default ChartExportButtons;
@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { ColumnMapping, MappingProfile, MappedField, FieldTransform, DateFormat, SourceSample } from '../types';
+import { Card, Button } from './ui';
+import { MAPPED_FIELDS, suggestMapping, applyTransforms, parseTableRows } from '../services/dataService';
+import { findProfile, toMapping } from '../services/mappingService';
+import { formatDate } from '../services/exportService';
+
+interface ColumnMappingWizardProps {
+  sample: SourceSample;
+  initial: ColumnMapping;
+  profiles: MappingProfile[];
+  onApply: (mapping: ColumnMapping, profileName: string | null) => void;
+  onSaveProfile: (name: string, mapping: ColumnMapping) => void;
+  onDeleteProfile: (id: string) => void;
+  onCancel: () => void;
+  t: Record<string, string>;
+}
+
+const TRANSFORMS: FieldTransform[] = ['trim', 'uppercase', 'lowercase', 'remove_spaces'];
+const DATE_FORMATS: DateFormat[] = ['auto', 'YYYYMMDD', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'ROC'];
+
+// What normalizeRow substitutes when a field has no source column
+const FALLBACKS: Partial<Record<MappedField, string>> = {
+  Deliverdate: '—',
+  Number: '0',
+  SupplierID: 'UNKNOWN',
+  CustomerID: 'UNKNOWN',
+  Category: 'General',
+};
+
+const SAMPLE_VALUES = 3;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  sample, initial, profiles, onApply, onSaveProfile, onDeleteProfile, onCancel, t
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initial);
+  const [profileName, setProfileName] = useState(() => findProfile(profiles, sample.headers)?.name ?? '');
+  const suggested = useMemo(() => suggestMapping(sample.headers), [sample.headers]);
+
+  const setColumn = (field: MappedField, header: string) => {
+    const columns = { ...mapping.columns };
+    if (header) columns[field] = header;
+    else delete columns[field];
+    setMapping({ ...mapping, columns });
+  };
+
+  const toggleTransform = (field: MappedField, transform: FieldTransform) => {
+    const current = mapping.transforms[field] ?? [];
+    const next = current.includes(transform)
+      ? current.filter(tr => tr !== transform)
+      // upper- and lowercase are mutually exclusive
+      : [...current.filter(tr => !(transform === 'uppercase' && tr === 'lowercase') && !(transform === 'lowercase' && tr === 'uppercase')), transform];
+    setMapping({ ...mapping, transforms: { ...mapping.transforms, [field]: next } });
+  };
+
+  const loadProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setMapping(toMapping(profile));
+    setProfileName(profile.name);
+  };
+
+  const sampleValues = (field: MappedField): string[] => {
+    const col = mapping.columns[field] === undefined ? -1 : sample.headers.indexOf(mapping.columns[field]!);
+    if (col === -1) return [];
+    return sample.rows.slice(0, SAMPLE_VALUES).map(row => applyTransforms(row[col] ?? '', mapping.transforms[field]));
+  };
+
+  // Rows as they will be loaded, so date formats and transforms can be checked before parsing
+  const preview = useMemo(
+    () => parseTableRows([sample.headers, ...sample.rows.slice(0, 5)], 0, { mapping }).data,
+    [sample, mapping]
+  );
+
+  const unmapped = MAPPED_FIELDS.filter(f => FALLBACKS[f] !== undefined && mapping.columns[f] === undefined);
+
+  return (
+    <Card className="space-y-4 text-xs">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm flex items-center gap-2"><Lucide.Columns size={18}/> {t.mappingTitle}</h3>
+        <span className="opacity-60">{sample.headers.length} {t.mappingSourceColumns}</span>
+      </div>
+      <p className="opacity-60">{t.mappingHint}</p>
+
+      {/* Profiles */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="bg-black/30 border border-white/20 rounded p-1"
+          value=""
+          onChange={(e) => loadProfile(e.target.value)}
+          disabled={profiles.length === 0}
+        >
+          <option value="">{profiles.length ? t.mappingLoadProfile : t.mappingNoProfiles}</option>
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {profiles.some(p => p.name === profileName) && (
+          <Button variant="secondary" onClick={() => onDeleteProfile(profiles.find(p => p.name === profileName)!.id)} className="text-xs py-1">
+            <Lucide.Trash2 size={12}/>
+          </Button>
+        )}
+        <input
+          className="flex-1 min-w-[10rem] bg-black/30 border border-white/20 rounded p-1"
+          placeholder={t.mappingProfileName}
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+        />
+        <Button variant="secondary" onClick={() => onSaveProfile(profileName.trim(), mapping)} disabled={!profileName.trim()} className="text-xs py-1">
+          <Lucide.Save size={12}/> {t.mappingSaveProfile}
+        </Button>
+      </div>
+
+      {/* Field mapping */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="opacity-60">
+            <tr>
+              <th className="p-1">{t.mappingField}</th>
+              <th className="p-1">{t.mappingSource}</th>
+              <th className="p-1">{t.mappingTransforms}</th>
+              <th className="p-1">{t.mappingSample}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {MAPPED_FIELDS.map(field => (
+              <tr key={field} className="border-t border-white/5 align-top">
+                <td className="p-1 font-mono">{field}</td>
+                <td className="p-1">
+                  <select
+                    className={`bg-black/30 border rounded p-1 max-w-[12rem] ${mapping.columns[field] ? 'border-white/20' : 'border-yellow-400/50'}`}
+                    value={mapping.columns[field] ?? ''}
+                    onChange={(e) => setColumn(field, e.target.value)}
+                  >
+                    <option value="">{t.mappingUnmapped}</option>
+                    {sample.headers.map(h => (
+                      <option key={h} value={h}>{h}{suggested.columns[field] === h ? ` (${t.mappingSuggested})` : ''}</option>
+                    ))}
+                  </select>
+                  {field === 'Deliverdate' && (
+                    <select
+                      className="ml-1 bg-black/30 border border-white/20 rounded p-1"
+                      value={mapping.dateFormat}
+                      onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as DateFormat })}
+                    >
+                      {DATE_FORMATS.map(f => <option key={f} value={f}>{f === 'auto' ? t.mappingDateAuto : f}</option>)}
+                    </select>
+                  )}
+                </td>
+                <td className="p-1">
+                  <div className="flex flex-wrap gap-1">
+                    {TRANSFORMS.map(tr => (
+                      <button
+                        key={tr}
+                        onClick={() => toggleTransform(field, tr)}
+                        disabled={!mapping.columns[field]}
+                        className={`px-1.5 py-0.5 rounded border disabled:opacity-30 ${mapping.transforms[field]?.includes(tr) ? 'bg-white/20 border-white/50' : 'border-white/10 opacity-60 hover:opacity-100'}`}
+                      >
+                        {t[`transform_${tr}`]}
+                      </button>
+                    ))}
+                  </div>
+                </td>
+                <td className="p-1 font-mono opacity-80 max-w-[14rem] truncate">
+                  {mapping.columns[field]
+                    ? sampleValues(field).map(v => v || '∅').join(' · ')
+                    : <span className="opacity-50">{FALLBACKS[field] ?? ''}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {unmapped.length > 0 && (
+        <p className="text-yellow-300 flex items-center gap-1">
+          <Lucide.AlertTriangle size={12}/> {t.mappingFallbackWarning}: {unmapped.map(f => `${f} → ${FALLBACKS[f]}`).join(', ')}
+        </p>
+      )}
+
+      {preview.length > 0 && (
+        <div className="bg-black/20 rounded-lg border border-white/10 p-2 font-mono">
+          <p className="opacity-60 mb-1 font-sans">{t.importPreview}</p>
+          {preview.map(r => (
+            <p key={r.id} className="truncate">
+              <span className={r.parsedDate ? 'text-green-300' : 'text-red-300'}>{r.parsedDate ? formatDate(r.parsedDate) : `${r.Deliverdate || '—'} ?`}</span>
+              {' · '}{r.SupplierID} · {r.CustomerID} · {r.Category} · {r.Number}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel}>{t.cancel}</Button>
+        <Button onClick={() => onApply(mapping, profiles.find(p => p.name === profileName.trim())?.name ?? null)}>
+          <Lucide.Check size={16}/> {t.mappingApply}
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { DateRangePreset } from '../types';
+import { DATE_RANGE_PRESETS, presetRange, matchPreset, isValidTimeZone, localTimeZone, COMMON_TIME_ZONES } from '../services/dateService';
+
+interface DateRangeFilterProps {
+  range: [string, string];
+  timeZone: string;
+  onChange: (range: [string, string], timeZone: string) => void;
+  t: Record<string, string>;
+}
+
+const inputClass = 'w-full bg-black/20 border rounded px-2 py-1 text-xs focus:outline-none focus:border-white/40 placeholder-white/30';
+
+const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ range, timeZone, onChange, t }) => {
+  // 'custom' is kept locally: an empty custom range would otherwise read back as 'all'
+  const [custom, setCustom] = useState(false);
+  const preset: DateRangePreset = custom ? 'custom' : matchPreset(range);
+  const zoneValid = !timeZone.trim() || isValidTimeZone(timeZone);
+
+  const selectPreset = (p: DateRangePreset) => {
+    setCustom(p === 'custom');
+    const next = presetRange(p);
+    if (next) onChange(next, timeZone);
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs opacity-60 flex items-center gap-1"><Lucide.CalendarRange size={12}/> {t.dateRange}</label>
+      <select
+        value={preset}
+        onChange={(e) => selectPreset(e.target.value as DateRangePreset)}
+        className={`${inputClass} border-white/10`}
+      >
+        {DATE_RANGE_PRESETS.map(p => (
+          <option key={p} value={p}>{t[`datePreset_${p}`]}</option>
+        ))}
+      </select>
+      {preset !== 'all' && (
+        <div className="flex gap-1">
+          <input
+            type="date"
+            value={range[0]}
+            max={range[1] || undefined}
+            onChange={(e) => { setCustom(true); onChange([e.target.value, range[1]], timeZone); }}
+            className={`${inputClass} border-white/10`}
+          />
+          <input
+            type="date"
+            value={range[1]}
+            min={range[0] || undefined}
+            onChange={(e) => { setCustom(true); onChange([range[0], e.target.value], timeZone); }}
+            className={`${inputClass} border-white/10`}
+          />
+        </div>
+      )}
+      <input
+        list="medflow-time-zones"
+        placeholder={`${t.timeZone} (${localTimeZone()})`}
+        value={timeZone}
+        onChange={(e) => onChange(range, e.target.value)}
+        title={zoneValid ? t.timeZoneHint : t.timeZoneInvalid}
+        className={`${inputClass} ${zoneValid ? 'border-white/10' : 'border-red-400/60'}`}
+      />
+      <datalist id="medflow-time-zones">
+        {COMMON_TIME_ZONES.map(z => <option key={z} value={z}/>)}
+      </datalist>
+      {!zoneValid && <p className="text-xs text-red-300">{t.timeZoneInvalid}</p>}
+    </div>
+  );
+};
+
+export default DateRangeFilter;
@@ -0,0 +1,30 @@
+import React, { useMemo } from 'react';
+import { diffLines } from '../services/diffService';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+}
+
+const DiffView: React.FC<DiffViewProps> = ({ before, after }) => {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const changed = lines.some(l => l.type !== 'same');
+
+  if (!changed) return <div className="opacity-50 italic text-xs">No differences.</div>;
+
+  return (
+    <div className="font-mono text-xs">
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={`whitespace-pre-wrap px-2 ${line.type === 'add' ? 'bg-green-500/20' : line.type === 'remove' ? 'bg-red-500/20 line-through opacity-70' : 'opacity-60'}`}
+        >
+          <span className="select-none opacity-50 mr-2">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+          {line.text || ' '}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiffView;
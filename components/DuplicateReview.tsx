@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { MedFlowRow, DuplicateGroup, DuplicateKind, RowDecision } from '../types';
+import { Card, Button } from './ui';
+import { DUPLICATE_KINDS, mergeGroup, setGroupDecision, toggleRow } from '../services/duplicateService';
+
+interface DuplicateReviewProps {
+  data: MedFlowRow[];
+  groups: DuplicateGroup[] | null; // null while parsing
+  decisions: Record<string, RowDecision>;
+  onChange: (decisions: Record<string, RowDecision>) => void;
+  t: Record<string, string>;
+}
+
+const KIND_CLASS: Record<DuplicateKind, string> = {
+  reimport: 'text-red-300',
+  exact: 'text-orange-300',
+  serial_customers: 'text-red-300',
+  serial_repeat: 'text-yellow-300',
+  lot_conflict: 'text-blue-300',
+};
+
+const COLUMNS: (keyof MedFlowRow)[] = ['Deliverdate', 'SupplierID', 'CustomerID', 'DeviceNAME', 'Model', 'LicenseNo', 'LotNO', 'SerNo', 'Number'];
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ data, groups, decisions, onChange, t }) => {
+  const [kind, setKind] = useState<DuplicateKind | 'all'>('all');
+  const [groupId, setGroupId] = useState<string | null>(null);
+
+  const rowsById = useMemo(() => new Map(data.map(r => [r.id, r])), [data]);
+
+  if (!groups) {
+    return <Card><p className="opacity-60 text-sm">{t.parsing}</p></Card>;
+  }
+
+  const visible = kind === 'all' ? groups : groups.filter(g => g.kind === kind);
+  const group = visible.find(g => g.id === groupId) ?? visible[0] ?? null;
+  const decided = Object.keys(decisions);
+  const isResolved = (g: DuplicateGroup) => g.rowIds.some(id => decisions[id]);
+
+  const decisionLabel = (id: string) => {
+    const decision = decisions[id];
+    if (!decision) return <span className="text-green-300">{t.dupKeep}</span>;
+    if (decision.action === 'exclude') return <span className="text-red-300">{t.dupExclude}</span>;
+    return <span className="text-blue-300">{t.dupMergedInto} {decision.into}</span>;
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-6 h-[calc(100vh-140px)]">
+      {/* Groups */}
+      <Card className="col-span-1 flex flex-col min-h-0">
+        <h3 className="font-bold mb-1 flex items-center gap-2"><Lucide.CopyX size={18}/> {t.duplicates}</h3>
+        <p className="text-xs opacity-60 mb-3">
+          {decided.filter(id => decisions[id].action === 'exclude').length} {t.dupExcludedRows} · {decided.filter(id => decisions[id].action === 'merge').length} {t.dupMergedRows}
+          {decided.length > 0 && (
+            <button onClick={() => onChange({})} className="ml-2 underline">{t.dupReset}</button>
+          )}
+        </p>
+        <div className="flex flex-wrap gap-1 mb-3">
+          {(['all', ...DUPLICATE_KINDS] as const).map(k => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={`px-2 py-1 rounded text-xs ${kind === k ? 'bg-white/20 font-bold' : 'opacity-60 hover:opacity-100'}`}
+            >
+              {k === 'all' ? t.dupAll : t[`dup_${k}`]} ({k === 'all' ? groups.length : groups.filter(g => g.kind === k).length})
+            </button>
+          ))}
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {visible.length === 0 && <p className="text-sm opacity-50 italic">{t.dupNone}</p>}
+          {visible.map(g => (
+            <button
+              key={g.id}
+              onClick={() => setGroupId(g.id)}
+              className={`w-full text-left p-2 rounded-lg border text-xs ${g.id === group?.id ? 'border-white/50 bg-white/10' : 'border-white/10 hover:bg-white/5'}`}
+            >
+              <span className="flex justify-between gap-2">
+                <span className={`font-bold ${KIND_CLASS[g.kind]}`}>{t[`dup_${g.kind}`]}</span>
+                {isResolved(g) && <Lucide.CheckCircle2 size={14} className="text-green-300 shrink-0"/>}
+              </span>
+              <span className="block font-mono truncate">{g.key}</span>
+              <span className="block opacity-60 truncate">{g.detail}</span>
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {/* Group detail */}
+      <Card className="col-span-2 flex flex-col min-h-0">
+        {!group ? (
+          <div className="flex-1 flex items-center justify-center opacity-40 italic">{t.dupNone}</div>
+        ) : (
+          <>
+            <div className="flex justify-between items-start gap-4 mb-3">
+              <div>
+                <h3 className={`font-bold ${KIND_CLASS[group.kind]}`}>{t[`dup_${group.kind}`]} · <span className="font-mono">{group.key}</span></h3>
+                <p className="text-xs opacity-70">{group.detail}</p>
+                <p className="text-xs opacity-50 mt-1">{t[`dupHint_${group.kind}`]}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="secondary" onClick={() => onChange(setGroupDecision(group, decisions, []))} className="text-xs py-1">
+                  <Lucide.Check size={12}/> {t.dupKeepAll}
+                </Button>
+                <Button variant="secondary" onClick={() => onChange(mergeGroup(group, decisions))} className="text-xs py-1">
+                  <Lucide.Merge size={12}/> {t.dupMerge}
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => onChange(setGroupDecision(group, decisions, group.suggested))}
+                  disabled={group.suggested.length === 0}
+                  className="text-xs py-1"
+                >
+                  <Lucide.CopyMinus size={12}/> {t.dupExcludeSuggested} ({group.suggested.length})
+                </Button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto bg-black/20 rounded-lg border border-white/10">
+              <table className="w-full text-xs text-left">
+                <thead className="sticky top-0 bg-black/80">
+                  <tr>
+                    <th className="p-2 border-b border-white/10">Row</th>
+                    {COLUMNS.map(c => <th key={c} className="p-2 border-b border-white/10">{c}</th>)}
+                    <th className="p-2 border-b border-white/10">{t.dupDecision}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.rowIds.map(id => {
+                    const row = rowsById.get(id);
+                    if (!row) return null;
+                    return (
+                      <tr key={id} className={`border-b border-white/5 ${decisions[id] ? 'opacity-50' : ''}`}>
+                        <td className="p-2 font-mono">
+                          {id}
+                          {group.suggested.includes(id) && <span className="ml-1 text-yellow-300" title={t.dupSuggested}>*</span>}
+                        </td>
+                        {COLUMNS.map(c => <td key={c} className="p-2 max-w-[10rem] truncate">{String(row[c])}</td>)}
+                        <td className="p-2 whitespace-nowrap">
+                          <button onClick={() => onChange(toggleRow(decisions, id))} className="underline-offset-2 hover:underline">
+                            {decisionLabel(id)}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default DuplicateReview;
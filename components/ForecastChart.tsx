@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip, ResponsiveContainer } from 'recharts';
+import { MedFlowRow, ForecastDimension, ForecastGranularity, ForecastOptions, ForecastResult } from '../types';
+import { FORECAST_DIMENSIONS, FORECAST_HORIZONS, forecastValues } from '../services/forecastService';
+
+interface ForecastChartProps {
+  data: MedFlowRow[];
+  result: ForecastResult;
+  onOptionsChange: (options: ForecastOptions) => void;
+  accent: string;
+  t: Record<string, string>;
+}
+
+const selectClass = 'bg-black/30 border border-white/20 rounded p-1 text-xs max-w-[14rem]';
+
+const ForecastChart: React.FC<ForecastChartProps> = ({ data, result, onOptionsChange, accent, t }) => {
+  const { options } = result;
+  const values = useMemo(() => forecastValues(data, options.dimension), [data, options.dimension]);
+
+  const setDimension = (dimension: ForecastDimension) =>
+    onOptionsChange({ ...options, dimension, value: dimension === 'all' ? '' : forecastValues(data, dimension, 1)[0] ?? '' });
+
+  // Recharts draws a range area from a [low, high] pair
+  const chartData = result.points.map(p => ({ ...p, band: p.lower !== null && p.upper !== null ? [p.lower, p.upper] : null }));
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+        <select className={selectClass} value={options.dimension} onChange={(e) => setDimension(e.target.value as ForecastDimension)}>
+          {FORECAST_DIMENSIONS.map(d => <option key={d} value={d}>{t[`forecastBy_${d}`]}</option>)}
+        </select>
+        {options.dimension !== 'all' && (
+          <select className={selectClass} value={options.value} onChange={(e) => onOptionsChange({ ...options, value: e.target.value })}>
+            {!values.includes(options.value) && <option value={options.value}>{options.value || '—'}</option>}
+            {values.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        )}
+        <select className={selectClass} value={options.granularity} onChange={(e) => onOptionsChange({ ...options, granularity: e.target.value as ForecastGranularity })}>
+          <option value="week">{t.forecastWeekly}</option>
+          <option value="month">{t.forecastMonthly}</option>
+        </select>
+        <select className={selectClass} value={options.horizon} onChange={(e) => onOptionsChange({ ...options, horizon: parseInt(e.target.value) })}>
+          {FORECAST_HORIZONS.map(h => <option key={h} value={h}>{h} {options.granularity === 'week' ? t.forecastWeeks : t.forecastMonths}</option>)}
+        </select>
+        <span className="ml-auto opacity-70" title={`α ${result.params.alpha} · β ${result.params.beta} · γ ${result.params.gamma}`}>
+          {t[`forecastMethod_${result.method}`]}
+          {' · '}
+          {t.forecastMape}: {result.mape === null ? '—' : `${result.mape.toFixed(1)}%`}
+          {result.mape !== null && <span className="opacity-60"> ({result.holdout} {options.granularity === 'week' ? t.forecastWeeks : t.forecastMonths} {t.forecastHoldout})</span>}
+        </span>
+      </div>
+      <div className="flex-1 min-h-0">
+        {result.history === 0 ? (
+          <div className="h-full flex items-center justify-center opacity-40 italic text-sm">{t.forecastNoData}</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              <XAxis dataKey="period" stroke="currentColor" style={{fontSize: 10}}/>
+              <YAxis stroke="currentColor" style={{fontSize: 10}}/>
+              <ReTooltip
+                contentStyle={{backgroundColor: 'rgba(0,0,0,0.8)', border: 'none', borderRadius: '8px'}}
+                itemStyle={{color: '#fff'}}
+              />
+              <Area type="monotone" dataKey="band" name={t.forecastBand} stroke="none" fill={accent} fillOpacity={0.2} connectNulls={false} isAnimationActive={false}/>
+              <Line type="monotone" dataKey="actual" name={t.forecastActual} stroke={accent} strokeWidth={3} dot={false} isAnimationActive={false}/>
+              <Line type="monotone" dataKey="forecast" name={t.forecast} stroke={accent} strokeWidth={2} strokeDasharray="6 4" dot={false} isAnimationActive={false}/>
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ForecastChart;
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { MedFlowRow, LicenseFlag, LicenseShare, LicenseStat } from '../types';
+import { Card } from './ui';
+import { licenseStats } from '../services/licenseService';
+
+interface LicensePanelProps {
+  data: MedFlowRow[];
+  accent: string;
+  t: Record<string, string>;
+}
+
+const FLAG_CLASS: Record<LicenseFlag, string> = {
+  unparsed: 'text-yellow-300',
+  unrelated_categories: 'text-red-300',
+  unrelated_devices: 'text-orange-300',
+};
+
+const ShareList: React.FC<{ title: string; items: LicenseShare[]; total: number; accent: string }> = ({ title, items, total, accent }) => (
+  <div className="min-w-0">
+    <h4 className="text-xs font-bold opacity-70 mb-2">{title} ({items.length})</h4>
+    <div className="space-y-1 max-h-64 overflow-y-auto pr-1">
+      {items.map(item => (
+        <div key={item.key} className="text-xs">
+          <div className="flex justify-between gap-2">
+            <span className="truncate" title={item.key}>{item.key}</span>
+            <span className="font-mono opacity-70 shrink-0">{item.units.toLocaleString()}</span>
+          </div>
+          <div className="h-1 rounded bg-white/10">
+            <div className="h-1 rounded" style={{ width: `${total > 0 ? Math.max(0, item.units) / total * 100 : 0}%`, background: accent }}/>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const LicensePanel: React.FC<LicensePanelProps> = ({ data, accent, t }) => {
+  const [search, setSearch] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const stats = useMemo(() => licenseStats(data), [data]);
+  const unlicensed = useMemo(() => data.filter(r => !r.LicenseNo).length, [data]);
+
+  const visible = stats.filter(s =>
+    (!flaggedOnly || s.flags.length > 0) &&
+    (!search || s.licenseNo.includes(search.trim()) || s.models.some(m => m.key.toLowerCase().includes(search.trim().toLowerCase())))
+  );
+  const license: LicenseStat | null = visible.find(s => s.licenseNo === selected) ?? visible[0] ?? null;
+  const flagged = stats.filter(s => s.flags.length > 0).length;
+
+  const originUnits = (origin: 'import' | 'domestic') =>
+    stats.filter(s => s.info?.origin === origin).reduce((acc, s) => acc + s.units, 0);
+
+  return (
+    <div className="grid grid-cols-3 gap-6 h-[calc(100vh-140px)]">
+      {/* License list */}
+      <Card className="col-span-1 flex flex-col min-h-0">
+        <h3 className="font-bold mb-1 flex items-center gap-2"><Lucide.BadgeCheck size={18}/> {t.licenses}</h3>
+        <p className="text-xs opacity-60 mb-3">
+          {stats.length} {t.licenses} · {flagged} {t.licenseFlagged} · {unlicensed.toLocaleString()} {t.licenseMissingRows}
+          <br/>
+          {t.licenseOrigin_import}: {originUnits('import').toLocaleString()} · {t.licenseOrigin_domestic}: {originUnits('domestic').toLocaleString()} {t.units}
+        </p>
+        <input
+          placeholder={t.licenseSearch}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full bg-black/20 border border-white/10 rounded px-2 py-1 text-xs mb-2 focus:outline-none focus:border-white/40 placeholder-white/30"
+        />
+        <label className="flex items-center gap-2 text-xs opacity-80 mb-3 cursor-pointer">
+          <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)}/>
+          {t.licenseFlaggedOnly}
+        </label>
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {visible.length === 0 && <p className="text-sm opacity-50 italic">{t.licenseNone}</p>}
+          {visible.map(s => (
+            <button
+              key={s.licenseNo}
+              onClick={() => setSelected(s.licenseNo)}
+              className={`w-full text-left p-2 rounded-lg border text-xs ${s.licenseNo === license?.licenseNo ? 'border-white/50 bg-white/10' : 'border-white/10 hover:bg-white/5'}`}
+            >
+              <span className="flex justify-between gap-2">
+                <span className="font-mono truncate">{s.licenseNo}</span>
+                {s.flags.length > 0 && <Lucide.AlertTriangle size={14} className={`${FLAG_CLASS[s.flags[0]]} shrink-0`}/>}
+              </span>
+              <span className="block opacity-60">
+                {s.units.toLocaleString()} {t.units} · {s.models.length} {t.licenseModels} · {s.categories.length} {t.categories}
+              </span>
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {/* License detail */}
+      <Card className="col-span-2 flex flex-col min-h-0 overflow-y-auto">
+        {!license ? (
+          <div className="flex-1 flex items-center justify-center opacity-40 italic">{t.licenseNone}</div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <h3 className="font-bold text-lg font-mono">{license.licenseNo}</h3>
+              {license.info ? (
+                <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                  <span className="px-2 py-1 rounded bg-white/10">{t.licenseAuthority}: {license.info.authority} ({t[`licenseAuthority_${license.info.authority}`]})</span>
+                  <span className="px-2 py-1 rounded bg-white/10">{t.licenseOrigin}: {t[`licenseOrigin_${license.info.origin}`]}</span>
+                  <span className="px-2 py-1 rounded bg-white/10">{t.licenseSubType}: {t[`licenseSubType_${license.info.subType}`]}</span>
+                  <span className="px-2 py-1 rounded bg-white/10 font-mono">No. {license.info.number}</span>
+                </div>
+              ) : (
+                <p className="text-xs text-yellow-300 mt-1">{t.licenseFlag_unparsed}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-4 gap-3 text-center">
+              {[
+                [t.units, license.units],
+                [t.rows, license.rows],
+                [t.licenseModels, license.models.length],
+                [t.licenseCustomers, license.customers],
+              ].map(([label, value]) => (
+                <div key={label} className="bg-black/20 rounded-lg p-2">
+                  <p className="text-xs opacity-60">{label}</p>
+                  <p className="text-xl font-bold">{value.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+
+            {license.flags.filter(f => f !== 'unparsed').map(flag => (
+              <p key={flag} className={`text-xs flex items-start gap-1 ${FLAG_CLASS[flag]}`}>
+                <Lucide.AlertTriangle size={12} className="mt-0.5 shrink-0"/> {t[`licenseFlag_${flag}`]}
+              </p>
+            ))}
+
+            <div className="grid grid-cols-3 gap-4">
+              <ShareList title={t.licenseModels} items={license.models} total={license.units} accent={accent}/>
+              <ShareList title={t.categories} items={license.categories} total={license.units} accent={accent}/>
+              <ShareList title={t.licenseDevices} items={license.devices} total={license.units} accent={accent}/>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default LicensePanel;
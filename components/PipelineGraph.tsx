@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { AgentStep } from '../types';
+import { computeLevels } from '../services/pipelineService';
+
+interface PipelineGraphProps {
+  steps: AgentStep[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const NODE_W = 150;
+const NODE_H = 44;
+const COL_GAP = 60;
+const ROW_GAP = 16;
+
+const STATUS_COLORS: Record<AgentStep['status'], string> = {
+  idle: 'rgba(255,255,255,0.15)',
+  paused: '#60a5fa',
+  running: '#facc15',
+  completed: '#4ade80',
+  error: '#f87171',
+  skipped: 'rgba(255,255,255,0.05)',
+  cancelled: '#fb923c',
+};
+
+const PipelineGraph: React.FC<PipelineGraphProps> = ({ steps, selectedId, onSelect }) => {
+  // Columns by dependency depth, rows by declaration order within a column
+  const layout = useMemo(() => {
+    const levels = computeLevels(steps);
+    const rowsPerLevel: Record<number, number> = {};
+    const pos: Record<string, { x: number; y: number }> = {};
+    steps.forEach(s => {
+      const level = levels[s.id] ?? 0;
+      const row = rowsPerLevel[level] ?? 0;
+      rowsPerLevel[level] = row + 1;
+      pos[s.id] = { x: level * (NODE_W + COL_GAP), y: row * (NODE_H + ROW_GAP) };
+    });
+    const cols = Math.max(0, ...Object.values(levels)) + 1;
+    const rows = Math.max(1, ...Object.values(rowsPerLevel));
+    return {
+      pos,
+      width: cols * NODE_W + (cols - 1) * COL_GAP,
+      height: rows * NODE_H + (rows - 1) * ROW_GAP,
+    };
+  }, [steps]);
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={layout.width + 4} height={layout.height + 4} className="block">
+        <g transform="translate(2,2)">
+          {steps.flatMap(s => s.depends_on.filter(d => layout.pos[d]).map(d => {
+            const from = layout.pos[d];
+            const to = layout.pos[s.id];
+            const x1 = from.x + NODE_W, y1 = from.y + NODE_H / 2;
+            const x2 = to.x, y2 = to.y + NODE_H / 2;
+            const mid = (x1 + x2) / 2;
+            return (
+              <path
+                key={`${d}->${s.id}`}
+                d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`}
+                fill="none"
+                stroke="currentColor"
+                strokeOpacity={0.4}
+                strokeWidth={1.5}
+              />
+            );
+          }))}
+          {steps.map(s => {
+            const { x, y } = layout.pos[s.id];
+            return (
+              <g key={s.id} transform={`translate(${x},${y})`} onClick={() => onSelect(s.id)} className="cursor-pointer">
+                <rect
+                  width={NODE_W}
+                  height={NODE_H}
+                  rx={8}
+                  fill={STATUS_COLORS[s.status]}
+                  fillOpacity={s.status === 'idle' || s.status === 'skipped' ? 1 : 0.35}
+                  stroke={selectedId === s.id ? 'currentColor' : STATUS_COLORS[s.status]}
+                  strokeWidth={selectedId === s.id ? 2 : 1}
+                  strokeDasharray={s.status === 'skipped' ? '4 3' : undefined}
+                />
+                <text x={10} y={18} fontSize={11} fontWeight="bold" fill="currentColor">
+                  {s.name.length > 20 ? `${s.name.slice(0, 19)}…` : s.name}
+                </text>
+                <text x={10} y={34} fontSize={10} fill="currentColor" opacity={0.6}>
+                  {s.status}{s.attempts > 1 ? ` (×${s.attempts})` : ''}
+                </text>
+                <title>{`${s.id}\n${s.provider} · ${s.model}`}</title>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+    </div>
+  );
+};
+
+export default PipelineGraph;
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { MedFlowRow, PivotConfig, PivotDimension, PivotMeasure } from '../types';
+import { Card, Button } from './ui';
+import { PIVOT_DIMENSIONS, PIVOT_MEASURES, buildPivot, pivotCSV } from '../services/pivotService';
+import { downloadFile, formatDate } from '../services/exportService';
+
+interface PivotExplorerProps {
+  data: MedFlowRow[];
+  t: Record<string, string>;
+}
+
+const DEFAULT_CONFIG: PivotConfig = { rows: ['SupplierID'], column: 'quarter', measure: 'units', sortBy: 'value', sortDir: 'desc' };
+
+const DRILL_COLUMNS: (keyof MedFlowRow)[] = ['Deliverdate', 'SupplierID', 'CustomerID', 'DeviceNAME', 'Model', 'LotNO', 'SerNo', 'Number'];
+
+// Rendering thousands of lines freezes the tab; the CSV export always has them all
+const LINE_LIMIT = 500;
+const DRILL_ROWS = 200;
+
+const selectClass = 'bg-black/30 border border-white/20 rounded p-1 text-xs max-w-[12rem]';
+
+// A selected cell: line -1 is the grand total line, column -1 the row total column
+interface CellRef {
+  line: number;
+  column: number;
+}
+
+const PivotExplorer: React.FC<PivotExplorerProps> = ({ data, t }) => {
+  const [config, setConfig] = useState<PivotConfig>(DEFAULT_CONFIG);
+  const [selected, setSelected] = useState<CellRef | null>(null);
+
+  const pivot = useMemo(() => buildPivot(data, config), [data, config]);
+  useEffect(() => setSelected(null), [pivot]);
+
+  const dimLabel = (d: PivotDimension) => t[`pivotDim_${d}`] ?? d;
+  const update = (patch: Partial<PivotConfig>) => setConfig(c => ({ ...c, ...patch }));
+
+  const dimensionSelect = (value: PivotDimension | null, onChange: (d: PivotDimension | null) => void, allowNone: boolean) => (
+    <select className={selectClass} value={value ?? ''} onChange={(e) => onChange((e.target.value || null) as PivotDimension | null)}>
+      {allowNone && <option value="">{t.pivotNone}</option>}
+      {PIVOT_DIMENSIONS.map(d => <option key={d} value={d}>{dimLabel(d)}</option>)}
+    </select>
+  );
+
+  const handleExportCSV = () => {
+    const stamp = formatDate(new Date()).replace(/-/g, '');
+    downloadFile(`pivot-${config.rows.join('-')}${config.column ? `-by-${config.column}` : ''}-${stamp}.csv`, pivotCSV(pivot, t.pivotTotal), 'text/csv;charset=utf-8');
+  };
+
+  const hasColumns = config.column !== null;
+  const lineRows = (line: number) => (line === -1 ? { rows: data, cellRows: pivot.columnRows } : pivot.lines[line]);
+  const drillRows = selected ? (selected.column === -1 ? lineRows(selected.line).rows : lineRows(selected.line).cellRows[selected.column]) : [];
+  const drillTitle = selected
+    ? [
+        selected.line === -1 ? t.pivotTotal : pivot.lines[selected.line].keys.join(' › ') + (pivot.lines[selected.line].subtotal ? ` (${t.pivotSubtotal})` : ''),
+        hasColumns ? (selected.column === -1 ? t.pivotTotal : pivot.columns[selected.column]) : null,
+      ].filter(Boolean).join(' × ')
+    : '';
+
+  const cell = (value: number, ref: CellRef, className = '') => {
+    const active = selected?.line === ref.line && selected?.column === ref.column;
+    return (
+      <td
+        key={ref.column}
+        onClick={() => value !== 0 && setSelected(ref)}
+        className={`p-2 text-right font-mono ${value !== 0 ? 'cursor-pointer hover:bg-white/10' : 'opacity-30'} ${active ? 'bg-white/20' : ''} ${className}`}
+      >
+        {value.toLocaleString()}
+      </td>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-6 h-[calc(100vh-140px)]">
+      {/* Layout */}
+      <Card className="flex flex-wrap items-center gap-3 text-xs">
+        <h3 className="font-bold text-base flex items-center gap-2 mr-2"><Lucide.Table2 size={18}/> {t.pivot}</h3>
+        <label className="flex items-center gap-1">
+          <span className="opacity-70">{t.pivotRows}</span>
+          {dimensionSelect(config.rows[0], d => update({ rows: config.rows[1] ? [d!, config.rows[1]] : [d!] }), false)}
+          <span className="opacity-70">›</span>
+          {dimensionSelect(config.rows[1] ?? null, d => update({ rows: d ? [config.rows[0], d] : [config.rows[0]] }), true)}
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="opacity-70">{t.pivotColumns}</span>
+          {dimensionSelect(config.column, d => update({ column: d }), true)}
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="opacity-70">{t.pivotMeasure}</span>
+          <select className={selectClass} value={config.measure} onChange={(e) => update({ measure: e.target.value as PivotMeasure })}>
+            {PIVOT_MEASURES.map(m => <option key={m} value={m}>{t[`pivotMeasure_${m}`]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="opacity-70">{t.pivotSort}</span>
+          <select className={selectClass} value={config.sortBy} onChange={(e) => update({ sortBy: e.target.value as PivotConfig['sortBy'] })}>
+            <option value="value">{t.pivotSortValue}</option>
+            <option value="label">{t.pivotSortLabel}</option>
+          </select>
+          <button
+            onClick={() => update({ sortDir: config.sortDir === 'asc' ? 'desc' : 'asc' })}
+            className="p-1 rounded hover:bg-white/10"
+            title={config.sortDir}
+          >
+            {config.sortDir === 'asc' ? <Lucide.ArrowUpNarrowWide size={14}/> : <Lucide.ArrowDownWideNarrow size={14}/>}
+          </button>
+        </label>
+        <Button variant="secondary" onClick={handleExportCSV} className="ml-auto text-xs py-1"><Lucide.Download size={12}/> CSV</Button>
+      </Card>
+
+      {/* Table */}
+      <Card className="flex-1 flex flex-col min-h-0">
+        {data.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center opacity-40 italic">{t.noData}</div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-auto bg-black/20 rounded-lg border border-white/10">
+              <table className="w-full text-xs text-left">
+                <thead className="sticky top-0 bg-black/80">
+                  <tr>
+                    {config.rows.map(d => <th key={d} className="p-2 border-b border-white/10">{dimLabel(d)}</th>)}
+                    {hasColumns
+                      ? pivot.columns.map(c => <th key={c} className="p-2 border-b border-white/10 text-right whitespace-nowrap">{c}</th>)
+                      : null}
+                    <th className="p-2 border-b border-white/10 text-right">{hasColumns ? t.pivotTotal : t[`pivotMeasure_${config.measure}`]}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pivot.lines.slice(0, LINE_LIMIT).map((line, i) => (
+                    <tr key={`${line.subtotal ? 'sub' : 'line'}:${line.keys.join('\u0000')}`} className={`border-b border-white/5 ${line.subtotal ? 'bg-white/5 font-bold' : ''}`}>
+                      {config.rows.map((_, level) => (
+                        <td key={level} className="p-2 max-w-[14rem] truncate">
+                          {line.subtotal
+                            ? (level === 0 ? `${line.keys[0]} ${t.pivotSubtotal}` : '')
+                            : (level === 0 && config.rows.length > 1 ? <span className="opacity-60">{line.keys[0]}</span> : line.keys[level])}
+                        </td>
+                      ))}
+                      {hasColumns && line.cells.map((value, c) => cell(value, { line: i, column: c }))}
+                      {cell(line.total, { line: i, column: -1 }, hasColumns ? 'font-bold' : '')}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="sticky bottom-0 bg-black/80 font-bold">
+                  <tr>
+                    <td className="p-2" colSpan={config.rows.length}>{t.pivotTotal}</td>
+                    {hasColumns && pivot.columnTotals.map((value, c) => cell(value, { line: -1, column: c }))}
+                    {cell(pivot.grandTotal, { line: -1, column: -1 })}
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+            <p className="text-xs opacity-50 mt-2">
+              {t.pivotDrillHint}
+              {pivot.lines.length > LINE_LIMIT && <> · {t.pivotLineLimit}: {LINE_LIMIT} / {pivot.lines.length}</>}
+              {pivot.foldedColumns > 0 && <> · {t.pivotFolded}: {pivot.foldedColumns}</>}
+            </p>
+          </>
+        )}
+      </Card>
+
+      {/* Drill-through */}
+      {selected && (
+        <Card className="h-72 flex flex-col min-h-0">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="font-bold text-sm truncate">{t.pivotDrill}: {drillTitle} <span className="opacity-60 font-normal">({drillRows.length})</span></h3>
+            <Button variant="secondary" onClick={() => setSelected(null)} className="text-xs py-1"><Lucide.X size={12}/></Button>
+          </div>
+          <div className="flex-1 overflow-auto bg-black/20 rounded-lg border border-white/10">
+            <table className="w-full text-xs text-left">
+              <thead className="sticky top-0 bg-black/80">
+                <tr>
+                  <th className="p-2 border-b border-white/10">Row</th>
+                  {DRILL_COLUMNS.map(c => <th key={c} className="p-2 border-b border-white/10">{c}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {drillRows.slice(0, DRILL_ROWS).map(row => (
+                  <tr key={row.id} className="border-b border-white/5">
+                    <td className="p-2 font-mono opacity-60">{row.id}</td>
+                    {DRILL_COLUMNS.map(c => <td key={c} className="p-2 max-w-[10rem] truncate">{String(row[c])}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {drillRows.length > DRILL_ROWS && <p className="text-xs opacity-50 mt-2">{t.qualityDrillLimit}: {DRILL_ROWS}</p>}
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default PivotExplorer;
@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip, ResponsiveContainer } from 'recharts';
+import * as Lucide from 'lucide-react';
+import { MedFlowRow, DataMetrics, QualityIssue, QualityReport, QualitySeverity, QualitySnapshot } from '../types';
+import { Card, Button } from './ui';
+import { MAPPED_FIELDS } from '../services/dataService';
+import { issueKey, issueRows, qualityReportCSV } from '../services/qualityService';
+import { downloadFile, formatDate } from '../services/exportService';
+
+interface QualityPanelProps {
+  data: MedFlowRow[];
+  metrics: DataMetrics;
+  report: QualityReport | null; // null while parsing
+  history: QualitySnapshot[];
+  accent: string;
+  t: Record<string, string>;
+}
+
+const SEVERITY_CLASS: Record<QualitySeverity, string> = {
+  error: 'text-red-300',
+  warning: 'text-yellow-300',
+  info: 'text-blue-300',
+};
+
+const DRILL_ROWS = 200;
+
+const scoreClass = (score: number) => score >= 90 ? 'text-green-300' : score >= 70 ? 'text-yellow-300' : 'text-red-300';
+
+const QualityPanel: React.FC<QualityPanelProps> = ({ data, metrics, report, history, accent, t }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const issueLabel = (issue: QualityIssue) =>
+    issue.rule === 'missing' ? `${t.quality_missing}: ${issue.field}` : t[`quality_${issue.rule}`];
+
+  const selectedIssue = report?.issues.find(i => issueKey(i) === selected) ?? null;
+  const drillRows = useMemo(() => selectedIssue ? issueRows(data, selectedIssue) : [], [data, selectedIssue]);
+
+  const trend = history.map(s => ({ ...s, label: new Date(s.timestamp).toLocaleString() }));
+
+  const handleExportCSV = () => {
+    if (!report) return;
+    const stamp = formatDate(new Date()).replace(/-/g, '');
+    downloadFile(`quality-report-${stamp}.csv`, qualityReportCSV(data, report, issueLabel), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportJSON = () => {
+    if (!report) return;
+    const stamp = formatDate(new Date()).replace(/-/g, '');
+    const content = {
+      generatedAt: new Date().toISOString(),
+      ...report,
+      issues: report.issues.map(i => ({ ...i, label: issueLabel(i) })),
+      parseFailures: metrics.parseFailures,
+      parseErrors: metrics.parseErrors,
+      history,
+    };
+    downloadFile(`quality-report-${stamp}.json`, JSON.stringify(content, null, 2), 'application/json');
+  };
+
+  if (!report) {
+    return <Card><p className="opacity-60 text-sm">{t.parsing}</p></Card>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-6">
+        {/* Score & trend */}
+        <Card className="col-span-1 flex flex-col">
+          <h3 className="text-lg font-bold mb-2">{t.qualityScore}</h3>
+          <p className={`text-5xl font-bold ${scoreClass(report.score)}`}>{report.score.toFixed(1)}</p>
+          <p className="text-xs opacity-60 mt-1">{report.totalRows.toLocaleString()} {t.rowsLoaded}</p>
+          <div className="flex gap-2 mt-4">
+            <Button variant="secondary" onClick={handleExportCSV} className="flex-1 text-xs py-1"><Lucide.Download size={12}/> CSV</Button>
+            <Button variant="secondary" onClick={handleExportJSON} className="flex-1 text-xs py-1"><Lucide.Download size={12}/> JSON</Button>
+          </div>
+        </Card>
+        <Card className="col-span-2 h-56 flex flex-col">
+          <h3 className="text-sm font-bold mb-2 opacity-80">{t.qualityTrend}</h3>
+          {trend.length > 1 ? (
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                  <XAxis dataKey="label" hide/>
+                  <YAxis domain={[0, 100]} stroke="currentColor" style={{ fontSize: 10 }}/>
+                  <ReTooltip
+                    contentStyle={{ backgroundColor: 'rgba(0,0,0,0.8)', border: 'none', borderRadius: '8px' }}
+                    itemStyle={{ color: '#fff' }}
+                  />
+                  <Line type="monotone" dataKey="score" stroke={accent} strokeWidth={2}/>
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="flex-1 flex items-center justify-center text-xs opacity-50 italic">{t.qualityTrendEmpty}</p>
+          )}
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        {/* Issues */}
+        <Card>
+          <h3 className="text-lg font-bold mb-4 text-red-300">{t.qualityIssues}</h3>
+          <ul className="space-y-1 text-sm">
+            <li className="flex justify-between border-b border-white/10 pb-2 px-2">
+              <span>{t.qualityParseFailures}</span>
+              <span className="font-mono">{metrics.parseFailures}</span>
+            </li>
+            {report.issues.length === 0 && <li className="opacity-50 italic px-2 py-2">{t.qualityNoIssues}</li>}
+            {report.issues.map(issue => (
+              <li key={issueKey(issue)}>
+                <button
+                  onClick={() => setSelected(selected === issueKey(issue) ? null : issueKey(issue))}
+                  className={`w-full flex justify-between gap-2 px-2 py-1.5 rounded text-left ${selected === issueKey(issue) ? 'bg-white/20' : 'hover:bg-white/10'}`}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className={`text-xs uppercase w-14 ${SEVERITY_CLASS[issue.severity]}`}>{t[`severity_${issue.severity}`]}</span>
+                    {issueLabel(issue)}
+                  </span>
+                  <span className="font-mono">
+                    {issue.count.toLocaleString()}
+                    <span className="opacity-50 text-xs"> ({(issue.count / report.totalRows * 100).toFixed(1)}%)</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {metrics.parseErrors.length > 0 && (
+            <details className="mt-4 text-xs">
+              <summary className="cursor-pointer opacity-80">{t.parseErrors} ({metrics.parseErrors.length})</summary>
+              <ul className="mt-2 max-h-60 overflow-y-auto font-mono space-y-1">
+                {metrics.parseErrors.map((err, i) => (
+                  <li key={i}><span className="opacity-50">{err.source && `${err.source} · `}{t.configLine} {err.line}:</span> {err.message}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </Card>
+
+        {/* Completeness */}
+        <Card>
+          <h3 className="text-lg font-bold mb-4">{t.qualityCompleteness}</h3>
+          <ul className="space-y-2 text-xs">
+            {MAPPED_FIELDS.map(field => (
+              <li key={field} className="flex items-center gap-2">
+                <span className="w-24 font-mono">{field}</span>
+                <div className="flex-1 h-2 bg-white/10 rounded overflow-hidden">
+                  <div className="h-full" style={{ width: `${report.completeness[field] * 100}%`, backgroundColor: accent }}/>
+                </div>
+                <span className="w-14 text-right font-mono">{(report.completeness[field] * 100).toFixed(1)}%</span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      </div>
+
+      {/* Drill-down */}
+      {selectedIssue && (
+        <Card>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-bold">{issueLabel(selectedIssue)} <span className="opacity-60 font-normal text-sm">({drillRows.length.toLocaleString()})</span></h3>
+            <Button variant="secondary" onClick={() => setSelected(null)} className="text-xs py-1"><Lucide.X size={12}/></Button>
+          </div>
+          <div className="max-h-96 overflow-auto bg-black/20 rounded-lg border border-white/10">
+            <table className="w-full text-xs text-left">
+              <thead className="sticky top-0 bg-black/80">
+                <tr>
+                  {['Row', 'Deliverdate', 'SupplierID', 'CustomerID', 'DeviceNAME', 'Number', 'LicenseNo', 'Category', 'LotNO', 'SerNo', 'UDID'].map(h => (
+                    <th key={h} className={`p-2 border-b border-white/10 ${h === selectedIssue.field ? 'text-yellow-300' : ''}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {drillRows.slice(0, DRILL_ROWS).map(row => (
+                  <tr key={row.id} className="border-b border-white/5">
+                    <td className="p-2 font-mono opacity-60">{row.id}</td>
+                    <td className="p-2">{row.Deliverdate}</td>
+                    <td className="p-2">{row.SupplierID}</td>
+                    <td className="p-2">{row.CustomerID}</td>
+                    <td className="p-2 max-w-[12rem] truncate">{row.DeviceNAME}</td>
+                    <td className="p-2 font-mono">{row.Number}</td>
+                    <td className="p-2 max-w-[10rem] truncate">{row.LicenseNo}</td>
+                    <td className="p-2 max-w-[10rem] truncate">{row.Category}</td>
+                    <td className="p-2 font-mono">{row.LotNO}</td>
+                    <td className="p-2 font-mono">{row.SerNo}</td>
+                    <td className="p-2 font-mono max-w-[10rem] truncate">{row.UDID}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {drillRows.length > DRILL_ROWS && (
+            <p className="text-xs opacity-50 mt-2">{t.qualityDrillLimit}: {DRILL_ROWS}</p>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default QualityPanel;
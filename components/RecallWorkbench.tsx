@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { MedFlowRow } from '../types';
+import { Card, Button } from './ui';
+import {
+  RecallField, RECALL_FIELDS, parseIdentifierList, traceRecall, buildRecallNotificationCSV
+} from '../services/recallService';
+import { downloadFile, formatDate } from '../services/exportService';
+
+interface RecallWorkbenchProps {
+  data: MedFlowRow[];
+  t: Record<string, string>;
+}
+
+const RecallWorkbench: React.FC<RecallWorkbenchProps> = ({ data, t }) => {
+  const [query, setQuery] = useState('');
+  const [fields, setFields] = useState<RecallField[]>(RECALL_FIELDS);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const identifiers = useMemo(() => parseIdentifierList(query), [query]);
+  const result = useMemo(
+    () => identifiers.length > 0 ? traceRecall(data, identifiers, fields) : null,
+    [data, identifiers, fields]
+  );
+
+  const toggleField = (field: RecallField) => {
+    setFields(fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field]);
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const stamp = formatDate(new Date()).replace(/-/g, '');
+    downloadFile(`recall-notification-${stamp}.csv`, buildRecallNotificationCSV(result), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-6">
+      {/* Query */}
+      <Card className="col-span-1 flex flex-col gap-4">
+        <h3 className="font-bold flex items-center gap-2"><Lucide.SearchCheck size={18}/> {t.recallQuery}</h3>
+        <textarea
+          className="h-48 bg-black/20 border border-white/20 rounded-lg p-3 font-mono text-xs focus:outline-none focus:border-white/50 resize-none placeholder-white/30"
+          placeholder={t.recallPlaceholder}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <div>
+          <p className="text-xs uppercase tracking-wider opacity-60 mb-2">{t.recallMatchOn}</p>
+          <div className="flex flex-wrap gap-2">
+            {RECALL_FIELDS.map(field => (
+              <button
+                key={field}
+                onClick={() => toggleField(field)}
+                className={`px-2 py-1 rounded text-xs font-mono border ${fields.includes(field) ? 'bg-white/20 border-white/40' : 'border-white/10 opacity-50'}`}
+              >
+                {field}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs opacity-60">{identifiers.length} {t.recallIdentifiers}</p>
+        {result && result.unmatched.length > 0 && (
+          <div className="text-xs bg-red-500/10 border border-red-500/30 rounded p-2">
+            <p className="font-bold mb-1">{t.recallUnmatched} ({result.unmatched.length})</p>
+            <p className="font-mono break-all opacity-80">{result.unmatched.join(', ')}</p>
+          </div>
+        )}
+        <Button onClick={handleExport} disabled={!result || result.totalShipments === 0} className="text-xs">
+          <Lucide.Download size={14}/> {t.recallExport}
+        </Button>
+      </Card>
+
+      {/* Results */}
+      <Card className="col-span-2 flex flex-col min-h-[500px]">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold flex items-center gap-2"><Lucide.Users size={18}/> {t.recallAffected}</h3>
+          {result && (
+            <span className="text-xs font-mono opacity-70">
+              {result.groups.length} {t.customers} · {result.totalShipments} {t.recallShipments} · {result.totalUnits} {t.units}
+            </span>
+          )}
+        </div>
+        <div className="flex-1 overflow-auto space-y-2">
+          {!result || result.groups.length === 0 ? (
+            <div className="h-full flex items-center justify-center opacity-30 italic">{t.recallEmpty}</div>
+          ) : result.groups.map(g => (
+            <div key={g.customerID} className="rounded-lg border border-white/10 bg-white/5">
+              <button
+                onClick={() => setExpanded({ ...expanded, [g.customerID]: !expanded[g.customerID] })}
+                className="w-full flex items-center justify-between p-3 text-sm"
+              >
+                <span className="flex items-center gap-2 font-bold">
+                  <Lucide.ChevronRight size={14} className={`transition-transform ${expanded[g.customerID] ? 'rotate-90' : ''}`}/>
+                  {g.customerID}
+                </span>
+                <span className="text-xs font-mono opacity-70">
+                  {g.shipments.length} {t.recallShipments} · {g.totalUnits} {t.units} · {formatDate(g.firstDelivery)} → {formatDate(g.lastDelivery)}
+                </span>
+              </button>
+              {expanded[g.customerID] && (
+                <table className="w-full text-xs text-left">
+                  <thead className="bg-black/30">
+                    <tr>
+                      <th className="p-2">Date</th>
+                      <th className="p-2">Match</th>
+                      <th className="p-2">Device</th>
+                      <th className="p-2">Model</th>
+                      <th className="p-2">Lot</th>
+                      <th className="p-2">SN</th>
+                      <th className="p-2 text-right">Qty</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {g.shipments.map(({ row, matchedField, matchedValue }) => (
+                      <tr key={row.id} className="border-t border-white/5">
+                        <td className="p-2 font-mono whitespace-nowrap">{formatDate(row.parsedDate) || row.Deliverdate}</td>
+                        <td className="p-2 font-mono whitespace-nowrap opacity-70">{matchedField}={matchedValue}</td>
+                        <td className="p-2">{row.DeviceNAME}</td>
+                        <td className="p-2">{row.Model}</td>
+                        <td className="p-2 font-mono">{row.LotNO}</td>
+                        <td className="p-2 font-mono">{row.SerNo}</td>
+                        <td className="p-2 font-mono text-right">{row.Number}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default RecallWorkbench;
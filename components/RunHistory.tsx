@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import { PipelineRun, PipelineRunStep } from '../types';
+import { Card, Button } from './ui';
+import DiffView from './DiffView';
+import { formatDuration } from '../services/runHistoryService';
+import { effectiveOutput } from '../services/pipelineService';
+
+interface RunHistoryProps {
+  runs: PipelineRun[];
+  currentFingerprint: string | null; // null while data is loading
+  onRestore: (run: PipelineRun) => void;
+  onDelete: (id: string) => void;
+  isRunning: boolean;
+  t: Record<string, string>;
+}
+
+const STATUS_CLASS: Record<PipelineRun['status'], string> = {
+  completed: 'text-green-300',
+  error: 'text-red-300',
+  cancelled: 'text-yellow-300',
+};
+
+const StepSummary: React.FC<{ step: PipelineRunStep | undefined; t: Record<string, string> }> = ({ step, t }) => {
+  if (!step) return <p className="text-xs opacity-50 italic">{t.historyNotInRun}</p>;
+  return (
+    <ul className="text-xs space-y-1">
+      <li><span className="opacity-60">{t.historyModel}:</span> <span className="font-mono">{step.provider} / {step.model}</span></li>
+      <li><span className="opacity-60">{t.historyStatus}:</span> {step.status} ({step.attempts}×)</li>
+      <li><span className="opacity-60">{t.historyDuration}:</span> {formatDuration(step.startedAt && step.finishedAt ? step.finishedAt - step.startedAt : undefined)}</li>
+      <li><span className="opacity-60">{t.promptTokens}:</span> {step.renderedPrompt ? `~${step.renderedPrompt.tokens.toLocaleString()}` : '–'}</li>
+    </ul>
+  );
+};
+
+const RunHistory: React.FC<RunHistoryProps> = ({ runs, currentFingerprint, onRestore, onDelete, isRunning, t }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [stepId, setStepId] = useState<string | null>(null);
+
+  // Drop selections of runs that were deleted
+  useEffect(() => {
+    setCompareIds(ids => ids.filter(id => runs.some(r => r.id === id)));
+  }, [runs]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-2));
+  };
+
+  // The older run is always shown on the left
+  const [runA, runB] = compareIds
+    .map(id => runs.find(r => r.id === id)!)
+    .sort((a, b) => a.startedAt - b.startedAt);
+  const stepIds = runA && runB
+    ? Array.from(new Set([...runA.steps.map(s => s.id), ...runB.steps.map(s => s.id)]))
+    : [];
+  const activeStepId = stepId && stepIds.includes(stepId) ? stepId : stepIds[0];
+  const stepA = runA?.steps.find(s => s.id === activeStepId);
+  const stepB = runB?.steps.find(s => s.id === activeStepId);
+
+  return (
+    <div className="grid grid-cols-3 gap-6 h-[calc(100vh-140px)]">
+      {/* Run list */}
+      <Card className="col-span-1 flex flex-col min-h-0">
+        <h3 className="font-bold mb-1 flex items-center gap-2"><Lucide.History size={18}/> {t.history}</h3>
+        <p className="text-xs opacity-60 mb-3">{t.historyCompareHint}</p>
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {runs.length === 0 && <p className="text-sm opacity-50 italic">{t.historyEmpty}</p>}
+          {runs.map(run => (
+            <div
+              key={run.id}
+              className={`p-3 rounded-lg border text-xs ${compareIds.includes(run.id) ? 'border-white/50 bg-white/10' : 'border-white/10'}`}
+            >
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input type="checkbox" checked={compareIds.includes(run.id)} onChange={() => toggleCompare(run.id)} className="mt-0.5"/>
+                <span className="flex-1">
+                  <span className="font-bold block">{new Date(run.startedAt).toLocaleString()}</span>
+                  <span className={STATUS_CLASS[run.status]}>{run.status}</span>
+                  <span className="opacity-60"> · {run.steps.length} {t.historySteps} · {formatDuration(run.finishedAt - run.startedAt)}</span>
+                  <span className="block font-mono opacity-50">
+                    {run.rowCount.toLocaleString()} rows · {run.datasetFingerprint}
+                    {currentFingerprint !== null && run.datasetFingerprint !== currentFingerprint && (
+                      <span className="text-yellow-300 font-sans"> · {t.historyDatasetChanged}</span>
+                    )}
+                  </span>
+                </span>
+              </label>
+              <div className="flex justify-end gap-2 mt-2">
+                <Button variant="secondary" onClick={() => onRestore(run)} disabled={isRunning} className="text-xs py-1">
+                  <Lucide.RotateCcw size={12}/> {t.historyRestore}
+                </Button>
+                <Button variant="secondary" onClick={() => onDelete(run.id)} className="text-xs py-1">
+                  <Lucide.Trash2 size={12}/>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* Comparison */}
+      <Card className="col-span-2 flex flex-col min-h-0">
+        {!runA || !runB ? (
+          <div className="flex-1 flex items-center justify-center opacity-40 italic">{t.historyCompareHint}</div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-xs">
+              {[runA, runB].map((run, i) => (
+                <div key={run.id} className="bg-black/20 rounded-lg p-3">
+                  <p className="font-bold mb-1">{i === 0 ? 'A' : 'B'} · {new Date(run.startedAt).toLocaleString()}</p>
+                  <p className="opacity-70 font-mono">{run.datasetFingerprint}</p>
+                </div>
+              ))}
+            </div>
+            {runA.datasetFingerprint !== runB.datasetFingerprint && (
+              <p className="text-xs text-yellow-300 flex items-center gap-1"><Lucide.AlertTriangle size={12}/> {t.historyDifferentData}</p>
+            )}
+
+            <details className="text-xs border border-white/10 rounded">
+              <summary className="cursor-pointer p-2">agents.yaml</summary>
+              <div className="p-2"><DiffView before={runA.agentsYaml} after={runB.agentsYaml}/></div>
+            </details>
+            <details className="text-xs border border-white/10 rounded">
+              <summary className="cursor-pointer p-2">SKILL.md</summary>
+              <div className="p-2"><DiffView before={runA.skillMd} after={runB.skillMd}/></div>
+            </details>
+
+            <div className="flex gap-1 overflow-x-auto border-b border-white/10">
+              {stepIds.map(id => (
+                <button
+                  key={id}
+                  onClick={() => setStepId(id)}
+                  className={`px-3 py-2 text-xs whitespace-nowrap rounded-t-lg ${id === activeStepId ? 'bg-white/20 font-bold' : 'opacity-60 hover:opacity-100'}`}
+                >
+                  {id}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <StepSummary step={stepA} t={t}/>
+              <StepSummary step={stepB} t={t}/>
+            </div>
+
+            <div>
+              <h4 className="text-xs uppercase tracking-wider opacity-60 mb-2">{t.output_prompt}</h4>
+              <div className="bg-black/30 rounded-lg p-3 max-h-80 overflow-y-auto">
+                <DiffView before={stepA?.renderedPrompt?.user ?? ''} after={stepB?.renderedPrompt?.user ?? ''}/>
+              </div>
+            </div>
+            <div>
+              <h4 className="text-xs uppercase tracking-wider opacity-60 mb-2">{t.historyOutput}</h4>
+              <div className="bg-black/30 rounded-lg p-3 max-h-[32rem] overflow-y-auto">
+                <DiffView before={stepA ? effectiveOutput(stepA) : ''} after={stepB ? effectiveOutput(stepB) : ''}/>
+              </div>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default RunHistory;
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as Lucide from 'lucide-react';
+import type { WorkBook } from 'xlsx';
+import { DateSystem } from '../types';
+import { Button } from './ui';
+import { readWorkbook, sheetToRows, guessHeaderRow, workbookDateSystem } from '../services/excelService';
+import { parseTableRows } from '../services/dataService';
+import { formatDate } from '../services/exportService';
+
+interface WorkbookImportProps {
+  file: File;
+  onImport: (rows: string[][], headerRow: number, dateSystem: DateSystem) => void; // columns are mapped next
+  onCancel: () => void;
+  t: Record<string, string>;
+}
+
+const PREVIEW_ROWS = 15;
+
+const WorkbookImport: React.FC<WorkbookImportProps> = ({ file, onImport, onCancel, t }) => {
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [headerRow, setHeaderRow] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWorkbook(null);
+    setError(null);
+    readWorkbook(file)
+      .then(wb => {
+        if (cancelled) return;
+        setWorkbook(wb);
+        setSheetName(wb.SheetNames[0] ?? '');
+      })
+      .catch(e => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const rows = useMemo(() => workbook && sheetName ? sheetToRows(workbook, sheetName) : [], [workbook, sheetName]);
+
+  // Re-guess the header whenever another sheet is picked
+  useEffect(() => {
+    setHeaderRow(guessHeaderRow(rows));
+  }, [rows]);
+
+  // Normalized sample, so date conversion can be checked before importing
+  const sample = useMemo(
+    () => workbook && rows.length > headerRow + 1
+      ? parseTableRows(rows.slice(0, headerRow + 6), headerRow, { dateSystem: workbookDateSystem(workbook) }).data
+      : [],
+    [workbook, rows, headerRow]
+  );
+
+  const handleImport = () => {
+    if (!workbook) return;
+    onImport(rows, headerRow, workbookDateSystem(workbook));
+  };
+
+  const width = Math.min(Math.max(0, ...rows.slice(0, PREVIEW_ROWS).map(r => r.length)), 12);
+
+  return (
+    <div className="flex-1 flex flex-col gap-3 min-h-0 text-xs">
+      <div className="flex items-center gap-2">
+        <Lucide.FileSpreadsheet size={16} className="opacity-70"/>
+        <span className="font-mono truncate flex-1">{file.name}</span>
+        <Button variant="secondary" onClick={onCancel} className="text-xs py-1"><Lucide.X size={12}/></Button>
+      </div>
+
+      {error && <p className="text-red-300">{error}</p>}
+      {!workbook && !error && <p className="opacity-60">{t.parsing}</p>}
+
+      {workbook && (
+        <>
+          <div className="flex gap-3">
+            <label className="flex items-center gap-2">
+              <span className="opacity-70">{t.sheet}</span>
+              <select
+                className="bg-black/30 border border-white/20 rounded p-1"
+                value={sheetName}
+                onChange={(e) => setSheetName(e.target.value)}
+              >
+                {workbook.SheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="opacity-70">{t.headerRow}</span>
+              <input
+                type="number"
+                min={1}
+                max={Math.max(1, rows.length)}
+                className="w-16 bg-black/30 border border-white/20 rounded p-1"
+                value={headerRow + 1}
+                onChange={(e) => setHeaderRow(Math.min(Math.max(0, Number(e.target.value) - 1), Math.max(0, rows.length - 1)))}
+              />
+            </label>
+          </div>
+          <p className="opacity-50">{t.headerRowHint}</p>
+
+          {/* Raw sheet: click a row to make it the header */}
+          <div className="flex-1 overflow-auto bg-black/20 rounded-lg border border-white/10 min-h-0">
+            <table className="w-full text-left">
+              <tbody>
+                {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr
+                    key={i}
+                    onClick={() => setHeaderRow(i)}
+                    className={`cursor-pointer border-b border-white/5 ${i === headerRow ? 'bg-yellow-400/20 font-bold' : i < headerRow ? 'opacity-30' : 'hover:bg-white/5'}`}
+                  >
+                    <td className="p-1 opacity-50 font-mono">{i + 1}</td>
+                    {Array.from({ length: width }, (_, c) => (
+                      <td key={c} className="p-1 whitespace-nowrap max-w-[10rem] truncate">{row[c]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {sample.length > 0 && (
+            <div className="bg-black/20 rounded-lg border border-white/10 p-2 font-mono">
+              <p className="opacity-60 mb-1 font-sans">{t.importPreview}</p>
+              {sample.map(r => (
+                <p key={r.id} className="truncate">
+                  <span className={r.parsedDate ? 'text-green-300' : 'text-red-300'}>{r.parsedDate ? formatDate(r.parsedDate) : `${r.Deliverdate || '—'} ?`}</span>
+                  {' · '}{r.SupplierID} · {r.Category} · {r.Number}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={handleImport} disabled={rows.length <= headerRow + 1}>
+            <Lucide.Import size={16}/> {t.importSheet} ({Math.max(0, rows.length - headerRow - 1).toLocaleString()})
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WorkbookImport;
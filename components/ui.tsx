@@ -0,0 +1,19 @@
+import React from 'react';
+
+// --- Utility Components ---
+export const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
+  <div className={`p-6 rounded-2xl shadow-lg border border-white/20 transition-all duration-300 ${className}`} style={{ backdropFilter: 'blur(10px)' }}>
+    {children}
+  </div>
+);
+
+export const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'danger' }> = 
+  ({ children, className = '', variant = 'primary', ...props }) => {
+  const baseStyle = "px-4 py-2 rounded-lg font-medium transition-all transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 justify-center";
+  const variants = {
+    primary: "bg-white/20 hover:bg-white/30 text-current border border-white/30",
+    secondary: "bg-black/20 hover:bg-black/30 text-current border border-white/10",
+    danger: "bg-red-500/20 hover:bg-red-500/30 text-red-100 border border-red-500/30"
+  };
+  return <button className={`${baseStyle} ${variants[variant]} ${className}`} {...props}>{children}</button>;
+};
@@ -48,7 +48,8 @@ export const I18N: Record<Lang, Record<string, string>> = {
     jackpot: "Jackpot!",
     noData: "No data loaded. Please upload, paste, or load default dataset.",
     parsing: "Parsing...",
-    apiKeyPlaceholder: "Enter Gemini API Key (Required)",
+    apiKeyPlaceholder: "API Key",
+    apiKeys: "API Keys",
     apiKeyFound: "API Key detected in Environment",
     runAll: "Run All Agents",
     reset: "Reset",
@@ -59,7 +60,257 @@ export const I18N: Record<Lang, Record<string, string>> = {
     statusComplete: "Complete",
     statusError: "Error",
     filters: "Filters",
-    dropFile: "Drop file here or click to upload (CSV, JSON, TXT)",
+    dropFile: "Drop file here or click to upload (CSV, JSON, TXT, Excel)",
+    configLine: "Line",
+    configErrors: "agents.yaml errors",
+    runGraph: "Run Graph",
+    noDependencies: "no dependencies",
+    retry: "attempt",
+    cancel: "Cancel",
+    cancelPipeline: "Cancel Run",
+    continueStep: "Continue",
+    pauseBeforeStep: "Pause before each next step",
+    output_view: "Output",
+    output_edit: "Edit",
+    output_history: "History & Diff",
+    output_prompt: "Prompt",
+    outputEdited: "Edited",
+    outputRevert: "Revert to Model Output",
+    outputSave: "Save Version",
+    outputNoHistory: "No versions yet.",
+    outputSourceEdit: "analyst edit",
+    outputSourceModel: "model output",
+    outputDiffHint: "Selected version → current output used downstream",
+    outputPickVersion: "Pick a version to compare with the current output.",
+    rerunDownstream: "Re-run Downstream",
+    toolCalls: "Tool calls",
+    promptTokens: "Estimated tokens",
+    promptTruncated: "Truncated to fit budget",
+    promptSystem: "System",
+    promptUser: "User",
+    history: "Run History",
+    historyEmpty: "No saved runs yet. Every pipeline run is stored here.",
+    historyCompareHint: "Tick two runs to compare them side by side.",
+    historyRestore: "Restore",
+    historySteps: "steps",
+    historyDatasetChanged: "different dataset",
+    historyDifferentData: "These runs used different datasets.",
+    historyNotInRun: "Not part of this run",
+    historyModel: "Model",
+    historyStatus: "Status",
+    historyDuration: "Duration",
+    historyOutput: "Output",
+    rowsLoaded: "rows loaded",
+    fileUnload: "Use pasted text instead",
+    encoding: "Encoding",
+    encodingAuto: "Auto-detect",
+    delimiter: "Delimiter",
+    parseErrors: "parse errors",
+    sheet: "Sheet",
+    headerRow: "Header row",
+    headerRowHint: "Click a row to use it as the header. Rows above it are ignored.",
+    importPreview: "Parsed sample",
+    importSheet: "Import rows",
+    mappingTitle: "Column Mapping",
+    mappingHint: "Match the source columns to MedFlow fields. Suggestions come from known header names, including Chinese ones.",
+    mappingSourceColumns: "source columns",
+    mappingField: "Field",
+    mappingSource: "Source column",
+    mappingTransforms: "Transforms",
+    mappingSample: "Sample",
+    mappingUnmapped: "— not mapped —",
+    mappingSuggested: "suggested",
+    mappingDateAuto: "Auto-detect format",
+    mappingFallbackWarning: "Unmapped fields use defaults",
+    mappingLoadProfile: "Load profile…",
+    mappingNoProfiles: "No saved profiles",
+    mappingProfileName: "Profile name (e.g. supplier feed)",
+    mappingSaveProfile: "Save profile",
+    mappingProfile: "Profile",
+    mappingApply: "Apply & Parse",
+    mappingEdit: "Edit column mapping",
+    transform_trim: "trim",
+    transform_uppercase: "UPPER",
+    transform_lowercase: "lower",
+    transform_remove_spaces: "no spaces",
+    qualityScore: "Quality Score",
+    qualityTrend: "Score across loads",
+    qualityTrendEmpty: "Load more data to see the trend",
+    qualityIssues: "Issues detected",
+    qualityNoIssues: "No issues found",
+    qualityParseFailures: "Parse failures",
+    qualityCompleteness: "Completeness per field",
+    qualityDrillLimit: "Rows shown (export the report for all)",
+    quality_missing: "Missing value",
+    quality_unparsed_date: "Date could not be parsed",
+    quality_zero_quantity: "Zero quantity",
+    quality_negative_quantity: "Negative quantity (return)",
+    quality_invalid_license: "Malformed license number",
+    quality_invalid_udi: "Invalid UDI",
+    quality_udi_mismatch: "UDI lot / SN mismatch",
+    quality_category_pattern: "Category not in X.NNNN form",
+    quality_no_lot_or_serial: "No lot or serial number",
+    severity_error: "error",
+    severity_warning: "warning",
+    severity_info: "info",
+    duplicates: "Duplicates",
+    dupAll: "All",
+    dupNone: "No duplicates or conflicts found",
+    dup_reimport: "Re-imported block",
+    dup_exact: "Exact duplicate",
+    dup_serial_customers: "Serial to several customers",
+    dup_serial_repeat: "Serial delivered twice",
+    dup_lot_conflict: "Lot conflict",
+    dupHint_reimport: "A run of rows repeats earlier rows in the same order, as if the file was loaded twice.",
+    dupHint_exact: "These rows are identical in every field.",
+    dupHint_serial_customers: "One serial number should be delivered exactly once; it went to different customers.",
+    dupHint_serial_repeat: "One serial number should be delivered exactly once; it was delivered again.",
+    dupHint_lot_conflict: "The same lot appears under different models or licenses.",
+    dupKeep: "keep",
+    dupExclude: "excluded",
+    dupMergedInto: "merged into",
+    dupKeepAll: "Keep all",
+    dupMerge: "Merge",
+    dupExcludeSuggested: "Exclude copies",
+    dupSuggested: "Suggested for exclusion",
+    dupDecision: "Decision",
+    dupExcludedRows: "rows excluded",
+    dupMergedRows: "rows merged",
+    dupReset: "Reset",
+    appendMode: "Append to the loaded data (skip rows already loaded)",
+    sources: "Loaded sources",
+    sourcePasted: "Pasted text",
+    sourceSkipped: "duplicates skipped",
+    sourceRemove: "Remove",
+    exportData: "Export",
+    exportChart: "Download chart",
+    exportReport: "Report",
+    dateRange: "Delivery date",
+    datePreset_all: "All dates",
+    datePreset_last7: "Last 7 days",
+    datePreset_last30: "Last 30 days",
+    datePreset_last90: "Last 90 days",
+    datePreset_quarter: "This quarter",
+    datePreset_custom: "Custom range",
+    timeZone: "Time zone",
+    timeZoneHint: "Timestamps with an offset are counted on their day in this zone",
+    timeZoneInvalid: "Unknown time zone; dates use the browser's zone",
+    licenses: "Licenses",
+    licenseFlagged: "flagged",
+    licenseMissingRows: "rows without license",
+    licenseSearch: "License or model…",
+    licenseFlaggedOnly: "Flagged only",
+    licenseNone: "No licenses in the current data",
+    licenseModels: "Models",
+    licenseDevices: "Devices",
+    licenseCustomers: "Customers",
+    licenseAuthority: "Authority",
+    "licenseAuthority_衛部": "Ministry of Health and Welfare",
+    "licenseAuthority_衛署": "former Department of Health",
+    licenseOrigin: "Origin",
+    licenseOrigin_import: "Import",
+    licenseOrigin_domestic: "Domestic manufacture",
+    licenseSubType: "Type",
+    licenseSubType_standard: "License",
+    licenseSubType_class1: "Class I",
+    licenseSubType_mainland: "Mainland China import",
+    licenseSubType_mainland_class1: "Mainland China import, Class I",
+    licenseFlag_unparsed: "Not a recognised TFDA license number",
+    licenseFlag_unrelated_categories: "Shipped under categories from different classification panels; check the registered scope",
+    licenseFlag_unrelated_devices: "Device names share no common term; some shipments may be booked under the wrong license",
+    categoryExplorer: "Category Explorer",
+    categoryAll: "All specialties",
+    categoryShowing: "Showing",
+    categoryLeaf: "Deepest level; go back to compare",
+    categoryEmpty: "No shipments with positive quantity here",
+    categoryUncoded: "No TFDA code",
+    categoryLevel_specialty: "Specialty",
+    categoryLevel_code: "Product code",
+    categoryLevel_model: "Model",
+    categoryLevel_device: "Device",
+    specialtyAll: "All TFDA specialties",
+    forecast: "Forecast",
+    forecastActual: "Actual",
+    forecastBand: "95% band",
+    forecastBy_all: "All deliveries",
+    forecastBy_category: "By category",
+    forecastBy_supplier: "By supplier",
+    forecastBy_model: "By model",
+    forecastBy_customer: "By customer",
+    forecastWeekly: "Weekly",
+    forecastMonthly: "Monthly",
+    forecastWeeks: "weeks",
+    forecastMonths: "months",
+    forecastMape: "Backtest MAPE",
+    forecastHoldout: "held out",
+    forecastNoData: "No dated deliveries for this selection",
+    forecastMethod_holt_winters: "Seasonal smoothing",
+    forecastMethod_holt: "Trend smoothing",
+    forecastMethod_mean: "Average",
+    anomalies: "Anomalies",
+    anomalyNone: "No anomalies for this selection",
+    anomalyAllSeverities: "All severities",
+    anomalySeverity_high: "high",
+    anomalySeverity_medium: "medium",
+    anomalySeverity_low: "low",
+    anomaly_volume_spike: "Volume spike",
+    anomaly_volume_drop: "Volume drop",
+    anomaly_dormant: "Gone dormant",
+    anomaly_odd_quantity: "Odd quantity",
+    anomaly_lot_overrun: "Lot overrun",
+    anomalyHint_volume_spike: "Monthly units far above the previous months (rolling z-score). Check for stock-piling, a new contract or a data error.",
+    anomalyHint_volume_drop: "Monthly units far below the previous months (rolling z-score). Check for lost business or supply problems.",
+    anomalyHint_dormant: "No deliveries for much longer than the usual gap. The last delivery is shown.",
+    anomalyHint_odd_quantity: "One line far above what this device usually ships per line (IQR fence). Often a unit-of-measure or typing error.",
+    anomalyHint_lot_overrun: "Total units of this lot far above other lots of the same model (IQR fence). Check lot size and for mislabelled lots.",
+    pivot: "Pivot",
+    pivotRows: "Rows",
+    pivotColumns: "Columns",
+    pivotNone: "(none)",
+    pivotMeasure: "Measure",
+    pivotMeasure_units: "Units (sum of Number)",
+    pivotMeasure_rows: "Rows",
+    pivotMeasure_customers: "Distinct customers",
+    pivotMeasure_serials: "Distinct serials",
+    pivotSort: "Sort",
+    pivotSortValue: "By total",
+    pivotSortLabel: "By label",
+    pivotTotal: "Total",
+    pivotSubtotal: "subtotal",
+    pivotDrill: "Rows behind",
+    pivotDrillHint: "Click a number to see the rows behind it.",
+    pivotLineLimit: "Lines shown (export CSV for all)",
+    pivotFolded: "Columns merged into (other)",
+    pivotDim_categorySpecialty: "Specialty",
+    pivotDim_categoryCode: "Category code",
+    pivotDim_licenseOrigin: "License origin",
+    pivotDim_udiGtin: "UDI GTIN",
+    pivotDim_sourceName: "Source file",
+    pivotDim_year: "Year",
+    pivotDim_quarter: "Quarter",
+    pivotDim_month: "Month",
+    pivotDim_week: "Week (Monday)",
+    granularity_day: "Daily",
+    granularity_week: "Weekly",
+    granularity_month: "Monthly",
+    granularity_quarter: "Quarterly",
+    granularity_year: "Yearly",
+    compare_none: "No comparison",
+    compare_previous: "vs previous period",
+    compare_year: "vs same period last year",
+    periodCompare: "Latest period to date",
+    deltaNew: "new",
+    deltaWas: "was",
+    recall: "Recall Trace",
+    recallQuery: "Recall Identifiers",
+    recallPlaceholder: "Paste LotNO, SerNo, UDID, LicenseNo or Model values (one per line or comma separated)",
+    recallMatchOn: "Match On",
+    recallIdentifiers: "identifiers",
+    recallUnmatched: "Not found in dataset",
+    recallExport: "Export Notification List",
+    recallAffected: "Affected Customers",
+    recallShipments: "shipments",
+    recallEmpty: "Enter identifiers to trace affected shipments.",
   },
   "zh-TW": {
     dashboard: "儀表板",
@@ -85,7 +336,8 @@ export const I18N: Record<Lang, Record<string, string>> = {
     jackpot: "手氣不錯!",
     noData: "無數據。請上傳、粘貼或加載默認數據集。",
     parsing: "解析中...",
-    apiKeyPlaceholder: "輸入 Gemini API 金鑰 (必填)",
+    apiKeyPlaceholder: "API 金鑰",
+    apiKeys: "API 金鑰",
     apiKeyFound: "檢測到環境變量金鑰",
     runAll: "執行所有代理",
     reset: "重置",
@@ -96,10 +348,280 @@ export const I18N: Record<Lang, Record<string, string>> = {
     statusComplete: "完成",
     statusError: "錯誤",
     filters: "篩選器",
-    dropFile: "拖放文件至此或點擊上傳 (CSV, JSON, TXT)",
+    dropFile: "拖放文件至此或點擊上傳 (CSV, JSON, TXT, Excel)",
+    configLine: "行",
+    configErrors: "個 agents.yaml 錯誤",
+    runGraph: "執行圖",
+    noDependencies: "無相依",
+    retry: "嘗試",
+    cancel: "取消",
+    cancelPipeline: "取消執行",
+    continueStep: "繼續",
+    pauseBeforeStep: "每個步驟前暫停",
+    output_view: "輸出",
+    output_edit: "編輯",
+    output_history: "歷史與差異",
+    output_prompt: "提示詞",
+    outputEdited: "已編輯",
+    outputRevert: "還原為模型輸出",
+    outputSave: "儲存版本",
+    outputNoHistory: "尚無版本。",
+    outputSourceEdit: "分析師編輯",
+    outputSourceModel: "模型輸出",
+    outputDiffHint: "所選版本 → 目前下游使用的輸出",
+    outputPickVersion: "選擇一個版本與目前輸出比較。",
+    rerunDownstream: "重新執行下游",
+    toolCalls: "工具呼叫",
+    promptTokens: "預估 Token 數",
+    promptTruncated: "已截斷以符合預算",
+    promptSystem: "系統",
+    promptUser: "使用者",
+    history: "執行紀錄",
+    historyEmpty: "尚無已儲存的執行。每次管線執行都會保存在這裡。",
+    historyCompareHint: "勾選兩次執行以並排比較。",
+    historyRestore: "還原",
+    historySteps: "個步驟",
+    historyDatasetChanged: "資料集不同",
+    historyDifferentData: "這兩次執行使用了不同的資料集。",
+    historyNotInRun: "未包含在此次執行",
+    historyModel: "模型",
+    historyStatus: "狀態",
+    historyDuration: "耗時",
+    historyOutput: "輸出",
+    rowsLoaded: "列已載入",
+    fileUnload: "改用貼上的文字",
+    encoding: "編碼",
+    encodingAuto: "自動偵測",
+    delimiter: "分隔符號",
+    parseErrors: "個解析錯誤",
+    sheet: "工作表",
+    headerRow: "標題列",
+    headerRowHint: "點選一列作為標題列，其上方的列將被忽略。",
+    importPreview: "解析範例",
+    importSheet: "匯入資料列",
+    mappingTitle: "欄位對應",
+    mappingHint: "將來源欄位對應到 MedFlow 欄位。系統會依已知的欄位名稱 (含中文) 自動建議。",
+    mappingSourceColumns: "個來源欄位",
+    mappingField: "欄位",
+    mappingSource: "來源欄位",
+    mappingTransforms: "轉換",
+    mappingSample: "範例",
+    mappingUnmapped: "— 未對應 —",
+    mappingSuggested: "建議",
+    mappingDateAuto: "自動判斷格式",
+    mappingFallbackWarning: "未對應的欄位將使用預設值",
+    mappingLoadProfile: "載入設定檔…",
+    mappingNoProfiles: "尚無已儲存的設定檔",
+    mappingProfileName: "設定檔名稱 (例如供應商資料來源)",
+    mappingSaveProfile: "儲存設定檔",
+    mappingProfile: "設定檔",
+    mappingApply: "套用並解析",
+    mappingEdit: "編輯欄位對應",
+    transform_trim: "去除空白",
+    transform_uppercase: "大寫",
+    transform_lowercase: "小寫",
+    transform_remove_spaces: "移除所有空格",
+    qualityScore: "品質分數",
+    qualityTrend: "歷次載入分數",
+    qualityTrendEmpty: "載入更多資料後即可查看趨勢",
+    qualityIssues: "偵測到的問題",
+    qualityNoIssues: "未發現問題",
+    qualityParseFailures: "解析失敗",
+    qualityCompleteness: "各欄位完整度",
+    qualityDrillLimit: "顯示列數 (匯出報告可取得全部)",
+    quality_missing: "缺少值",
+    quality_unparsed_date: "日期無法解析",
+    quality_zero_quantity: "數量為零",
+    quality_negative_quantity: "數量為負 (退貨)",
+    quality_invalid_license: "許可證字號格式錯誤",
+    quality_invalid_udi: "UDI 無效",
+    quality_udi_mismatch: "UDI 批號 / 序號不符",
+    quality_category_pattern: "類別不符 X.NNNN 格式",
+    quality_no_lot_or_serial: "無批號亦無序號",
+    severity_error: "錯誤",
+    severity_warning: "警告",
+    severity_info: "資訊",
+    duplicates: "重複資料",
+    dupAll: "全部",
+    dupNone: "未發現重複或衝突",
+    dup_reimport: "重複匯入區段",
+    dup_exact: "完全重複",
+    dup_serial_customers: "序號出貨給多位客戶",
+    dup_serial_repeat: "序號重複出貨",
+    dup_lot_conflict: "批號衝突",
+    dupHint_reimport: "一段資料列依相同順序重複先前的資料列，疑似同一檔案載入兩次。",
+    dupHint_exact: "這些資料列的所有欄位皆相同。",
+    dupHint_serial_customers: "同一序號應只出貨一次，但出貨給了不同客戶。",
+    dupHint_serial_repeat: "同一序號應只出貨一次，但再次出貨。",
+    dupHint_lot_conflict: "同一批號出現在不同型號或許可證下。",
+    dupKeep: "保留",
+    dupExclude: "已排除",
+    dupMergedInto: "已合併至",
+    dupKeepAll: "全部保留",
+    dupMerge: "合併",
+    dupExcludeSuggested: "排除副本",
+    dupSuggested: "建議排除",
+    dupDecision: "處理方式",
+    dupExcludedRows: "列已排除",
+    dupMergedRows: "列已合併",
+    dupReset: "重設",
+    appendMode: "附加至已載入的資料 (略過已載入的資料列)",
+    sources: "已載入的來源",
+    sourcePasted: "貼上的文字",
+    sourceSkipped: "筆重複已略過",
+    sourceRemove: "移除",
+    exportData: "匯出",
+    exportChart: "下載圖表",
+    exportReport: "報告",
+    dateRange: "出貨日期",
+    datePreset_all: "全部日期",
+    datePreset_last7: "最近 7 天",
+    datePreset_last30: "最近 30 天",
+    datePreset_last90: "最近 90 天",
+    datePreset_quarter: "本季",
+    datePreset_custom: "自訂範圍",
+    timeZone: "時區",
+    timeZoneHint: "含時區偏移的時間戳記依此時區的日期計算",
+    timeZoneInvalid: "無法辨識的時區，日期以瀏覽器時區計算",
+    licenses: "許可證",
+    licenseFlagged: "需注意",
+    licenseMissingRows: "筆無許可證",
+    licenseSearch: "許可證或型號…",
+    licenseFlaggedOnly: "僅顯示需注意",
+    licenseNone: "目前資料中沒有許可證",
+    licenseModels: "型號",
+    licenseDevices: "品名",
+    licenseCustomers: "客戶",
+    licenseAuthority: "核發機關",
+    "licenseAuthority_衛部": "衛生福利部",
+    "licenseAuthority_衛署": "前行政院衛生署",
+    licenseOrigin: "來源",
+    licenseOrigin_import: "輸入",
+    licenseOrigin_domestic: "國產",
+    licenseSubType: "類型",
+    licenseSubType_standard: "許可證",
+    licenseSubType_class1: "第一等級",
+    licenseSubType_mainland: "陸輸",
+    licenseSubType_mainland_class1: "陸輸第一等級",
+    licenseFlag_unparsed: "非有效的醫療器材許可證字號",
+    licenseFlag_unrelated_categories: "出貨分類橫跨不同分類科別，請核對許可登記範圍",
+    licenseFlag_unrelated_devices: "品名之間無共同用詞，可能有出貨登錄在錯誤的許可證下",
+    categoryExplorer: "分類探索",
+    categoryAll: "全部科別",
+    categoryShowing: "顯示",
+    categoryLeaf: "已到最底層，可返回上層比較",
+    categoryEmpty: "此處沒有數量為正的出貨",
+    categoryUncoded: "無 TFDA 分類碼",
+    categoryLevel_specialty: "科別",
+    categoryLevel_code: "品項代碼",
+    categoryLevel_model: "型號",
+    categoryLevel_device: "品名",
+    specialtyAll: "全部 TFDA 科別",
+    forecast: "預測",
+    forecastActual: "實際",
+    forecastBand: "95% 區間",
+    forecastBy_all: "全部出貨",
+    forecastBy_category: "依分類",
+    forecastBy_supplier: "依供應商",
+    forecastBy_model: "依型號",
+    forecastBy_customer: "依客戶",
+    forecastWeekly: "每週",
+    forecastMonthly: "每月",
+    forecastWeeks: "週",
+    forecastMonths: "個月",
+    forecastMape: "回測 MAPE",
+    forecastHoldout: "保留驗證",
+    forecastNoData: "此選擇沒有含日期的出貨",
+    forecastMethod_holt_winters: "季節性平滑",
+    forecastMethod_holt: "趨勢平滑",
+    forecastMethod_mean: "平均值",
+    anomalies: "異常偵測",
+    anomalyNone: "此選擇沒有異常",
+    anomalyAllSeverities: "全部嚴重度",
+    anomalySeverity_high: "高",
+    anomalySeverity_medium: "中",
+    anomalySeverity_low: "低",
+    anomaly_volume_spike: "數量暴增",
+    anomaly_volume_drop: "數量驟減",
+    anomaly_dormant: "停止往來",
+    anomaly_odd_quantity: "異常數量",
+    anomaly_lot_overrun: "批號超量",
+    anomalyHint_volume_spike: "當月數量遠高於前幾個月（滾動 z 分數），請確認是否囤貨、新合約或資料錯誤。",
+    anomalyHint_volume_drop: "當月數量遠低於前幾個月（滾動 z 分數），請確認是否流失業務或供貨問題。",
+    anomalyHint_dormant: "超過平常間隔甚久未出貨，下方為最後一次出貨。",
+    anomalyHint_odd_quantity: "單筆數量遠高於此品項平常的單筆數量（IQR 界限），常見於單位或輸入錯誤。",
+    anomalyHint_lot_overrun: "此批號總數量遠高於同型號其他批號（IQR 界限），請確認批量大小及批號標示。",
+    pivot: "樞紐分析",
+    pivotRows: "列",
+    pivotColumns: "欄",
+    pivotNone: "(無)",
+    pivotMeasure: "量值",
+    pivotMeasure_units: "數量 (Number 加總)",
+    pivotMeasure_rows: "筆數",
+    pivotMeasure_customers: "不重複客戶數",
+    pivotMeasure_serials: "不重複序號數",
+    pivotSort: "排序",
+    pivotSortValue: "依總計",
+    pivotSortLabel: "依名稱",
+    pivotTotal: "總計",
+    pivotSubtotal: "小計",
+    pivotDrill: "明細資料",
+    pivotDrillHint: "點擊數字可檢視其明細資料。",
+    pivotLineLimit: "顯示列數 (匯出 CSV 可取得全部)",
+    pivotFolded: "併入 (other) 的欄數",
+    pivotDim_categorySpecialty: "科別",
+    pivotDim_categoryCode: "分類代碼",
+    pivotDim_licenseOrigin: "許可證來源",
+    pivotDim_udiGtin: "UDI GTIN",
+    pivotDim_sourceName: "來源檔案",
+    pivotDim_year: "年",
+    pivotDim_quarter: "季",
+    pivotDim_month: "月",
+    pivotDim_week: "週 (週一)",
+    granularity_day: "每日",
+    granularity_week: "每週",
+    granularity_month: "每月",
+    granularity_quarter: "每季",
+    granularity_year: "每年",
+    compare_none: "不比較",
+    compare_previous: "與上一期比較",
+    compare_year: "與去年同期比較",
+    periodCompare: "最新期間至今",
+    deltaNew: "新增",
+    deltaWas: "前期",
+    recall: "召回追蹤",
+    recallQuery: "召回識別碼",
+    recallPlaceholder: "貼上批號、序號、UDI、許可證字號或型號 (每行一個或以逗號分隔)",
+    recallMatchOn: "比對欄位",
+    recallIdentifiers: "個識別碼",
+    recallUnmatched: "數據集中未找到",
+    recallExport: "匯出通知清單",
+    recallAffected: "受影響客戶",
+    recallShipments: "筆出貨",
+    recallEmpty: "輸入識別碼以追蹤受影響的出貨。",
   }
 };
 
+// TFDA device classification specialties (醫療器材分類分級管理辦法), keyed by the letter that starts a category code
+export const TFDA_SPECIALTIES: Record<string, Record<Lang, string>> = {
+  A: { en: 'Clinical chemistry and clinical toxicology', 'zh-TW': '臨床化學及臨床毒理學' },
+  B: { en: 'Hematology and pathology', 'zh-TW': '血液學及病理學' },
+  C: { en: 'Immunology and microbiology', 'zh-TW': '免疫學及微生物學' },
+  D: { en: 'Anesthesiology', 'zh-TW': '麻醉學' },
+  E: { en: 'Cardiovascular', 'zh-TW': '心臟血管醫學' },
+  F: { en: 'Dental', 'zh-TW': '牙科學' },
+  G: { en: 'Ear, nose and throat', 'zh-TW': '耳鼻喉科學' },
+  H: { en: 'Gastroenterology and urology', 'zh-TW': '胃腸病科學及泌尿科學' },
+  I: { en: 'General and plastic surgery', 'zh-TW': '一般及整形外科手術' },
+  J: { en: 'General hospital and personal use', 'zh-TW': '一般醫院及個人使用裝置' },
+  K: { en: 'Neurology', 'zh-TW': '神經科學' },
+  L: { en: 'Obstetrics and gynecology', 'zh-TW': '婦產科學' },
+  M: { en: 'Ophthalmology', 'zh-TW': '眼科學' },
+  N: { en: 'Orthopedics', 'zh-TW': '骨科學' },
+  O: { en: 'Physical medicine', 'zh-TW': '物理醫學科學' },
+  P: { en: 'Radiology', 'zh-TW': '放射學科學' },
+};
+
 export const DEFAULT_SAMPLE_CSV = `Deliverdate,Number,DeviceNAME,SupplierID,CustomerID,Category
 20231001,150,"Stent-X Pro",SUP001,CUST-A,Cardiac
 20231002,200,"DermaFix",SUP002,CUST-B,Dermatology
@@ -148,20 +670,26 @@ export const DEFAULT_AGENTS_YAML = `version: "1.1"
 defaults:
   temperature: 0.2
   max_tokens: 2000
+  context_budget: 8000
+  retry:
+    max_attempts: 2
+    backoff_ms: 1000
 agents:
   - id: "01_summary"
     name: "01 | Executive Summary"
     provider: "gemini"
     model: "gemini-3-flash-preview"
     system_prompt: "You are a supply chain analyst."
-    user_prompt_template: "Analyze the following data summary and identify the top performing category. Data Summary: {{data_summary}}"
+    tools: ["top_n", "group_aggregate", "time_series"]
+    user_prompt_template: "Analyze the following data summary and identify the top performing category. Use the query tools to check figures against the dataset. Filters: {{filters}}. Data Summary: {{data_summary}}. Categories:\\n{{category_breakdown}}"
     max_tokens: 1000
   - id: "02_anomalies"
     name: "02 | Anomaly Detection"
     provider: "gemini"
     model: "gemini-3-flash-preview"
     system_prompt: "You are a risk manager."
-    user_prompt_template: "Based on the previous analysis: {{previous_output}}, identify potential risks in supply continuity."
+    depends_on: ["01_summary"]
+    user_prompt_template: "Based on the previous analysis: {{outputs.01_summary}}, explain the detected anomalies below and the risks they pose to supply continuity. Only discuss anomalies from the list.\\nAnomalies:\\n{{anomalies}}\\nTop suppliers:\\n{{top_suppliers}}\\nMonthly trend:\\n{{monthly_trend}}"
     max_tokens: 1000
 `;
 
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseAgentsYaml } from './agentConfigService';
+
+const yaml = (lines: string[]) => lines.join('\n');
+
+describe('parseAgentsYaml', () => {
+  it('fills steps from defaults and keeps their own settings', () => {
+    const { pipeline, errors } = parseAgentsYaml(yaml([
+      'version: "1"',
+      'defaults:',
+      '  provider: gemini',
+      '  model: gemini-2.5-flash',
+      '  temperature: 0.5',
+      '  retry: { max_attempts: 3, backoff_ms: 500 }',
+      'agents:',
+      '  - id: summary',
+      '    user_prompt_template: "Summarize {{data_summary}}"',
+      '  - id: review',
+      '    provider: anthropic',
+      '    model: claude-sonnet-4-5',
+      '    temperature: 0',
+      '    user_prompt_template: "Review {{previous_output}}"',
+      '    owner: qa',
+    ]));
+    expect(errors).toEqual([]);
+    expect(pipeline.agents[0]).toMatchObject({
+      provider: 'gemini', model: 'gemini-2.5-flash', temperature: 0.5, max_tokens: 2000,
+      retry: { max_attempts: 3, backoff_ms: 500 }, depends_on: [],
+    });
+    expect(pipeline.agents[1]).toMatchObject({
+      provider: 'anthropic', model: 'claude-sonnet-4-5', temperature: 0, depends_on: ['summary'], extra: { owner: 'qa' },
+    });
+  });
+
+  it('reports a dependency cycle at the depends_on line', () => {
+    const { pipeline, errors } = parseAgentsYaml(yaml([
+      'defaults: { provider: mock, model: m }',
+      'agents:',
+      '  - id: a',
+      '    depends_on: [b]',
+      '    user_prompt_template: A',
+      '  - id: b',
+      '    user_prompt_template: "B {{outputs.a}}"',
+    ]));
+    expect(pipeline).toBeNull();
+    expect(errors).toEqual([{ message: 'Dependency cycle: a → b → a', line: 4, col: 17 }]);
+  });
+
+  it('reports unknown providers, missing fields and bad values with their positions', () => {
+    const { errors } = parseAgentsYaml(yaml([
+      'agents:',
+      '  - id: a',
+      '    provider: mistral',
+      '    model: m',
+      '    max_tokens: 1.5',
+      '    user_prompt_template: A',
+      '  - id: b',
+      '    provider: mock',
+      '    depends_on: c',
+    ]));
+    expect(errors).toEqual([
+      { message: 'Unknown provider "mistral". Expected one of: gemini, openai, anthropic, grok, mock', line: 3, col: 15 },
+      { message: '"max_tokens" must be an integer', line: 5, col: 17 },
+      { message: 'Agent "b" has no "model" and defaults.model is not set', line: 7, col: 5 },
+      { message: 'Agent "b" is missing "user_prompt_template"', line: 7, col: 5 },
+      { message: 'Agent "b" depends on unknown agent "c"', line: 9, col: 17 },
+    ]);
+  });
+
+  it('reports YAML syntax errors without a pipeline', () => {
+    const { pipeline, errors } = parseAgentsYaml('agents:\n  - id: [a\n');
+    expect(pipeline).toBeNull();
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors[0].line).toBeGreaterThan(1);
+  });
+});
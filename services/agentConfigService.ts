@@ -0,0 +1,225 @@
+import { parseDocument, LineCounter, isMap, isSeq, isScalar, Node, YAMLMap } from 'yaml';
+import { AgentPipeline, AgentStep, AgentConfigError, LLMProviderId, RetryPolicy } from '../types';
+import { PROVIDERS, isProviderId } from './llmService';
+import { referencedOutputs, findCycle } from './pipelineService';
+import { QUERY_TOOL_NAMES } from './queryToolsService';
+
+const FALLBACK_DEFAULTS = { temperature: 0.2, max_tokens: 2000, context_budget: 8000, retry: { max_attempts: 1, backoff_ms: 1000 } };
+
+const TOP_KEYS = ['version', 'defaults', 'agents'];
+const STEP_KEYS = [
+  'id', 'name', 'provider', 'model', 'system_prompt', 'user_prompt_template',
+  'max_tokens', 'temperature', 'context_budget', 'depends_on', 'retry', 'tools'
+];
+
+export interface AgentConfigResult {
+  pipeline: AgentPipeline | null;
+  errors: AgentConfigError[];
+}
+
+export const parseAgentsYaml = (text: string): AgentConfigResult => {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter });
+  const errors: AgentConfigError[] = [];
+
+  const report = (node: Node | null | undefined, message: string) => {
+    const pos = lineCounter.linePos(node?.range?.[0] ?? 0);
+    errors.push({ message, line: pos.line, col: pos.col });
+  };
+
+  doc.errors.forEach(e => {
+    const pos = e.linePos?.[0] ?? { line: 1, col: 1 };
+    const message = e.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    errors.push({ message, line: pos.line, col: pos.col });
+  });
+  if (errors.length > 0) return { pipeline: null, errors };
+
+  const root = doc.contents;
+  if (!isMap(root)) {
+    report(root, 'agents.yaml must be a mapping with an "agents" list');
+    return { pipeline: null, errors };
+  }
+
+  // --- Field readers: each reports against the value node, falling back to the parent map ---
+  const valueNode = (map: YAMLMap, key: string) => map.get(key, true) as Node | undefined;
+
+  const readString = (map: YAMLMap, key: string): string | undefined => {
+    const node = valueNode(map, key);
+    if (node === undefined) return undefined;
+    if (!isScalar(node) || node.value === null || typeof node.value === 'object') {
+      report(node ?? map, `"${key}" must be a string`);
+      return undefined;
+    }
+    return String(node.value);
+  };
+
+  const readNumber = (map: YAMLMap, key: string, min: number, max: number, integer = false): number | undefined => {
+    const node = valueNode(map, key);
+    if (node === undefined) return undefined;
+    const value = isScalar(node) ? node.value : undefined;
+    if (typeof value !== 'number' || isNaN(value) || (integer && !Number.isInteger(value))) {
+      report(node, `"${key}" must be ${integer ? 'an integer' : 'a number'}`);
+      return undefined;
+    }
+    if (value < min || value > max) {
+      report(node, `"${key}" must be between ${min} and ${max}`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const readProvider = (map: YAMLMap): LLMProviderId | undefined => {
+    const provider = readString(map, 'provider');
+    if (provider === undefined) return undefined;
+    if (!isProviderId(provider)) {
+      report(valueNode(map, 'provider'), `Unknown provider "${provider}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+      return undefined;
+    }
+    return provider;
+  };
+
+  const readStringList = (map: YAMLMap, key: string): string[] | undefined => {
+    const node = valueNode(map, key);
+    if (node === undefined) return undefined;
+    if (isScalar(node) && typeof node.value === 'string') return [node.value];
+    if (!isSeq(node) || !node.items.every(i => isScalar(i) && typeof i.value === 'string')) {
+      report(node, `"${key}" must be a step id or a list of step ids`);
+      return undefined;
+    }
+    return node.items.map(i => String((i as Node & { value: string }).value));
+  };
+
+  const readRetry = (map: YAMLMap, fallback: RetryPolicy): RetryPolicy => {
+    const node = valueNode(map, 'retry');
+    if (node === undefined) return fallback;
+    if (!isMap(node)) {
+      report(node, '"retry" must be a mapping with max_attempts and backoff_ms');
+      return fallback;
+    }
+    return {
+      max_attempts: readNumber(node, 'max_attempts', 1, 10, true) ?? fallback.max_attempts,
+      backoff_ms: readNumber(node, 'backoff_ms', 0, 60_000, true) ?? fallback.backoff_ms,
+    };
+  };
+
+  // `tools: all` or a list of query tool names
+  const readTools = (map: YAMLMap, provider: LLMProviderId | undefined): string[] => {
+    const node = valueNode(map, 'tools');
+    if (node === undefined) return [];
+    const tools = isScalar(node) && node.value === 'all' ? [...QUERY_TOOL_NAMES] : readStringList(map, 'tools');
+    if (!tools) return [];
+    const unknown = tools.filter(name => !QUERY_TOOL_NAMES.includes(name));
+    if (unknown.length > 0) {
+      report(node, `Unknown tool(s) ${unknown.join(', ')}. Available: ${QUERY_TOOL_NAMES.join(', ')}`);
+    }
+    if (tools.length > 0 && provider && !PROVIDERS[provider].supportsTools) {
+      report(node, `Provider "${provider}" does not support tool calling`);
+    }
+    return tools.filter(name => QUERY_TOOL_NAMES.includes(name));
+  };
+
+  const collectExtra = (map: YAMLMap, known: string[]): Record<string, unknown> => {
+    const extra: Record<string, unknown> = {};
+    map.items.forEach(pair => {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      if (known.includes(key)) return;
+      extra[key] = isScalar(pair.value) || isMap(pair.value) || isSeq(pair.value) ? pair.value.toJSON() : null;
+    });
+    return extra;
+  };
+
+  // --- version & defaults ---
+  const version = readString(root, 'version') ?? '';
+
+  const defaults: AgentPipeline['defaults'] = { ...FALLBACK_DEFAULTS };
+  const defaultsNode = valueNode(root, 'defaults');
+  if (defaultsNode !== undefined) {
+    if (!isMap(defaultsNode)) {
+      report(defaultsNode, '"defaults" must be a mapping');
+    } else {
+      defaults.temperature = readNumber(defaultsNode, 'temperature', 0, 2) ?? defaults.temperature;
+      defaults.max_tokens = readNumber(defaultsNode, 'max_tokens', 1, 1_000_000, true) ?? defaults.max_tokens;
+      defaults.context_budget = readNumber(defaultsNode, 'context_budget', 0, 2_000_000, true) ?? defaults.context_budget;
+      defaults.provider = readProvider(defaultsNode);
+      defaults.model = readString(defaultsNode, 'model');
+      defaults.retry = readRetry(defaultsNode, defaults.retry);
+    }
+  }
+
+  // --- agents ---
+  const agentsNode = valueNode(root, 'agents');
+  const agents: AgentStep[] = [];
+  const dependsNodes = new Map<string, Node>();
+  if (agentsNode === undefined || !isSeq(agentsNode)) {
+    report(agentsNode ?? root, '"agents" must be a list of agent definitions');
+  } else {
+    const seen = new Set<string>();
+    agentsNode.items.forEach((item, index) => {
+      if (!isMap(item)) {
+        report(item as Node, `Agent #${index + 1} must be a mapping`);
+        return;
+      }
+      const id = readString(item, 'id');
+      if (!id) {
+        report(item, `Agent #${index + 1} is missing "id"`);
+        return;
+      }
+      if (seen.has(id)) report(valueNode(item, 'id'), `Duplicate agent id "${id}"`);
+      seen.add(id);
+
+      const hasProvider = valueNode(item, 'provider') !== undefined;
+      const provider = hasProvider ? readProvider(item) : defaults.provider;
+      if (!hasProvider && !provider) report(item, `Agent "${id}" has no "provider" and defaults.provider is not set`);
+      const model = readString(item, 'model') ?? defaults.model;
+      if (!model) report(item, `Agent "${id}" has no "model" and defaults.model is not set`);
+
+      const template = readString(item, 'user_prompt_template');
+      if (template === undefined) report(item, `Agent "${id}" is missing "user_prompt_template"`);
+
+      // Without an explicit depends_on, {{previous_output}} keeps its old meaning: the step declared before.
+      // Steps referenced as {{outputs.<id>}} are always added as dependencies.
+      const explicitDeps = readStringList(item, 'depends_on');
+      const deps = explicitDeps
+        ?? (/\{\{\s*previous_output\s*\}\}/.test(template ?? '') && agents.length > 0 ? [agents[agents.length - 1].id] : []);
+      referencedOutputs(template ?? '').forEach(ref => { if (!deps.includes(ref)) deps.push(ref); });
+      dependsNodes.set(id, valueNode(item, 'depends_on') ?? valueNode(item, 'user_prompt_template') ?? item);
+
+      agents.push({
+        id,
+        name: readString(item, 'name') ?? id,
+        provider: provider ?? 'gemini',
+        model: model ?? '',
+        system_prompt: readString(item, 'system_prompt') ?? '',
+        user_prompt_template: template ?? '',
+        max_tokens: readNumber(item, 'max_tokens', 1, 1_000_000, true) ?? defaults.max_tokens,
+        temperature: readNumber(item, 'temperature', 0, 2) ?? defaults.temperature,
+        context_budget: readNumber(item, 'context_budget', 0, 2_000_000, true) ?? defaults.context_budget,
+        depends_on: deps,
+        retry: readRetry(item, defaults.retry),
+        tools: readTools(item, provider),
+        toolCalls: [],
+        status: 'idle',
+        attempts: 0,
+        output: '',
+        versions: [],
+        extra: collectExtra(item, STEP_KEYS),
+      });
+    });
+    if (agentsNode.items.length === 0) report(agentsNode, '"agents" must contain at least one agent');
+
+    agents.forEach(step => {
+      step.depends_on.forEach(dep => {
+        if (!seen.has(dep)) report(dependsNodes.get(step.id), `Agent "${step.id}" depends on unknown agent "${dep}"`);
+      });
+    });
+    const cycle = findCycle(agents);
+    if (cycle) report(dependsNodes.get(cycle[0]), `Dependency cycle: ${cycle.join(' → ')}`);
+  }
+
+  if (errors.length > 0) return { pipeline: null, errors };
+
+  return {
+    pipeline: { version, defaults, agents, extra: collectExtra(root, TOP_KEYS) },
+    errors,
+  };
+};
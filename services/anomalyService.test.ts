@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Anomaly } from '../types';
+import { detectAnomalies, anomaliesMarkdown } from './anomalyService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader('Deliverdate,SupplierID,CustomerID,DeviceNAME,Model,LotNO,Number');
+
+describe('detectAnomalies', () => {
+  it('flags a month far above the rolling history of a customer and a device', () => {
+    const data = load([
+      ...[1, 2, 3, 4, 5, 6].map(m => `20250${m}10,S1,C1,Stent,M1,,10`),
+      '20250710,S1,C1,Stent,M1,,100',
+    ]);
+    const anomalies = detectAnomalies(data);
+    expect(anomalies.map(a => [a.kind, a.severity, a.subject, a.period])).toEqual([
+      ['volume_spike', 'high', 'Customer C1', '2025-07'],
+      ['volume_spike', 'high', 'Device Stent', '2025-07'],
+    ]);
+    expect(anomalies[0].rowIds).toEqual([data[6].id]);
+  });
+
+  it('counts months without deliveries as zero', () => {
+    const data = load([
+      ...[1, 2, 3, 4, 5, 6].map(m => `20250${m}10,S1,C2,Mesh,M2,,10`),
+      '20250710,S1,C1,Stent,M1,,10',
+    ]);
+    expect(detectAnomalies(data)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'volume_drop', subject: 'Customer C2', period: '2025-07', rowIds: [] }),
+    ]));
+  });
+
+  it('flags suppliers silent for many of their usual gaps', () => {
+    const data = load([
+      ...['01', '08', '15', '22', '29'].map(d => `202501${d},S2,C1,Stent,M1,,1`),
+      '20250430,S1,C1,Stent,M1,,1',
+    ]);
+    expect(detectAnomalies(data)).toEqual([
+      expect.objectContaining({ kind: 'dormant', severity: 'high', subject: 'Supplier S2', period: '2025-01-29 →', rowIds: [data[4].id] }),
+    ]);
+  });
+
+  it('flags outlying lines and lots, with or without dates', () => {
+    const lines = load([
+      ...[1, 1, 1, 1, 2, 2, 2, 2, 1, 1].map(n => `unknown,S1,C1,Stent,,,${n}`),
+      'unknown,S1,C9,Stent,,,60',
+    ]);
+    expect(detectAnomalies(lines)).toEqual([
+      expect.objectContaining({ kind: 'odd_quantity', severity: 'high', subject: 'Device Stent', rowIds: [lines[10].id] }),
+    ]);
+
+    const lots = load([...[1, 2, 3, 4].map(i => `unknown,S1,C1,Stent,M1,L${i},2`), 'unknown,S1,C1,Stent,M1,L5,40']);
+    expect(detectAnomalies(lots)).toEqual([
+      expect.objectContaining({ kind: 'lot_overrun', severity: 'high', subject: 'Lot L5 (M1)', period: '' }),
+    ]);
+  });
+
+  it('finds nothing in steady data', () => {
+    expect(detectAnomalies(load([1, 2, 3, 4, 5, 6, 7, 8, 9].map(m => `20250${m}10,S1,C1,Stent,M1,L${m},5`)))).toEqual([]);
+  });
+});
+
+describe('anomaliesMarkdown', () => {
+  const anomaly = (i: number): Anomaly => ({
+    id: `a${i}`, kind: 'dormant', severity: 'medium', subject: `Supplier S${i}`, period: 'p', detail: 'd', score: 1, rowIds: [],
+  });
+
+  it('tables the top findings and says how many were left out', () => {
+    const markdown = anomaliesMarkdown([1, 2, 3].map(anomaly), 2).split('\n');
+    expect(markdown[0]).toBe('3 anomalies detected (top 2 shown).');
+    expect(markdown.slice(4)).toEqual(['| medium | dormant | Supplier S1 | p | d |', '| medium | dormant | Supplier S2 | p | d |']);
+    expect(anomaliesMarkdown([])).toBe('No statistical anomalies detected in the current selection.');
+  });
+});
@@ -0,0 +1,198 @@
+import { MedFlowRow, Anomaly, AnomalyKind, AnomalySeverity } from '../types';
+import { formatDate } from './exportService';
+import { groupBy } from './groupService';
+
+export const ANOMALY_KINDS: AnomalyKind[] = ['volume_spike', 'volume_drop', 'dormant', 'odd_quantity', 'lot_overrun'];
+
+const SEVERITY_ORDER: AnomalySeverity[] = ['high', 'medium', 'low'];
+
+// Rolling z-score: each month is compared with up to WINDOW months before it, once MIN_HISTORY exist
+const WINDOW = 6;
+const MIN_HISTORY = 4;
+const Z_MEDIUM = 3;
+const Z_HIGH = 5;
+
+// Dormancy: silence longer than this many typical gaps, and at least MIN_DORMANT_DAYS
+const DORMANT_GAPS = 3;
+const MIN_DORMANT_DAYS = 30;
+const MIN_DELIVERY_DAYS = 3;
+
+// Quantity outliers lie beyond Q3 + IQR_FENCE × IQR of their device's lines (or model's lots)
+const IQR_FENCE = 3;
+const MIN_LINES = 8;
+const MIN_LOTS = 4;
+
+const DAY_MS = 86400000;
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const units = (rows: MedFlowRow[]) => rows.reduce((acc, r) => acc + r.Number, 0);
+
+const quantile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+// Upper fence of a distribution; the IQR is at least 1 so identical values (all 1s) still have a range
+const upperFence = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  return { q1, q3, median: quantile(sorted, 0.5), fence: q3 + IQR_FENCE * Math.max(q3 - q1, 1) };
+};
+
+// --- Detectors ---
+
+const monthOf = (row: MedFlowRow) => formatDate(row.parsedDate).slice(0, 7);
+
+const nextMonth = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return formatDate(new Date(y, m, 1)).slice(0, 7);
+};
+
+/**
+ * Monthly units per customer and per device against the mean and standard deviation of the
+ * preceding months. The deviation is at least √mean (Poisson noise), so a flat history does not
+ * turn every small change into an anomaly.
+ */
+const volumeAnomalies = (rows: MedFlowRow[], lastMonth: string): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  const dimensions: [string, (row: MedFlowRow) => string][] = [['Customer', r => r.CustomerID], ['Device', r => r.DeviceNAME]];
+  dimensions.forEach(([label, key]) => {
+    groupBy(rows, key).forEach((group, value) => {
+      const byMonth = groupBy(group, monthOf);
+      const months: string[] = [];
+      for (let m = Array.from(byMonth.keys()).sort()[0]; m <= lastMonth; m = nextMonth(m)) months.push(m);
+      const series = months.map(m => units(byMonth.get(m) ?? []));
+      for (let t = MIN_HISTORY; t < series.length; t++) {
+        const window = series.slice(Math.max(0, t - WINDOW), t);
+        const mean = window.reduce((a, b) => a + b, 0) / window.length;
+        const variance = window.reduce((a, b) => a + (b - mean) ** 2, 0) / (window.length - 1);
+        const sd = Math.max(Math.sqrt(variance), Math.sqrt(Math.abs(mean)), 1);
+        const z = (series[t] - mean) / sd;
+        if (Math.abs(z) < Z_MEDIUM) continue;
+        const kind: AnomalyKind = z > 0 ? 'volume_spike' : 'volume_drop';
+        anomalies.push({
+          id: `${kind}:${label}:${value}:${months[t]}`,
+          kind,
+          severity: Math.abs(z) >= Z_HIGH ? 'high' : 'medium',
+          subject: `${label} ${value}`,
+          period: months[t],
+          detail: `${series[t]} units vs ${round(mean)} average over the previous ${window.length} months (z = ${round(z)})`,
+          score: Math.abs(z),
+          rowIds: (byMonth.get(months[t]) ?? []).map(r => r.id),
+        });
+      }
+    });
+  });
+  return anomalies;
+};
+
+// Suppliers and customers silent for much longer than their usual gap between deliveries
+const dormantAnomalies = (rows: MedFlowRow[], lastTime: number): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  const dimensions: [string, (row: MedFlowRow) => string][] = [['Supplier', r => r.SupplierID], ['Customer', r => r.CustomerID]];
+  dimensions.forEach(([label, key]) => {
+    groupBy(rows, key).forEach((group, value) => {
+      const days = Array.from(new Set(group.map(r => Math.round(r.parsedDate!.getTime() / DAY_MS)))).sort((a, b) => a - b);
+      if (days.length < MIN_DELIVERY_DAYS) return;
+      const gaps = days.slice(1).map((d, i) => d - days[i]).sort((a, b) => a - b);
+      const typical = Math.max(quantile(gaps, 0.5), 1);
+      const since = Math.round(lastTime / DAY_MS) - days[days.length - 1];
+      if (since < MIN_DORMANT_DAYS || since < DORMANT_GAPS * typical) return;
+      const ratio = since / typical;
+      const lastDate = formatDate(new Date(group.reduce((max, r) => Math.max(max, r.parsedDate!.getTime()), 0)));
+      anomalies.push({
+        id: `dormant:${label}:${value}`,
+        kind: 'dormant',
+        severity: ratio >= 2 * DORMANT_GAPS ? 'high' : 'medium',
+        subject: `${label} ${value}`,
+        period: `${lastDate} →`,
+        detail: `No delivery for ${since} days; usually every ${round(typical, 0)} days (${days.length} delivery days)`,
+        score: ratio,
+        rowIds: group.filter(r => formatDate(r.parsedDate) === lastDate).map(r => r.id),
+      });
+    });
+  });
+  return anomalies;
+};
+
+// Single lines far above what the device usually ships per line
+const quantityAnomalies = (rows: MedFlowRow[]): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  groupBy(rows, r => r.DeviceNAME).forEach((group, device) => {
+    const lines = group.filter(r => r.Number > 0);
+    if (lines.length < MIN_LINES) return;
+    const { q1, q3, median, fence } = upperFence(lines.map(r => r.Number));
+    lines.filter(r => r.Number > fence).forEach(row => {
+      const ratio = row.Number / Math.max(median, 1);
+      anomalies.push({
+        id: `odd_quantity:${row.id}`,
+        kind: 'odd_quantity',
+        severity: ratio >= 20 ? 'high' : ratio >= 5 ? 'medium' : 'low',
+        subject: `Device ${device}`,
+        period: formatDate(row.parsedDate) || row.Deliverdate,
+        detail: `${row.Number} units in one line to ${row.CustomerID} vs usual ${round(q1)}–${round(q3)} (median ${round(median)})`,
+        score: ratio,
+        rowIds: [row.id],
+      });
+    });
+  });
+  return anomalies;
+};
+
+// Lots whose total delivered units are far above the other lots of the same model
+const lotAnomalies = (rows: MedFlowRow[]): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+  groupBy(rows.filter(r => r.LotNO), r => r.Model || r.DeviceNAME).forEach((group, model) => {
+    const lots = Array.from(groupBy(group, r => r.LotNO).entries()).map(([lot, lotRows]) => ({ lot, rows: lotRows, units: units(lotRows) }));
+    if (lots.length < MIN_LOTS) return;
+    const { q3, median, fence } = upperFence(lots.map(l => l.units));
+    lots.filter(l => l.units > fence).forEach(l => {
+      const ratio = l.units / Math.max(median, 1);
+      const dates = l.rows.map(r => formatDate(r.parsedDate)).filter(Boolean).sort();
+      anomalies.push({
+        id: `lot_overrun:${model}:${l.lot}`,
+        kind: 'lot_overrun',
+        severity: ratio >= 10 ? 'high' : ratio >= 3 ? 'medium' : 'low',
+        subject: `Lot ${l.lot} (${model})`,
+        period: dates.length ? `${dates[0]} – ${dates[dates.length - 1]}` : '',
+        detail: `${l.units} units over ${l.rows.length} lines vs median ${round(median)} per lot (Q3 ${round(q3)}, ${lots.length} lots)`,
+        score: ratio,
+        rowIds: l.rows.map(r => r.id),
+      });
+    });
+  });
+  return anomalies;
+};
+
+/**
+ * Runs every detector on the rows in view. Volume and dormancy need dates, so undated rows only
+ * count towards quantity and lot checks. Sorted by severity, then by how far out they are.
+ */
+export const detectAnomalies = (rows: MedFlowRow[]): Anomaly[] => {
+  const dated = rows.filter(r => r.parsedDate);
+  const anomalies = [...quantityAnomalies(rows), ...lotAnomalies(rows)];
+  if (dated.length > 0) {
+    const lastTime = dated.reduce((max, r) => Math.max(max, r.parsedDate!.getTime()), 0);
+    anomalies.push(...volumeAnomalies(dated, formatDate(new Date(lastTime)).slice(0, 7)), ...dormantAnomalies(dated, lastTime));
+  }
+  return anomalies.sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.score - a.score
+  );
+};
+
+// The `anomalies` prompt variable: the detector's findings, so the model explains rather than guesses
+export const anomaliesMarkdown = (anomalies: Anomaly[], limit = 30): string => {
+  if (anomalies.length === 0) return 'No statistical anomalies detected in the current selection.';
+  const rows = anomalies.slice(0, limit).map(a => `| ${a.severity} | ${a.kind} | ${a.subject} | ${a.period} | ${a.detail} |`.replace(/\n/g, ' '));
+  return [
+    `${anomalies.length} anomalies detected${anomalies.length > limit ? ` (top ${limit} shown)` : ''}.`,
+    '',
+    '| Severity | Kind | Subject | Period | Detail |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows,
+  ].join('\n');
+};
@@ -0,0 +1,58 @@
+import { LLMProvider, LLMRequest } from '../types';
+import { readSSE } from './streamService';
+
+export const callAnthropicAgent = async (request: LLMRequest): Promise<string> => {
+  const stream = !!request.onToken;
+  const res = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    signal: request.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': request.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Required for calls made directly from the browser
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    body: JSON.stringify({
+      model: request.model,
+      system: request.systemInstruction,
+      messages: [{ role: 'user', content: request.prompt }],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream
+    })
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(`Anthropic API error (${res.status}): ${body?.error?.message || res.statusText}`);
+  }
+
+  if (stream) {
+    let text = '';
+    await readSSE(res, event => {
+      if (event?.type === 'error') throw new Error(`Anthropic API error: ${event.error?.message}`);
+      if (event?.type !== 'content_block_delta' || event.delta?.type !== 'text_delta') return;
+      text += event.delta.text;
+      request.onToken!(event.delta.text);
+    });
+    return text || "No response generated.";
+  }
+
+  const body = await res.json();
+  const text = (body?.content || [])
+    .filter((block: any) => block.type === 'text')
+    .map((block: any) => block.text)
+    .join('');
+  return text || "No response generated.";
+};
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  requiresApiKey: true,
+  supportsTools: false,
+  modelPattern: /^claude-/,
+  defaultModel: 'claude-3-5-haiku-latest',
+  generate: callAnthropicAgent
+};
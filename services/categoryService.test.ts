@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { GlobalFilters } from '../types';
+import { categoryNodes, categoryPath, parseCategory } from './categoryService';
+import { rowLoader } from './testRows';
+
+const FILTERS: GlobalFilters = {
+  dateRange: ['', ''], topN: 10, searchSupplier: '', category: '', licenseNo: '', model: '', lotNo: '', serNo: '',
+  customerID: '', specialty: '', deviceName: '', timeZone: '',
+};
+
+const load = rowLoader('Deliverdate,Category,Model,DeviceNAME,Number');
+
+describe('parseCategory', () => {
+  it('splits the panel letter, code and name', () => {
+    expect(parseCategory('E.3610 Implantable pacemaker')).toEqual({ specialty: 'E', code: 'E.3610', name: 'Implantable pacemaker' });
+    expect(parseCategory(' J.5000.1：彈性繃帶')).toEqual({ specialty: 'J', code: 'J.5000.1', name: '彈性繃帶' });
+    expect(parseCategory('E3610-Pacemaker')).toEqual({ specialty: 'E', code: 'E.3610', name: 'Pacemaker' });
+  });
+
+  it('keeps values without a recognizable code as the name', () => {
+    expect(parseCategory('Pacemaker')).toEqual({ specialty: '', code: '', name: 'Pacemaker' });
+    expect(parseCategory('e.3610 lowercase')).toEqual({ specialty: '', code: '', name: 'e.3610 lowercase' });
+    expect(parseCategory('E.361 short')).toEqual({ specialty: '', code: '', name: 'E.361 short' });
+  });
+});
+
+describe('categoryNodes', () => {
+  const rows = load([
+    '20250101,E.3610 Pacemaker,P1,Pacer,2',
+    '20250102,E.3610 Pacemaker,P2,Pacer,1',
+    '20250103,E.3620 Lead,L1,Lead,4',
+    '20250104,General wound care,W1,Gauze,1',
+  ]);
+
+  it('sums units per node at each level, largest first', () => {
+    expect(categoryNodes(rows, 'specialty').map(n => [n.key, n.units, n.rows])).toEqual([['E', 7, 3], ['', 1, 1]]);
+    expect(categoryNodes(rows, 'code')).toEqual([
+      { key: 'E.3620', name: 'E.3620', detail: 'Lead', units: 4, rows: 1 },
+      { key: 'E.3610', name: 'E.3610', detail: 'Pacemaker', units: 3, rows: 2 },
+      { key: 'General wound care', name: 'General wound care', detail: '', units: 1, rows: 1 },
+    ]);
+  });
+});
+
+describe('categoryPath', () => {
+  it('follows the filters down to the first unset level', () => {
+    expect(categoryPath(FILTERS)).toEqual([]);
+    expect(categoryPath({ ...FILTERS, specialty: 'E', category: 'E.3610', deviceName: 'Pacer' })).toEqual(['E', 'E.3610']);
+  });
+});
@@ -0,0 +1,70 @@
+import { MedFlowRow, CategoryInfo, CategoryLevel, GlobalFilters } from '../types';
+
+// Letter, dot, four digits and an optional sub-code, e.g. "E.3610", "J.5000.1"; tolerant of a missing dot
+const CODE_RE = /^([A-Z])\.?(\d{4}(?:\.\d+)?)\s*[-:：]?\s*/;
+
+export const parseCategory = (value: string): CategoryInfo => {
+  const s = value.trim();
+  const m = CODE_RE.exec(s);
+  if (!m) return { specialty: '', code: '', name: s };
+  return { specialty: m[1], code: `${m[1]}.${m[2]}`, name: s.slice(m[0].length) };
+};
+
+// --- Drill-down ---
+
+export const CATEGORY_LEVELS: CategoryLevel[] = ['specialty', 'code', 'model', 'device'];
+
+// The global filter each level sets when a node is opened
+export const LEVEL_FILTER: Record<CategoryLevel, keyof GlobalFilters> = {
+  specialty: 'specialty',
+  code: 'category',
+  model: 'model',
+  device: 'deviceName',
+};
+
+export interface CategoryNode {
+  key: string; // filter value; '' when the node cannot be opened (e.g. rows without a code)
+  name: string; // code or value, for display
+  detail: string; // category name, or '' below the code level
+  units: number;
+  rows: number;
+}
+
+const nodeOf = (row: MedFlowRow, level: CategoryLevel): Pick<CategoryNode, 'key' | 'name' | 'detail'> => {
+  switch (level) {
+    case 'specialty': return { key: row.categorySpecialty, name: row.categorySpecialty, detail: '' };
+    // Uncoded categories are filtered by their full text
+    case 'code': return row.categoryCode
+      ? { key: row.categoryCode, name: row.categoryCode, detail: row.categoryName }
+      : { key: row.Category, name: row.Category, detail: '' };
+    case 'model': return { key: row.Model, name: row.Model, detail: '' };
+    case 'device': return { key: row.DeviceNAME, name: row.DeviceNAME, detail: '' };
+  }
+};
+
+// Children at `level` of the rows in view, largest first
+export const categoryNodes = (rows: MedFlowRow[], level: CategoryLevel): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>();
+  rows.forEach(row => {
+    const base = nodeOf(row, level);
+    const node = nodes.get(base.key) ?? { ...base, units: 0, rows: 0 };
+    node.units += row.Number;
+    node.rows++;
+    nodes.set(base.key, node);
+  });
+  return Array.from(nodes.values()).sort((a, b) => b.units - a.units);
+};
+
+/**
+ * The drill-down path implied by the filters: the leading levels whose filter is set.
+ * A typed-in filter shows up as a step of the path just like a clicked node.
+ */
+export const categoryPath = (filters: GlobalFilters): string[] => {
+  const path: string[] = [];
+  for (const level of CATEGORY_LEVELS) {
+    const value = filters[LEVEL_FILTER[level]] as string;
+    if (!value) break;
+    path.push(value);
+  }
+  return path;
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { GlobalFilters } from '../types';
+import { parseData } from './dataService';
+import { buildForecast } from './forecastService';
+import { buildContextVariables, describeFilters, estimateTokens, renderWithBudget } from './contextBuilderService';
+import { rowLoader } from './testRows';
+
+const FILTERS: GlobalFilters = {
+  dateRange: ['', ''], topN: 10, searchSupplier: '', category: '', licenseNo: '', model: '', lotNo: '', serNo: '',
+  customerID: '', specialty: '', deviceName: '', timeZone: '',
+};
+
+const load = rowLoader();
+const noForecast = buildForecast([], { dimension: 'all', value: '', granularity: 'month', horizon: 3 });
+
+describe('buildContextVariables', () => {
+  it('summarizes large datasets without running out of stack', () => {
+    const [base] = load(['20250101,S1,C1,1']);
+    const rows = Array.from({ length: 200_000 }, (_, i) => ({ ...base, id: `row-${i}`, parsedDate: new Date(2024, 0, 1 + (i % 500)) }));
+    rows.push({ ...base, id: 'undated', parsedDate: null });
+    const summary = JSON.parse(buildContextVariables(rows, FILTERS, noForecast, []).data_summary);
+    expect(summary).toMatchObject({ rows: 200_001, totalUnits: 200_001, dateRange: ['2024-01-01', '2025-05-14'] });
+  });
+
+  it('has no date range without dated rows', () => {
+    const vars = buildContextVariables(load(['unknown,S1,C1,1']), FILTERS, noForecast, []);
+    expect(JSON.parse(vars.data_summary).dateRange).toBeNull();
+  });
+
+  it('quotes sample_rows fields that contain delimiters, quotes or line breaks', () => {
+    const rows = load(['20250101,"Acme, Inc.","Clinic ""North""",2']);
+    const lines = buildContextVariables(rows, FILTERS, noForecast, []).sample_rows.split('\r\n');
+    expect(lines[0]).toBe('Deliverdate,SupplierID,CustomerID,Category,Model,LotNO,SerNo,Number');
+    expect(lines[1]).toMatch(/^20250101,"Acme, Inc.","Clinic ""North""",/);
+    expect(parseData(lines.join('\n')).data[0]).toMatchObject({ SupplierID: 'Acme, Inc.', CustomerID: 'Clinic "North"', Number: 2 });
+  });
+});
+
+describe('describeFilters', () => {
+  it('lists the active filters, dates first', () => {
+    expect(describeFilters(FILTERS)).toBe('none (full dataset)');
+    expect(describeFilters({ ...FILTERS, dateRange: ['2025-01-01', ''], model: 'M1', timeZone: 'Asia/Taipei' }))
+      .toBe('Deliverdate from 2025-01-01; Model contains "M1"; dates in Asia/Taipei');
+  });
+});
+
+describe('renderWithBudget', () => {
+  const vars = { variables: { small: 'tiny', big: 'x'.repeat(4000) }, outputs: {} };
+
+  it('cuts the large variables to fit and keeps small ones whole', () => {
+    const prompt = renderWithBudget('system', 'A {{small}} B {{big}}', vars, 200);
+    expect(prompt.truncated).toEqual(['big']);
+    expect(prompt.tokens).toBeLessThanOrEqual(200);
+    expect(prompt.user).toMatch(/^A tiny B x+\n…\[truncated \d+ tokens\]$/);
+  });
+
+  it('leaves prompts within budget, or without one, untouched', () => {
+    expect(renderWithBudget('', '{{big}}', vars, 0)).toMatchObject({ user: vars.variables.big, tokens: 1000, truncated: [] });
+    expect(renderWithBudget('', '{{small}}', vars, 10).truncated).toEqual([]);
+  });
+
+  it('counts CJK characters as a token each', () => {
+    expect(estimateTokens('交貨日期')).toBe(4);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+  });
+});
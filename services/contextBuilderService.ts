@@ -0,0 +1,189 @@
+import { MedFlowRow, GlobalFilters, RenderedPrompt, ForecastResult, Anomaly } from '../types';
+import { formatDate, toCSV } from './exportService';
+import { renderPromptTemplate, PromptVariables } from './pipelineService';
+import { forecastMarkdown } from './forecastService';
+import { anomaliesMarkdown } from './anomalyService';
+
+// Template variables available to every agent prompt, with a short description for the UI
+export const CONTEXT_VARIABLES: Record<string, string> = {
+  data_summary: 'Totals, distinct counts, top 5 categories by units and date range',
+  top_suppliers: 'Top 10 suppliers by units (rows, customers, share)',
+  monthly_trend: 'Units and rows per delivery month',
+  category_breakdown: 'Units, share and model count per category',
+  sample_rows: 'First 20 rows as CSV',
+  filters: 'Active global filters',
+  forecast: 'Demand forecast from the Unit Trend chart, with 95% bands and backtest MAPE',
+  anomalies: 'Statistically detected anomalies (volume spikes/drops, dormancy, odd quantities, lot overruns)',
+};
+
+// CJK characters are roughly one token each; other text averages about four characters per token
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+const markdownTable = (headers: string[], rows: (string | number)[][]): string => {
+  const line = (cells: (string | number)[]) => `| ${cells.map(c => String(c).replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [line(headers), line(headers.map(() => '---')), ...rows.map(line)].join('\n');
+};
+
+const share = (part: number, total: number) => total ? `${Math.round((part / total) * 1000) / 10}%` : '0%';
+
+const sumBy = (rows: MedFlowRow[], key: (r: MedFlowRow) => string) => {
+  const agg = new Map<string, MedFlowRow[]>();
+  rows.forEach(r => {
+    const k = key(r);
+    if (!agg.has(k)) agg.set(k, []);
+    agg.get(k)!.push(r);
+  });
+  return Array.from(agg.entries())
+    .map(([k, group]) => ({ key: k, rows: group, units: group.reduce((acc, r) => acc + r.Number, 0) }))
+    .sort((a, b) => b.units - a.units);
+};
+
+const FILTER_LABELS: Partial<Record<keyof GlobalFilters, string>> = {
+  searchSupplier: 'SupplierID',
+  category: 'Category',
+  licenseNo: 'LicenseNo',
+  model: 'Model',
+  lotNo: 'LotNO',
+  serNo: 'SerNo',
+  customerID: 'CustomerID',
+  deviceName: 'DeviceNAME',
+};
+
+export const describeFilters = (filters: GlobalFilters): string => {
+  const parts = (Object.keys(FILTER_LABELS) as (keyof GlobalFilters)[])
+    .filter(k => filters[k])
+    .map(k => `${FILTER_LABELS[k]} contains "${filters[k]}"`);
+  const [from, to] = filters.dateRange;
+  if (from && to) parts.unshift(`Deliverdate ${from} to ${to}`);
+  else if (from) parts.unshift(`Deliverdate from ${from}`);
+  else if (to) parts.unshift(`Deliverdate until ${to}`);
+  if (filters.specialty) parts.push(`TFDA specialty ${filters.specialty}`);
+  if (filters.timeZone.trim()) parts.push(`dates in ${filters.timeZone.trim()}`);
+  return parts.length ? parts.join('; ') : 'none (full dataset)';
+};
+
+export const buildContextVariables = (
+  rows: MedFlowRow[],
+  filters: GlobalFilters,
+  forecast: ForecastResult,
+  anomalies: Anomaly[]
+): Record<string, string> => {
+  const totalUnits = rows.reduce((acc, r) => acc + r.Number, 0);
+  // Reduced rather than spread into Math.min/max: an argument per row overflows the stack on large files
+  const [first, last] = rows.reduce<[number, number]>(([min, max], r) => {
+    const time = r.parsedDate?.getTime();
+    return time === undefined ? [min, max] : [Math.min(min, time), Math.max(max, time)];
+  }, [Infinity, -Infinity]);
+  const categories = sumBy(rows, r => r.Category);
+  const suppliers = sumBy(rows, r => r.SupplierID);
+  const months = sumBy(rows, r => r.parsedDate ? formatDate(r.parsedDate).slice(0, 7) : '(no date)')
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    data_summary: JSON.stringify({
+      rows: rows.length,
+      totalUnits,
+      uniqueSuppliers: suppliers.length,
+      uniqueCustomers: new Set(rows.map(r => r.CustomerID)).size,
+      topCategories: categories.slice(0, 5).map(c => ({ category: c.key, units: c.units })),
+      dateRange: first <= last ? [formatDate(new Date(first)), formatDate(new Date(last))] : null,
+    }),
+    top_suppliers: markdownTable(
+      ['SupplierID', 'Units', 'Rows', 'Customers', 'Share'],
+      suppliers.slice(0, 10).map(s => [s.key, s.units, s.rows.length, new Set(s.rows.map(r => r.CustomerID)).size, share(s.units, totalUnits)])
+    ),
+    monthly_trend: markdownTable(
+      ['Month', 'Units', 'Rows'],
+      months.map(m => [m.key, m.units, m.rows.length])
+    ),
+    category_breakdown: markdownTable(
+      ['Category', 'Units', 'Share', 'Models'],
+      categories.map(c => [c.key, c.units, share(c.units, totalUnits), new Set(c.rows.map(r => r.Model).filter(Boolean)).size])
+    ),
+    sample_rows: toCSV(
+      ['Deliverdate', 'SupplierID', 'CustomerID', 'Category', 'Model', 'LotNO', 'SerNo', 'Number'],
+      rows.slice(0, 20).map(r => [r.Deliverdate, r.SupplierID, r.CustomerID, r.Category, r.Model, r.LotNO, r.SerNo, r.Number])
+    ),
+    filters: describeFilters(filters),
+    forecast: forecastMarkdown(forecast),
+    anomalies: anomaliesMarkdown(anomalies),
+  };
+};
+
+// Cuts text to fit `tokens`, including the marker that says how much was dropped
+const truncateToTokens = (text: string, tokens: number): string => {
+  const total = estimateTokens(text);
+  if (total <= tokens) return text;
+  const target = Math.max(0, tokens - estimateTokens(`\n…[truncated ${total} tokens]`));
+  // Binary search on length, since CJK and latin text count differently
+  let lo = 0, hi = text.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= target) lo = mid; else hi = mid - 1;
+  }
+  const kept = text.slice(0, lo);
+  return `${kept}\n…[truncated ${total - estimateTokens(kept)} tokens]`;
+};
+
+/**
+ * Renders the prompt and, when it exceeds the budget, shrinks the variable values that
+ * appear in the template. Small values are kept whole; the remaining budget is split evenly
+ * between the large ones. The fixed template text and system prompt are never cut.
+ * A budget of 0 means unlimited.
+ */
+export const renderWithBudget = (
+  system: string,
+  template: string,
+  vars: PromptVariables,
+  budget: number
+): RenderedPrompt => {
+  const render = (v: PromptVariables) => renderPromptTemplate(template, v);
+  const full = render(vars);
+  const fullTokens = estimateTokens(system) + estimateTokens(full);
+  if (!budget || fullTokens <= budget) {
+    return { system, user: full, tokens: fullTokens, budget, truncated: [] };
+  }
+
+  // Each occurrence of a variable counts, so a value used twice costs twice
+  const used: { name: string; value: string; count: number; set: (v: PromptVariables, value: string) => PromptVariables }[] = [];
+  const counts = new Map<string, number>();
+  Array.from(template.matchAll(/\{\{\s*([\w.-]+)\s*\}\}/g), m => m[1]).forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+  counts.forEach((count, name) => {
+    if (name.startsWith('outputs.')) {
+      const id = name.slice('outputs.'.length);
+      if (vars.outputs[id] === undefined) return;
+      used.push({ name, value: vars.outputs[id], count, set: (v, value) => ({ ...v, outputs: { ...v.outputs, [id]: value } }) });
+    } else if (vars.variables[name] !== undefined) {
+      used.push({ name, value: vars.variables[name], count, set: (v, value) => ({ ...v, variables: { ...v.variables, [name]: value } }) });
+    }
+  });
+
+  const withoutVars = used.reduce((v, u) => u.set(v, ''), vars);
+  let available = budget - estimateTokens(system) - estimateTokens(render(withoutVars));
+
+  // Water-filling: values below the fair share keep their full size
+  const pending = [...used].sort((a, b) => estimateTokens(a.value) * a.count - estimateTokens(b.value) * b.count);
+  const allowance = new Map<string, number>();
+  pending.forEach((u, i) => {
+    const slots = pending.slice(i).reduce((acc, p) => acc + p.count, 0);
+    const fair = Math.max(0, Math.floor(available / slots));
+    const need = estimateTokens(u.value);
+    const take = Math.min(need, fair);
+    allowance.set(u.name, take);
+    available -= take * u.count;
+  });
+
+  const truncated: string[] = [];
+  const fitted = used.reduce((v, u) => {
+    const limit = allowance.get(u.name)!;
+    if (estimateTokens(u.value) <= limit) return v;
+    truncated.push(u.name);
+    return u.set(v, truncateToTokens(u.value, limit));
+  }, vars);
+
+  const user = render(fitted);
+  return { system, user, tokens: estimateTokens(system) + estimateTokens(user), budget, truncated };
+};
@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMetrics, createCsvParser, createDataStream, createMetricsAccumulator, detectDelimiter, parseData, parseDeliverDate, parseDateWithFormat, parseTableRows, serialToDate } from './dataService';
+
+// Feeds `chunks` through the tokenizer and collects records and errors
+const tokenize = (chunks: string[], delimiter: ',' | '\t' | ';' | '|' = ',') => {
+  const records: { fields: string[]; line: number }[] = [];
+  const errors: { line: number; message: string }[] = [];
+  const parser = createCsvParser(
+    (fields, line) => records.push({ fields, line }),
+    (line, message) => errors.push({ line, message }),
+    delimiter
+  );
+  chunks.forEach(chunk => parser.push(chunk));
+  parser.end();
+  return { records, errors };
+};
+
+describe('createCsvParser', () => {
+  it('handles quoted delimiters, escaped quotes and line breaks inside quotes', () => {
+    const { records, errors } = tokenize(['a,"b, c","say ""hi""","two\nlines"\r\nx,y,z,w']);
+    expect(records).toEqual([
+      { fields: ['a', 'b, c', 'say "hi"', 'two\nlines'], line: 1 },
+      { fields: ['x', 'y', 'z', 'w'], line: 3 },
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('gives the same records however the input is chunked', () => {
+    const text = 'h1,h2\r\n"q,1","q""2"\r\nlast,\r\n';
+    const whole = tokenize([text]).records;
+    for (let size = 1; size <= 5; size++) {
+      const chunks = Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+      expect(tokenize(chunks).records).toEqual(whole);
+    }
+    expect(whole).toEqual([
+      { fields: ['h1', 'h2'], line: 1 },
+      { fields: ['q,1', 'q"2'], line: 2 },
+      { fields: ['last', ''], line: 3 },
+    ]);
+  });
+
+  it('reports malformed quotes with their line and keeps the text', () => {
+    const { records, errors } = tokenize(['a,b\n"x"y,z\n"open,end']);
+    expect(records.map(r => r.fields)).toEqual([['a', 'b'], ['xy', 'z'], ['open,end']]);
+    expect(errors).toEqual([
+      { line: 2, message: 'Unexpected text after a closing quote' },
+      { line: 3, message: 'Unterminated quoted field' },
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    expect(tokenize(['a\n\n\nb\n']).records).toEqual([
+      { fields: ['a'], line: 1 },
+      { fields: ['b'], line: 4 },
+    ]);
+  });
+
+  it('keeps the last record when the input ends with a delimiter', () => {
+    const expected = [{ fields: ['a', 'b'], line: 1 }, { fields: ['1', ''], line: 2 }];
+    expect(tokenize(['a,b\n1,'])).toEqual({ records: expected, errors: [] });
+    expect(tokenize(['a,b\n1,\n'])).toEqual({ records: expected, errors: [] });
+    expect(tokenize(['a,b\n1', ','])).toEqual({ records: expected, errors: [] });
+  });
+
+  it('splits on the given delimiter only', () => {
+    expect(tokenize(['a;b,c\n'], ';').records[0].fields).toEqual(['a', 'b,c']);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that is consistent across lines', () => {
+    expect(detectDelimiter('a;b;c\n1;2,5;3\n4;5;6')).toBe(';');
+    expect(detectDelimiter('a\tb\n"x\ty"\tz')).toBe('\t');
+    expect(detectDelimiter('single column\nvalue')).toBe(',');
+  });
+});
+
+describe('parseData', () => {
+  it('maps aliased headers and normalizes rows', () => {
+    const { data, metrics } = parseData('\uFEFF交貨日期,數量,供應商,客戶,品名\n1140315,3,S1,C1,"Stent, coated"\n2025-03-16,x,S2,C1,Mesh');
+    expect(data).toHaveLength(2);
+    expect(data[0]).toMatchObject({ SupplierID: 'S1', CustomerID: 'C1', DeviceNAME: 'Stent, coated', Number: 3 });
+    expect(data[0].parsedDate).toEqual(new Date(2025, 2, 15));
+    expect(data[1].Number).toBe(0);
+    expect(metrics.totalRows).toBe(2);
+  });
+
+  it('keeps a last row that ends with a delimiter', () => {
+    const { data, metrics } = parseData('Deliverdate,Number,CustomerID\n20250101,1,A\n20250102,2,B,');
+    expect(data.map(r => r.CustomerID)).toEqual(['A', 'B']);
+    expect(metrics.parseFailures).toBe(0);
+  });
+
+  it('reads JSON arrays, also under a property, and samples them before the first rows', () => {
+    const events: string[] = [];
+    const stream = createDataStream(rows => events.push(`rows ${rows.length}`), {
+      onSample: sample => events.push(JSON.stringify(sample)),
+    });
+    stream.push('{"meta": 1, "records": [{"SupplierID": "S1", "Number": 2}, "junk", {"CustomerID": "C1", "Number": null}]}');
+    stream.end();
+    expect(events).toEqual([
+      JSON.stringify({ headers: ['SupplierID', 'Number', 'CustomerID'], rows: [['S1', '2', ''], ['', '', 'C1']] }),
+      'rows 3',
+    ]);
+    expect(() => parseData('{"records": 1}')).toThrow('JSON must contain an array of records');
+    expect(() => parseData('[{"a": }]')).toThrow('Invalid JSON format');
+  });
+
+  it('rejects input without data rows', () => {
+    expect(() => parseData('Deliverdate,Number\n')).toThrow();
+  });
+});
+
+describe('createMetricsAccumulator', () => {
+  it('adds batches up to the metrics of all rows', () => {
+    const { data } = parseData('Deliverdate,SupplierID,CustomerID,Number\n20250301,S1,C1,2\n20250101,S2,,3\nunknown,S1,C2,1');
+    const accumulator = createMetricsAccumulator();
+    accumulator.add(data.slice(0, 1));
+    accumulator.add(data.slice(1));
+    expect(accumulator.metrics()).toEqual(calculateMetrics(data).metrics);
+    expect(accumulator.metrics()).toMatchObject({ totalRows: 3, totalUnits: 6, uniqueSuppliers: 2, dateRange: [new Date(2025, 0, 1), new Date(2025, 2, 1)] });
+  });
+});
+
+describe('parseDeliverDate', () => {
+  const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+  it('reads Gregorian and ROC spellings as local days', () => {
+    expect(parseDeliverDate('20250315')).toEqual(day(2025, 3, 15));
+    expect(parseDeliverDate('2025-03-15')).toEqual(day(2025, 3, 15));
+    expect(parseDeliverDate('2025/3/5 14:30')).toEqual(day(2025, 3, 5));
+    expect(parseDeliverDate('1140315')).toEqual(day(2025, 3, 15));
+    expect(parseDeliverDate('114/03/15')).toEqual(day(2025, 3, 15));
+    expect(parseDeliverDate('民國114年3月15日')).toEqual(day(2025, 3, 15));
+  });
+
+  it('rejects impossible dates, bare numbers and implausible years', () => {
+    expect(parseDeliverDate('20250230')).toBeNull();
+    expect(parseDeliverDate('45731')).toBeNull(); // a spreadsheet serial, not the year 45731
+    expect(parseDeliverDate('45731.5')).toBeNull();
+    expect(parseDeliverDate('99999-01-01')).toBeNull();
+    expect(parseDeliverDate('0001-01-01')).toBeNull();
+    expect(parseDeliverDate('not a date')).toBeNull();
+    expect(parseDeliverDate('')).toBeNull();
+  });
+
+  it('keeps the instant of timestamps with an offset', () => {
+    expect(parseDeliverDate('2025-03-15T18:30:00Z')?.getTime()).toBe(Date.UTC(2025, 2, 15, 18, 30));
+  });
+});
+
+describe('parseDateWithFormat', () => {
+  it('resolves day/month order from the format', () => {
+    expect(parseDateWithFormat('03/04/2025', 'DD/MM/YYYY')).toEqual(new Date(2025, 3, 3));
+    expect(parseDateWithFormat('03/04/2025', 'MM/DD/YYYY')).toEqual(new Date(2025, 2, 4));
+    expect(parseDateWithFormat('114.3.15', 'ROC')).toEqual(new Date(2025, 2, 15));
+  });
+});
+
+describe('serialToDate', () => {
+  it('converts serials in both date systems', () => {
+    expect(serialToDate('45731', '1900')).toEqual(new Date(2025, 2, 15));
+    expect(serialToDate('45731.75', '1900')).toEqual(new Date(2025, 2, 15));
+    expect(serialToDate('44269', '1904')).toEqual(new Date(2025, 2, 15));
+  });
+
+  it('leaves other numbers alone', () => {
+    expect(serialToDate('20250315', '1900')).toBeNull();
+    expect(serialToDate('12', '1900')).toBeNull();
+    expect(serialToDate('2025-03-15', '1900')).toBeNull();
+  });
+});
+
+describe('parseTableRows', () => {
+  const rows = [
+    ['Report', '', '', ''],
+    ['Ship Day', 'SupplierID', 'CustomerID', 'Number'],
+    ['45731', 'S1', 'C1', '2'],
+    ['20250316', 'S1', 'C2', '1'],
+  ];
+  const mapping = {
+    columns: { Deliverdate: 'Ship Day', SupplierID: 'SupplierID', CustomerID: 'CustomerID', Number: 'Number' },
+    transforms: {},
+    dateFormat: 'auto' as const,
+  };
+
+  it('converts serials in whichever column is mapped to Deliverdate for workbooks', () => {
+    const { data } = parseTableRows(rows, 1, { mapping, dateSystem: '1900' });
+    expect(data.map(r => r.Deliverdate)).toEqual(['20250315', '20250316']);
+    expect(data.map(r => r.parsedDate)).toEqual([new Date(2025, 2, 15), new Date(2025, 2, 16)]);
+  });
+
+  it('leaves bare numbers undated outside workbooks', () => {
+    const { data } = parseTableRows(rows, 1, { mapping });
+    expect(data[0].parsedDate).toBeNull();
+    expect(data[1].parsedDate).toEqual(new Date(2025, 2, 16));
+  });
+});
@@ -1,50 +1,223 @@
-import { MedFlowRow, DataMetrics } from '../types';
+import { MedFlowRow, DataMetrics, ParseError, MappedField, ColumnMapping, FieldTransform, DateFormat, DateSystem, RowSource, SourceSample } from '../types';
+import { parseUDI, crossCheckUDI } from './udiService';
+import { parseLicense } from './licenseService';
+import { parseCategory } from './categoryService';
+
+export interface ParseSummary {
+  rowCount: number;
+  parseFailures: number; // rows skipped
+  errorCount: number;
+  errors: ParseError[]; // the first MAX_REPORTED_ERRORS problems
+  delimiter: CsvDelimiter | null; // null for JSON
+}
 
 export const parseData = (inputText: string): { data: MedFlowRow[], metrics: DataMetrics } => {
-  const trimmed = inputText.trim();
-  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
-    return parseJSON(trimmed);
-  } else {
-    return parseCSV(trimmed);
-  }
+  const data: MedFlowRow[] = [];
+  const stream = createDataStream(rows => { rows.forEach(r => data.push(r)); }, { batchSize: Infinity });
+  stream.push(inputText);
+  const summary = stream.end(); // flushes the last batch into `data`
+  return withParseSummary(calculateMetrics(data), summary);
 };
 
-const normalizeRow = (raw: any, index: number): MedFlowRow => {
-  // Field Mappings (Case insensitive lookups)
-  const getVal = (keys: string[]) => {
-    for (const k of keys) {
-      // Direct match
-      if (raw[k] !== undefined) return raw[k];
-      // Case insensitive match
-      const found = Object.keys(raw).find(rk => rk.toLowerCase() === k.toLowerCase());
-      if (found && raw[found] !== undefined) return raw[found];
+// Accepted header names per field, in priority order; matched exactly first, then case-insensitively.
+// Includes the headers Taiwanese ERP exports commonly use.
+const FIELD_ALIASES: Record<MappedField, string[]> = {
+  Deliverdate: ['Deliverdate', 'Date', 'DeliveryDate', '交貨日期', '出貨日期', '交貨日', '日期'],
+  Number: ['Number', 'Qty', 'Quantity', 'Amount', '數量', '出貨數量'],
+  DeviceNAME: ['DeviceNAME', 'Device', 'Product', 'Item', '品名', '產品名稱', '醫材名稱', '中文品名'],
+  SupplierID: ['SupplierID', 'Supplier', 'Vendor', '供應商代碼', '供應商編號', '供應商', '廠商代碼', '廠商'],
+  CustomerID: ['CustomerID', 'Customer', 'Client', '客戶代碼', '客戶編號', '客戶', '醫院代碼'],
+  Category: ['Category', 'Type', 'Class', '類別', '分類', '醫材分類'],
+  LicenseNo: ['LicenseNo', 'License', '許可證字號', '許可證號', '許可證'],
+  UDID: ['UDID', 'UDI', 'UDI-DI'],
+  LotNO: ['LotNO', 'Lot', 'Batch', '批號'],
+  SerNo: ['SerNo', 'SN', 'Serial', '序號'],
+  Model: ['Model', '型號', '規格型號'],
+};
+
+export const MAPPED_FIELDS = Object.keys(FIELD_ALIASES) as MappedField[];
+
+// Column index per field (-1 when the file has no such column), resolved once per file
+export type ColumnMap = Record<MappedField, number>;
+
+export const resolveColumns = (headers: string[]): ColumnMap => {
+  const lower = headers.map(h => h.toLowerCase());
+  const columns = {} as ColumnMap;
+  MAPPED_FIELDS.forEach(field => {
+    columns[field] = -1;
+    for (const alias of FIELD_ALIASES[field]) {
+      let idx = headers.indexOf(alias);
+      if (idx === -1) idx = lower.indexOf(alias.toLowerCase());
+      if (idx !== -1) {
+        columns[field] = idx;
+        break;
+      }
     }
-    return '';
-  };
+  });
+  return columns;
+};
+
+// Auto-suggested mapping from the header aliases
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const indices = resolveColumns(headers);
+  const columns: ColumnMapping['columns'] = {};
+  MAPPED_FIELDS.forEach(field => {
+    if (indices[field] !== -1) columns[field] = headers[indices[field]];
+  });
+  return { columns, transforms: {}, dateFormat: 'auto' };
+};
+
+interface ResolvedMapping {
+  columns: ColumnMap;
+  transforms: ColumnMapping['transforms'];
+  dateFormat: DateFormat;
+  dateSystem: DateSystem | null; // set for workbook sources, whose date column may hold raw serials
+}
+
+// Header names to indices; without an explicit mapping the aliases are used
+const resolveMapping = (headers: string[], mapping?: ColumnMapping, dateSystem: DateSystem | null = null): ResolvedMapping => {
+  if (!mapping) return { columns: resolveColumns(headers), transforms: {}, dateFormat: 'auto', dateSystem };
+  const lower = headers.map(h => h.toLowerCase());
+  const columns = {} as ColumnMap;
+  MAPPED_FIELDS.forEach(field => {
+    const name = mapping.columns[field];
+    let idx = name === undefined ? -1 : headers.indexOf(name);
+    if (idx === -1 && name !== undefined) idx = lower.indexOf(name.toLowerCase());
+    columns[field] = idx;
+  });
+  return { columns, transforms: mapping.transforms, dateFormat: mapping.dateFormat, dateSystem };
+};
+
+export const applyTransforms = (value: string, transforms: FieldTransform[] | undefined): string =>
+  (transforms || []).reduce((v, transform) => {
+    switch (transform) {
+      case 'trim': return v.trim();
+      case 'uppercase': return v.toUpperCase();
+      case 'lowercase': return v.toLowerCase();
+      case 'remove_spaces': return v.replace(/\s+/g, '');
+    }
+  }, value);
+
+// Years outside this range are typos or numbers misread as dates; they would stretch every time axis
+const PLAUSIBLE_YEARS: [number, number] = [1900, 2200];
+
+const plausible = (date: Date): Date | null =>
+  date.getFullYear() >= PLAUSIBLE_YEARS[0] && date.getFullYear() <= PLAUSIBLE_YEARS[1] ? date : null;
+
+const validDate = (y: number, m: number, d: number): Date | null => {
+  const date = new Date(y, m - 1, d);
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d ? plausible(date) : null;
+};
+
+const SERIAL_EPOCH: Record<DateSystem, [number, number, number]> = { '1900': [1899, 11, 30], '1904': [1904, 0, 1] };
+
+// Bare numbers within this range are date serials (1954–2119); YYYYMMDD and ROC YYYMMDD values are far larger
+const SERIAL_RANGE: [number, number] = [20000, 80000];
+
+// A spreadsheet date serial (e.g. 45731, or 45731.5 with a time) as a local calendar day
+export const serialToDate = (value: string, system: DateSystem): Date | null => {
+  const s = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(s) || +s < SERIAL_RANGE[0] || +s > SERIAL_RANGE[1]) return null;
+  const [y, m, d] = SERIAL_EPOCH[system];
+  return new Date(y, m, d + Math.floor(+s));
+};
+
+// ROC (Minguo) years count from 1912, so ROC year 114 is 2025
+const ROC_OFFSET = 1911;
+
+// Wall-clock time after a date, without an offset
+const WALL_TIME = String.raw`(?:[T\s]+\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?`;
+const ISO_DAY = new RegExp(String.raw`^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})${WALL_TIME}$`);
+const ROC_DAY = new RegExp(String.raw`^(?:民國)?\s*(\d{2,3})\s*[\/\-.年]\s*(\d{1,2})\s*[\/\-.月]\s*(\d{1,2})\s*日?${WALL_TIME}$`);
 
-  const deliverDateStr = String(getVal(['Deliverdate', 'Date', 'DeliveryDate']) || '');
-  const numberStr = String(getVal(['Number', 'Qty', 'Quantity', 'Amount']) || '0');
-  const deviceName = String(getVal(['DeviceNAME', 'Device', 'Product', 'Item']) || '').trim();
-  const supplierId = String(getVal(['SupplierID', 'Supplier', 'Vendor']) || 'UNKNOWN').trim();
-  const customerId = String(getVal(['CustomerID', 'Customer', 'Client']) || 'UNKNOWN').trim();
-  const category = String(getVal(['Category', 'Type', 'Class']) || 'General').trim();
-  const licenseNo = String(getVal(['LicenseNo', 'License']) || '').trim();
-  const udid = String(getVal(['UDID']) || '').trim();
-  const lotNo = String(getVal(['LotNO', 'Lot', 'Batch']) || '').trim();
-  const serNo = String(getVal(['SerNo', 'SN', 'Serial']) || '').trim();
-  const model = String(getVal(['Model']) || '').trim();
-
-  // Date Parsing
-  let parsedDate: Date | null = null;
-  if (/^\d{8}$/.test(deliverDateStr)) {
-    const y = parseInt(deliverDateStr.substring(0, 4));
-    const m = parseInt(deliverDateStr.substring(4, 6)) - 1;
-    const d = parseInt(deliverDateStr.substring(6, 8));
-    parsedDate = new Date(y, m, d);
-  } else {
-    parsedDate = new Date(deliverDateStr);
-    if (isNaN(parsedDate.getTime())) parsedDate = null;
+/**
+ * Accepts YYYYMMDD, YYYY-MM-DD, ROC dates (1140315, 114/03/15, 114-3-15, 民國114年3月15日)
+ * and anything `Date` understands. Dates without an offset are read as local calendar days
+ * (`Date` would put a bare 2025-03-15 at UTC midnight); timestamps with one keep their instant.
+ * Returns null for unparseable or impossible dates, other bare numbers (`Date` reads 45731 as
+ * that year) and years outside 1900–2200.
+ */
+export const parseDeliverDate = (str: string): Date | null => {
+  const s = str.trim();
+  if (!s) return null;
+  let m = /^(\d{4})(\d{2})(\d{2})$/.exec(s);
+  if (m) return validDate(+m[1], +m[2], +m[3]);
+  m = /^(\d{2,3})(\d{2})(\d{2})$/.exec(s);
+  if (m) return validDate(+m[1] + ROC_OFFSET, +m[2], +m[3]);
+  m = ISO_DAY.exec(s);
+  if (m) return validDate(+m[1], +m[2], +m[3]);
+  m = ROC_DAY.exec(s);
+  if (m) return validDate(+m[1] + ROC_OFFSET, +m[2], +m[3]);
+  if (/^[\d.]+$/.test(s)) return null;
+  const parsed = new Date(s);
+  return isNaN(parsed.getTime()) ? null : plausible(parsed);
+};
+
+const DATE_PARTS = /^(\d{1,4})\D+(\d{1,2})\D+(\d{1,4})/;
+
+// Parses with an explicit format where the automatic rules would guess wrong (e.g. 03/04/2025)
+export const parseDateWithFormat = (str: string, format: DateFormat): Date | null => {
+  const s = str.trim();
+  if (format === 'auto') return parseDeliverDate(s);
+  if (format === 'ROC') {
+    const m = /^(\d{2,3})(\d{2})(\d{2})$/.exec(s) ?? DATE_PARTS.exec(s.replace(/^民國\s*/, ''));
+    return m ? validDate(+m[1] + ROC_OFFSET, +m[2], +m[3]) : null;
+  }
+  if (format === 'YYYYMMDD') {
+    const m = /^(\d{4})(\d{2})(\d{2})$/.exec(s);
+    return m ? validDate(+m[1], +m[2], +m[3]) : null;
   }
+  const m = DATE_PARTS.exec(s);
+  if (!m) return null;
+  switch (format) {
+    case 'YYYY-MM-DD': return validDate(+m[1], +m[2], +m[3]);
+    case 'DD/MM/YYYY': return validDate(+m[3], +m[2], +m[1]);
+    case 'MM/DD/YYYY': return validDate(+m[3], +m[1], +m[2]);
+  }
+};
+
+const NO_MISSING: MappedField[] = [];
+
+const toYmd = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+// Rows parsed without a source (e.g. previews) keep plain `row-N` ids
+const UNSOURCED: RowSource = { id: '', name: '', loadedAt: 0 };
+
+const normalizeRow = (values: unknown[], mapping: ResolvedMapping, index: number, source: RowSource = UNSOURCED): MedFlowRow => {
+  const getVal = (field: MappedField) => {
+    const idx = mapping.columns[field];
+    const value = idx === -1 ? '' : values[idx];
+    const transforms = mapping.transforms[field];
+    return transforms && value !== undefined && value !== null ? applyTransforms(String(value), transforms) : value;
+  };
+
+  const missingFields = MAPPED_FIELDS.filter(field => {
+    const value = getVal(field);
+    return value === undefined || value === null || String(value).trim() === '';
+  });
+
+  // Workbook serials become YYYYMMDD, as if the cell had been formatted as a date
+  const rawDate = String(getVal('Deliverdate') || '');
+  const serialDate = mapping.dateSystem ? serialToDate(rawDate, mapping.dateSystem) : null;
+  const deliverDateStr = serialDate ? toYmd(serialDate) : rawDate;
+  const numberStr = String(getVal('Number') || '0');
+  const deviceName = String(getVal('DeviceNAME') || '').trim();
+  const supplierId = String(getVal('SupplierID') || 'UNKNOWN').trim();
+  const customerId = String(getVal('CustomerID') || 'UNKNOWN').trim();
+  const category = String(getVal('Category') || 'General').trim();
+  const licenseNo = String(getVal('LicenseNo') || '').trim();
+  const udid = String(getVal('UDID') || '').trim();
+  const lotNo = String(getVal('LotNO') || '').trim();
+  const serNo = String(getVal('SerNo') || '').trim();
+  const model = String(getVal('Model') || '').trim();
+
+  const parsedDate = serialDate ?? parseDateWithFormat(deliverDateStr, mapping.dateFormat);
+
+  // UDI Parsing
+  const udi = crossCheckUDI(parseUDI(udid), lotNo, serNo);
+  const license = licenseNo ? parseLicense(licenseNo) : null;
+  const categoryInfo = parseCategory(category);
 
   // Number Parsing
   let num = parseInt(numberStr.replace(/[^0-9.-]/g, ''));
@@ -62,93 +235,418 @@ const normalizeRow = (raw: any, index: number): MedFlowRow => {
     LotNO: lotNo,
     SerNo: serNo,
     Model: model,
+    sourceId: source.id,
+    sourceName: source.name,
+    loadedAt: source.loadedAt,
+    missingFields: missingFields.length ? missingFields : NO_MISSING,
+    udiFormat: udi.format,
+    udiGtin: udi.gtin,
+    udiGtinValid: udi.gtinValid,
+    udiExpiry: udi.expiry,
+    udiLot: udi.lot,
+    udiSerial: udi.serial,
+    udiIssues: udi.issues,
+    licenseAuthority: license?.authority ?? null,
+    licenseOrigin: license?.origin ?? null,
+    licenseSubType: license?.subType ?? null,
+    licenseNumber: license?.number ?? '',
+    categorySpecialty: categoryInfo.specialty,
+    categoryCode: categoryInfo.code,
+    categoryName: categoryInfo.name,
     parsedDate: parsedDate,
-    id: `row-${index}`
+    id: source.id ? `${source.id}:row-${index}` : `row-${index}`
   };
 };
 
-export const parseJSON = (jsonText: string): { data: MedFlowRow[], metrics: DataMetrics } => {
-  try {
-    let rawData = JSON.parse(jsonText);
-    if (!Array.isArray(rawData)) {
-      // If object, try to find an array property
-      const key = Object.keys(rawData).find(k => Array.isArray(rawData[k]));
-      if (key) rawData = rawData[key];
-      else throw new Error("JSON must contain an array of records");
+export type CsvDelimiter = ',' | '\t' | ';' | '|';
+
+const DELIMITERS: CsvDelimiter[] = [',', '\t', ';', '|'];
+
+// Keep memory bounded on badly broken files; the counter still covers everything
+const MAX_REPORTED_ERRORS = 500;
+
+/**
+ * Picks the delimiter whose per-line count is non-zero in the header and most consistent
+ * across the first lines of the sample. Quoted sections are ignored. Defaults to comma.
+ */
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts = DELIMITERS.map(() => [] as number[]);
+  let current = DELIMITERS.map(() => 0);
+  let inQuotes = false;
+  for (let i = 0; i < sample.length && counts[0].length < 10; i++) {
+    const ch = sample[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      if (ch === '\r' && sample[i + 1] === '\n') i++;
+      DELIMITERS.forEach((_, d) => counts[d].push(current[d]));
+      current = DELIMITERS.map(() => 0);
+    } else if (!inQuotes) {
+      const d = DELIMITERS.indexOf(ch as CsvDelimiter);
+      if (d !== -1) current[d]++;
+    }
+  }
+  if (current.some(c => c > 0)) DELIMITERS.forEach((_, d) => counts[d].push(current[d]));
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  DELIMITERS.forEach((delim, d) => {
+    const [header, ...rest] = counts[d];
+    if (!header) return;
+    const consistent = rest.filter(c => c === header).length;
+    const score = (consistent + 1) * 1000 + header;
+    if (score > bestScore) {
+      best = delim;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Incremental RFC 4180 tokenizer: quoted fields (with "" escapes, delimiters and line breaks)
+ * may span chunk boundaries. Incomplete trailing records are carried over to the next push.
+ * `line` is the 1-based line on which each record starts.
+ */
+export const createCsvParser = (
+  onRecord: (fields: string[], line: number) => void,
+  onError: (line: number, message: string) => void,
+  delimiter: CsvDelimiter = ','
+) => {
+  const DELIM = delimiter.charCodeAt(0);
+  const isBoundary = (c: number) => c === DELIM || c === 10 || c === 13;
+  let carry = '';
+  let line = 1;
+
+  const countLines = (text: string, from: number, to: number) => {
+    let lines = 0;
+    for (let k = from; k < to; k++) {
+      const c = text.charCodeAt(k);
+      if (c === 10 || (c === 13 && text.charCodeAt(k + 1) !== 10)) lines++;
+    }
+    return lines;
+  };
+
+  // Returns the index where the unconsumed remainder starts
+  const scan = (text: string, final: boolean): number => {
+    const n = text.length;
+    let recordStart = 0;
+    let i = 0;
+    let fields: string[] = [];
+    let problem: string | null = null;
+
+    while (i < n) {
+      let value: string;
+      if (text.charCodeAt(i) === 34 /* " */) {
+        value = '';
+        let j = i + 1;
+        while (true) {
+          const k = text.indexOf('"', j);
+          if (k === -1 || (k === n - 1 && !final)) {
+            if (!final) return recordStart;
+            value += text.slice(j); // unterminated quote: keep the rest as-is
+            problem = 'Unterminated quoted field';
+            j = n;
+            break;
+          }
+          value += text.slice(j, k);
+          if (text.charCodeAt(k + 1) === 34) {
+            value += '"';
+            j = k + 2;
+          } else {
+            j = k + 1;
+            break;
+          }
+        }
+        i = j;
+        // Be lenient about text between the closing quote and the delimiter
+        if (i < n && !isBoundary(text.charCodeAt(i))) problem = 'Unexpected text after a closing quote';
+        while (i < n && !isBoundary(text.charCodeAt(i))) value += text[i++];
+      } else {
+        const from = i;
+        while (i < n && !isBoundary(text.charCodeAt(i))) i++;
+        value = text.slice(from, i);
+      }
+
+      if (i >= n && !final) return recordStart;
+      fields.push(value);
+      if (text.charCodeAt(i) === DELIM) {
+        i++;
+        if (i < n) continue;
+        if (!final) return recordStart;
+        fields.push(''); // a delimiter ending the input closes an empty last field and the record
+      }
+      // End of record (or of input); a CR at the end of a chunk may be the first half of CRLF
+      if (text.charCodeAt(i) === 13 && i === n - 1 && !final) return recordStart;
+      if (text.charCodeAt(i) === 13 && text.charCodeAt(i + 1) === 10) i++;
+      i++;
+      if (problem) onError(line, problem);
+      if (!(fields.length === 1 && fields[0].trim() === '')) onRecord(fields, line);
+      line += countLines(text, recordStart, Math.min(i, n));
+      fields = [];
+      problem = null;
+      recordStart = i;
     }
+    return n;
+  };
+
+  return {
+    push(chunk: string) {
+      const text = carry + chunk;
+      carry = text.slice(scan(text, false));
+    },
+    end() {
+      if (carry) scan(carry, true);
+      carry = '';
+    },
+  };
+};
+
+export interface RecordStreamOptions {
+  batchSize?: number;
+  mapping?: ColumnMapping; // header aliases are used when omitted
+  source?: RowSource;      // stamped on every row and prefixed to its id
+  dateSystem?: DateSystem; // workbooks: bare serials in the Deliverdate column are dates
+}
 
-    const data: MedFlowRow[] = rawData.map((r: any, i: number) => normalizeRow(r, i));
-    return calculateMetrics(data);
+export interface DataStreamOptions extends RecordStreamOptions {
+  delimiter?: CsvDelimiter; // detected from the first lines when omitted
+  onSample?: (sample: SourceSample) => void; // JSON: headers and first rows, before any row is emitted
+}
+
+// Rows shown when mapping the columns of a source
+export const SAMPLE_ROWS = 20;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The records of a JSON source: a top-level array, or the first array property of an object
+const jsonRecords = (text: string): unknown[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
   } catch (e) {
     throw new Error("Invalid JSON format");
   }
+  if (Array.isArray(parsed)) return parsed;
+  const records = isRecord(parsed) ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (!records) throw new Error("JSON must contain an array of records");
+  return records;
 };
 
-export const parseCSV = (csvText: string): { data: MedFlowRow[], metrics: DataMetrics } => {
-  const lines = csvText.split(/\r?\n/).filter(line => line.trim() !== '');
-  if (lines.length < 2) throw new Error("CSV must have header and at least one row");
+// Lines buffered before the delimiter is detected
+const DETECT_LINES = 10;
 
-  // Simple CSV parser handling quotes
-  const splitCSV = (str: string) => {
-    const matches = str.matchAll(/(?:^|,)("(?:[^"]|"")*"|[^,]*)/g);
-    return Array.from(matches).map(m => m[1].replace(/^"(.*)"$/, '$1').replace(/""/g, '"'));
+/**
+ * Turns records (header first) into normalized rows, delivered in batches of `batchSize`.
+ * Short rows are padded with empty fields; rows with extra non-empty fields are reported
+ * and skipped. Shared by the CSV reader and workbook import.
+ */
+export const createRecordStream = (onRows: (rows: MedFlowRow[]) => void, options: RecordStreamOptions = {}) => {
+  const { batchSize = 5000, mapping, source, dateSystem = null } = options;
+  let headers: string[] | null = null;
+  let resolved: ResolvedMapping | null = null;
+  let rowCount = 0;
+  let parseFailures = 0;
+  let errorCount = 0;
+  const errors: ParseError[] = [];
+  let batch: MedFlowRow[] = [];
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    rowCount += batch.length;
+    onRows(batch);
+    batch = [];
   };
 
-  const headers = splitCSV(lines[0]).map(h => h.trim());
-  
-  const data: MedFlowRow[] = [];
-  let parseFailures = 0;
+  const emit = (row: MedFlowRow) => {
+    batch.push(row);
+    if (batch.length >= batchSize) flush();
+  };
+
+  const error = (line: number, message: string) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ line, message });
+  };
 
-  for (let i = 1; i < lines.length; i++) {
-    const rowRaw = splitCSV(lines[i]);
-    if (rowRaw.length < headers.length) {
-      parseFailures++;
-      continue;
+  const record = (fields: string[], line: number) => {
+    if (!headers) {
+      headers = fields.map(h => h.trim());
+      resolved = resolveMapping(headers, mapping, dateSystem);
+      return;
+    }
+    if (fields.length > headers.length) {
+      // Trailing empty columns (e.g. "a,b,c,") are harmless
+      if (fields.slice(headers.length).some(f => f.trim() !== '')) {
+        parseFailures++;
+        error(line, `Row has ${fields.length} fields, expected ${headers.length}; row skipped`);
+        return;
+      }
     }
+    while (fields.length < headers.length) fields.push('');
+    emit(normalizeRow(fields, resolved!, line - 1, source));
+  };
 
-    const rowObj: Record<string, string> = {};
-    headers.forEach((h, idx) => {
-      rowObj[h] = rowRaw[idx] || '';
+  const end = (): Omit<ParseSummary, 'delimiter'> => {
+    flush();
+    return { rowCount, parseFailures, errorCount, errors };
+  };
+
+  return { emit, error, record, end };
+};
+
+/**
+ * Turns text chunks into normalized rows, delivered in batches of `batchSize`.
+ * The format is detected from the first non-blank character: JSON is buffered and parsed
+ * at the end, CSV is parsed as it arrives. A leading BOM is stripped.
+ */
+export const createDataStream = (onRows: (rows: MedFlowRow[]) => void, options: DataStreamOptions = {}) => {
+  const records = createRecordStream(onRows, options);
+  let format: 'csv' | 'json' | null = null;
+  let pending = '';
+  let delimiter: CsvDelimiter | null = options.delimiter ?? null;
+  let csv: ReturnType<typeof createCsvParser> | null = null;
+
+  const startCsv = (text: string) => {
+    delimiter = delimiter ?? detectDelimiter(text);
+    csv = createCsvParser(records.record, records.error, delimiter);
+    csv.push(text);
+  };
+
+  const parseJSON = (text: string) => {
+    const rawData = jsonRecords(text);
+    const keys = Array.from(new Set(rawData.flatMap(r => isRecord(r) ? Object.keys(r) : [])));
+    options.onSample?.({
+      headers: keys,
+      rows: rawData.slice(0, SAMPLE_ROWS).filter(isRecord).map(r => keys.map(k => r[k] === undefined || r[k] === null ? '' : String(r[k]))),
     });
+    const jsonMapping = resolveMapping(keys, options.mapping);
+    rawData.forEach((r, i) => records.emit(normalizeRow(keys.map(k => isRecord(r) ? r[k] : undefined), jsonMapping, i, options.source)));
+  };
 
-    data.push(normalizeRow(rowObj, i));
-  }
+  return {
+    push(chunk: string) {
+      if (format === null) {
+        pending += chunk;
+        const text = pending.replace(/^\uFEFF/, '').trimStart();
+        if (!text) return;
+        format = text[0] === '[' || text[0] === '{' ? 'json' : 'csv';
+        pending = text;
+      } else {
+        pending += chunk;
+      }
+      if (format === 'json') return;
+      if (csv) {
+        csv.push(pending);
+        pending = '';
+      } else if ((pending.match(/\n/g) || []).length >= DETECT_LINES) {
+        startCsv(pending);
+        pending = '';
+      }
+    },
+    end(): ParseSummary {
+      if (format === 'json') {
+        parseJSON(pending);
+      } else if (format === 'csv') {
+        if (!csv) startCsv(pending);
+        csv!.end();
+      }
+      const summary = records.end();
+      if (format !== 'json' && summary.rowCount === 0 && summary.parseFailures === 0) {
+        throw new Error("CSV must have header and at least one row");
+      }
+      return { ...summary, delimiter: format === 'csv' ? delimiter : null };
+    },
+  };
+};
 
-  const result = calculateMetrics(data);
-  result.metrics.parseFailures += parseFailures;
-  return result;
+/**
+ * Normalizes an already tabulated sheet (e.g. from a workbook). `headerRow` is the 0-based
+ * index of the header; rows above it (titles, notes) are ignored. Line numbers in errors are
+ * 1-based sheet rows.
+ */
+export const parseTableRows = (
+  rows: string[][],
+  headerRow: number,
+  options: Omit<RecordStreamOptions, 'batchSize'> = {}
+): { data: MedFlowRow[], metrics: DataMetrics } => {
+  const data: MedFlowRow[] = [];
+  const records = createRecordStream(batch => { batch.forEach(r => data.push(r)); }, { ...options, batchSize: Infinity });
+  for (let i = headerRow; i < rows.length; i++) {
+    if (i > headerRow && rows[i].every(cell => cell.trim() === '')) continue;
+    records.record([...rows[i]], i + 1);
+  }
+  return withParseSummary(calculateMetrics(data), { ...records.end(), delimiter: null });
 };
 
-const calculateMetrics = (data: MedFlowRow[]): { data: MedFlowRow[], metrics: DataMetrics } => {
+// Running totals, so a streamed load can update its metrics per batch without rescanning every row
+export const createMetricsAccumulator = () => {
     const suppliers = new Set<string>();
     const customers = new Set<string>();
     const categories = new Set<string>();
     let minDate: number | null = null;
     let maxDate: number | null = null;
+    let totalRows = 0;
     let totalUnits = 0;
+    const missingValues: Record<string, number> = {};
+    MAPPED_FIELDS.forEach(field => { missingValues[field] = 0; });
 
-    data.forEach(row => {
-        if (row.parsedDate) {
-            const time = row.parsedDate.getTime();
-            if (minDate === null || time < minDate) minDate = time;
-            if (maxDate === null || time > maxDate) maxDate = time;
-        }
-        suppliers.add(row.SupplierID);
-        customers.add(row.CustomerID);
-        categories.add(row.Category);
-        totalUnits += row.Number;
-    });
-
-    const metrics: DataMetrics = {
-        totalRows: data.length,
-        totalUnits: totalUnits,
-        uniqueSuppliers: suppliers.size,
-        uniqueCustomers: customers.size,
-        uniqueCategories: categories.size,
-        dateRange: [minDate ? new Date(minDate) : null, maxDate ? new Date(maxDate) : null],
-        missingValues: {},
-        parseFailures: 0
+    return {
+        add(rows: MedFlowRow[]) {
+            rows.forEach(row => {
+                row.missingFields.forEach(field => { missingValues[field]++; });
+                if (row.parsedDate) {
+                    const time = row.parsedDate.getTime();
+                    if (minDate === null || time < minDate) minDate = time;
+                    if (maxDate === null || time > maxDate) maxDate = time;
+                }
+                suppliers.add(row.SupplierID);
+                customers.add(row.CustomerID);
+                categories.add(row.Category);
+                totalUnits += row.Number;
+            });
+            totalRows += rows.length;
+        },
+        metrics(): DataMetrics {
+            return {
+                totalRows,
+                totalUnits,
+                uniqueSuppliers: suppliers.size,
+                uniqueCustomers: customers.size,
+                uniqueCategories: categories.size,
+                dateRange: [minDate ? new Date(minDate) : null, maxDate ? new Date(maxDate) : null],
+                missingValues: { ...missingValues },
+                parseFailures: 0,
+                parseErrors: []
+            };
+        },
     };
+};
+
+export const calculateMetrics = (data: MedFlowRow[]): { data: MedFlowRow[], metrics: DataMetrics } => {
+    const accumulator = createMetricsAccumulator();
+    accumulator.add(data);
+    return { data, metrics: accumulator.metrics() };
+};
+
+export const withParseSummary = (result: { data: MedFlowRow[], metrics: DataMetrics }, summary: ParseSummary) => {
+    result.metrics.parseFailures += summary.parseFailures;
+    result.metrics.parseErrors = summary.errors;
+    return result;
+};
 
-    return { data, metrics };
+export const ENCODINGS = ['auto', 'utf-8', 'big5', 'utf-16le', 'utf-16be'] as const;
+export type Encoding = typeof ENCODINGS[number];
+
+// BOM first, then strict UTF-8; anything that is not valid UTF-8 is assumed to be Big5 (Taiwanese ERP exports)
+export const detectEncoding = (sample: Uint8Array): Exclude<Encoding, 'auto'> => {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+  try {
+    // stream: true so a multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'big5';
+  }
 };
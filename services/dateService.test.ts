@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { inDateRange, matchPreset, presetRange } from './dateService';
+
+const TODAY = new Date(2025, 4, 18, 15, 30); // 18 May 2025
+
+describe('presetRange', () => {
+  it('counts the last days back from today, including it', () => {
+    expect(presetRange('last7', TODAY)).toEqual(['2025-05-12', '2025-05-18']);
+    expect(presetRange('last30', TODAY)).toEqual(['2025-04-19', '2025-05-18']);
+    expect(presetRange('last90', TODAY)).toEqual(['2025-02-18', '2025-05-18']);
+  });
+
+  it('covers the whole calendar quarter of today', () => {
+    expect(presetRange('quarter', TODAY)).toEqual(['2025-04-01', '2025-06-30']);
+    expect(presetRange('quarter', new Date(2025, 11, 31))).toEqual(['2025-10-01', '2025-12-31']);
+  });
+
+  it('ends on the current date by default, not on the data', () => {
+    vi.useFakeTimers({ now: TODAY });
+    try {
+      expect(presetRange('last7')).toEqual(['2025-05-12', '2025-05-18']);
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(presetRange('all')).toEqual(['', '']);
+    expect(presetRange('custom')).toBeNull();
+  });
+});
+
+describe('matchPreset', () => {
+  it('recognizes the ranges presets produce for the same day', () => {
+    expect(matchPreset(['', ''], TODAY)).toBe('all');
+    expect(matchPreset(['2025-04-19', '2025-05-18'], TODAY)).toBe('last30');
+    expect(matchPreset(['2025-04-01', '2025-06-30'], TODAY)).toBe('quarter');
+    expect(matchPreset(['2025-04-19', '2025-05-18'], new Date(2025, 4, 19))).toBe('custom');
+  });
+});
+
+describe('inDateRange', () => {
+  it('compares calendar days with open ends', () => {
+    const day = new Date(2025, 4, 18, 23, 59);
+    expect(inDateRange(day, ['2025-05-18', '2025-05-18'])).toBe(true);
+    expect(inDateRange(day, ['', '2025-05-17'])).toBe(false);
+    expect(inDateRange(null, ['2025-01-01', ''])).toBe(false);
+    expect(inDateRange(null, ['', ''])).toBe(true);
+  });
+});
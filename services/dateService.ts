@@ -0,0 +1,85 @@
+import { MedFlowRow, DateRangePreset } from '../types';
+import { formatDate } from './exportService';
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = ['all', 'last7', 'last30', 'last90', 'quarter', 'custom'];
+
+const PRESET_DAYS: Partial<Record<DateRangePreset, number>> = { last7: 7, last30: 30, last90: 90 };
+
+/**
+ * Resolves a preset to an inclusive `YYYY-MM-DD` range counted back from `today`, or the
+ * calendar quarter containing it. 'custom' has no range of its own.
+ */
+export const presetRange = (preset: DateRangePreset, today = new Date()): [string, string] | null => {
+  const days = PRESET_DAYS[preset];
+  if (days) {
+    const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1));
+    return [formatDate(from), formatDate(today)];
+  }
+  if (preset === 'quarter') {
+    const start = today.getMonth() - (today.getMonth() % 3);
+    return [formatDate(new Date(today.getFullYear(), start, 1)), formatDate(new Date(today.getFullYear(), start + 3, 0))];
+  }
+  if (preset === 'all') return ['', ''];
+  return null;
+};
+
+// The preset a range was produced by, so the picker can show it again (e.g. after restoring a run)
+export const matchPreset = (range: [string, string], today = new Date()): DateRangePreset => {
+  if (!range[0] && !range[1]) return 'all';
+  return DATE_RANGE_PRESETS.find(p => {
+    const r = presetRange(p, today);
+    return p !== 'all' && r !== null && r[0] === range[0] && r[1] === range[1];
+  }) ?? 'custom';
+};
+
+export const inDateRange = (date: Date | null, [from, to]: [string, string]): boolean => {
+  if (!from && !to) return true;
+  if (!date) return false;
+  const day = formatDate(date);
+  return (!from || day >= from) && (!to || day <= to);
+};
+
+// --- Time zones ---
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const zoneFormatter = (timeZone: string): Intl.DateTimeFormat | null => {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(timeZone, new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' }));
+    } catch {
+      formatters.set(timeZone, null);
+    }
+  }
+  return formatters.get(timeZone)!;
+};
+
+export const isValidTimeZone = (timeZone: string) => !!zoneFormatter(timeZone.trim());
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const COMMON_TIME_ZONES = ['Asia/Taipei', 'Asia/Tokyo', 'Asia/Shanghai', 'Asia/Singapore', 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Los_Angeles', 'UTC'];
+
+// Only timestamps with an explicit offset name an instant; a plain date or wall time is already local to the data
+const HAS_OFFSET = /\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i;
+
+// The calendar day `instant` falls on in `timeZone`, as local midnight like every other parsedDate
+const zonedDay = (instant: Date, formatter: Intl.DateTimeFormat): Date => {
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(p => [p.type, p.value]));
+  return new Date(+parts.year, +parts.month - 1, +parts.day);
+};
+
+/**
+ * Re-buckets rows whose Deliverdate is a timestamp with an offset (e.g. `2025-03-15T18:30:00Z`)
+ * onto the calendar day in `timeZone`. Rows are returned unchanged when the zone is blank or
+ * invalid, which keeps the browser's zone.
+ */
+export const normalizeTimeZone = (rows: MedFlowRow[], timeZone: string): MedFlowRow[] => {
+  const formatter = timeZone.trim() ? zoneFormatter(timeZone.trim()) : null;
+  if (!formatter) return rows;
+  return rows.map(row =>
+    row.parsedDate && HAS_OFFSET.test(row.Deliverdate.trim())
+      ? { ...row, parsedDate: zonedDay(row.parsedDate, formatter) }
+      : row
+  );
+};
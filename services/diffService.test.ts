@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diffService';
+
+describe('diffLines', () => {
+  it('keeps common lines and marks the changed ones', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'remove', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'add', text: 'x' },
+      { type: 'same', text: 'd' },
+    ]);
+  });
+
+  it('reports identical text as unchanged and handles added or removed tails', () => {
+    expect(diffLines('a\nb', 'a\nb').every(l => l.type === 'same')).toBe(true);
+    expect(diffLines('a', 'a\nb\nc').map(l => l.type)).toEqual(['same', 'add', 'add']);
+    expect(diffLines('a\nb\nc', 'a').map(l => l.type)).toEqual(['same', 'remove', 'remove']);
+  });
+
+  it('lists very large inputs as removed then added instead of aligning them', () => {
+    const text = Array.from({ length: 2001 }, (_, i) => `line ${i}`).join('\n');
+    const result = diffLines(text, text);
+    expect(result).toHaveLength(4002);
+    expect(result[0]).toEqual({ type: 'remove', text: 'line 0' });
+    expect(result[2001]).toEqual({ type: 'add', text: 'line 0' });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DuplicateGroup, RowDecision } from '../types';
+import { detectDuplicates, applyDecisions, mergeGroup, setGroupDecision, toggleRow } from './duplicateService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader('Deliverdate,SupplierID,CustomerID,DeviceNAME,Model,LicenseNo,LotNO,SerNo,Number');
+
+const units = (rows: { Number: number }[]) => rows.reduce((acc, r) => acc + r.Number, 0);
+const group = (rowIds: string[]): DuplicateGroup => ({ id: 'g', kind: 'exact', key: '', rowIds, suggested: [], detail: '' });
+
+describe('detectDuplicates', () => {
+  it('reports exact copies and serials delivered twice or to several customers', () => {
+    const data = load([
+      '20250301,S1,C1,Stent,M1,,L1,SN1,1',
+      '20250301,S1,C1,Stent,M1,,L1,SN1,1',
+      '20250302,S1,C1,Stent,M1,,L1,SN2,1',
+      '20250305,S1,C1,Stent,M1,,L1,SN2,1',
+      '20250303,S1,C1,Stent,M1,,L1,SN3,1',
+      '20250304,S1,C2,Stent,M1,,L1,SN3,1',
+    ]);
+    const ids = data.map(r => r.id);
+    const groups = detectDuplicates(data);
+    expect(groups.map(g => [g.kind, g.rowIds])).toEqual([
+      ['exact', ids.slice(0, 2)],
+      ['serial_repeat', ids.slice(2, 4)],
+      ['serial_customers', ids.slice(4, 6)],
+    ]);
+    expect(groups[0].suggested).toEqual([ids[1]]);
+    expect(groups[2].suggested).toEqual([]); // which customer is right needs judgement
+  });
+
+  it('reports a repeated block as one re-import instead of many exact copies', () => {
+    const block = Array.from({ length: 5 }, (_, i) => `2025030${i + 1},S1,C1,Stent,M1,,L${i},,2`);
+    const data = load([...block, ...block]);
+    const groups = detectDuplicates(data);
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ kind: 'reimport', suggested: data.slice(5).map(r => r.id) });
+  });
+
+  it('flags lots recorded under several models', () => {
+    const groups = detectDuplicates(load(['20250301,S1,C1,Stent,M1,,L1,,1', '20250302,S1,C2,Stent,M2,,L1,,1']));
+    expect(groups).toEqual([expect.objectContaining({ kind: 'lot_conflict', key: 'L1', detail: 'Models: M1, M2' })]);
+  });
+});
+
+describe('review decisions', () => {
+  const data = load([
+    '20250301,S1,C1,Stent,M1,,L1,,1',
+    '20250301,S1,C1,Stent,M1,,L1,,2',
+    '20250301,S1,C1,Stent,M1,,L1,,4',
+    '20250301,S1,C1,Stent,M1,,L1,,8',
+  ]);
+  const [a, b, c, d] = data.map(r => r.id);
+
+  it('drops excluded rows and adds merged quantities to the target', () => {
+    const decisions: Record<string, RowDecision> = { [b]: { action: 'merge', into: a }, [d]: { action: 'exclude' } };
+    expect(applyDecisions(data, decisions).map(r => [r.id, r.Number])).toEqual([[a, 3], [c, 4]]);
+  });
+
+  it('keeps every unit when a merge target is merged again later', () => {
+    const first = mergeGroup(group([a, b]), {});
+    const second = mergeGroup(group([c, a]), first);
+    const result = applyDecisions(data, second);
+    expect(result.map(r => r.id)).toEqual([c, d]);
+    expect(units(result)).toBe(units(data));
+  });
+
+  it('merges into where an already merged member ended up', () => {
+    const first = mergeGroup(group([b, a]), {}); // a -> b
+    const second = mergeGroup(group([a, c]), first);
+    expect(second[c]).toEqual({ action: 'merge', into: b });
+    expect(applyDecisions(data, second).map(r => [r.id, r.Number])).toEqual([[b, 7], [d, 8]]);
+  });
+
+  it('never loses units to merge chains that end in an excluded row or loop', () => {
+    const excluded = { [a]: { action: 'merge', into: b }, [b]: { action: 'exclude' } } as Record<string, RowDecision>;
+    expect(applyDecisions(data, excluded).map(r => r.id)).toEqual([a, c, d]);
+    const loop = { [a]: { action: 'merge', into: b }, [b]: { action: 'merge', into: a } } as Record<string, RowDecision>;
+    expect(units(applyDecisions(data, loop))).toBe(units(data));
+  });
+
+  it('undoes merges into a row that gets excluded', () => {
+    const merged = mergeGroup(group([a, b]), {});
+    expect(toggleRow(merged, a)).toEqual({ [a]: { action: 'exclude' } });
+    expect(setGroupDecision(group([c, d]), merged, [d])).toEqual({ ...merged, [d]: { action: 'exclude' } });
+  });
+});
@@ -0,0 +1,198 @@
+import { MedFlowRow, DuplicateGroup, DuplicateKind, RowDecision } from '../types';
+import { MAPPED_FIELDS } from './dataService';
+import { groupBy } from './groupService';
+
+// A run of at least this many rows repeating an earlier run at a fixed offset looks like the
+// same file (or a large part of it) was loaded twice
+const REIMPORT_MIN_RUN = 5;
+
+export const DUPLICATE_KINDS: DuplicateKind[] = ['reimport', 'exact', 'serial_customers', 'serial_repeat', 'lot_conflict'];
+
+export const rowKey = (row: MedFlowRow) => MAPPED_FIELDS.map(field => String(row[field])).join('\u0001');
+
+// The GTIN scopes a serial number when the UDI has one; otherwise the SerNo stands alone
+const serialKey = (row: MedFlowRow) => row.udiGtin ? `${row.udiGtin}/${row.SerNo}` : row.SerNo;
+
+const distinct = (rows: MedFlowRow[], pick: (row: MedFlowRow) => string) =>
+  Array.from(new Set(rows.map(pick).filter(Boolean)));
+
+/**
+ * Finds exact duplicate rows, repeated blocks (re-imports), serial numbers delivered more than
+ * once or to several customers, and lots recorded under more than one model or license.
+ * Rows already explained by a re-import or an exact duplicate are not reported again as
+ * serial repeats.
+ */
+export const detectDuplicates = (data: MedFlowRow[]): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+  const keys = data.map(rowKey);
+
+  // Re-imports: consecutive copies that all point back the same distance
+  const firstIndex = new Map<string, number>();
+  const offset = keys.map((key, i) => {
+    const first = firstIndex.get(key);
+    if (first === undefined) {
+      firstIndex.set(key, i);
+      return 0;
+    }
+    return i - first;
+  });
+  const inReimport = new Set<string>();
+  for (let start = 0; start < data.length;) {
+    let end = start;
+    if (offset[start] > 0) {
+      while (end + 1 < data.length && offset[end + 1] === offset[start]) end++;
+    }
+    if (offset[start] > 0 && end - start + 1 >= REIMPORT_MIN_RUN) {
+      const copies = data.slice(start, end + 1);
+      const originals = data.slice(start - offset[start], end + 1 - offset[start]);
+      copies.forEach(r => inReimport.add(r.id));
+      groups.push({
+        id: `reimport:${copies[0].id}`,
+        kind: 'reimport',
+        key: `${originals[0].id}…${originals[originals.length - 1].id}`,
+        rowIds: [...originals, ...copies].map(r => r.id),
+        suggested: copies.map(r => r.id),
+        detail: `${copies.length} rows repeat ${originals[0].id}–${originals[originals.length - 1].id}`,
+      });
+    }
+    start = end + 1;
+  }
+
+  // Exact duplicates outside re-imported blocks
+  const exactGroups = groupBy(data, row => rowKey(row));
+  const exactOf = new Map<string, string>(); // row id -> exact group key
+  exactGroups.forEach((rows, key) => {
+    if (rows.length < 2) return;
+    rows.forEach(r => exactOf.set(r.id, key));
+    const extra = rows.slice(1).filter(r => !inReimport.has(r.id));
+    if (extra.length === 0) return;
+    groups.push({
+      id: `exact:${rows[0].id}`,
+      kind: 'exact',
+      key: rows[0].id,
+      rowIds: rows.map(r => r.id),
+      suggested: rows.slice(1).map(r => r.id),
+      detail: `${rows.length}× ${rows[0].SupplierID} · ${rows[0].CustomerID} · ${rows[0].Deliverdate}`,
+    });
+  });
+
+  // Serial numbers: one delivery per serial
+  groupBy(data, serialKey).forEach((rows, key) => {
+    if (rows.length < 2 || !rows[0].SerNo) return;
+    // Identical rows are already reported above
+    if (new Set(rows.map(r => exactOf.get(r.id) ?? r.id)).size < 2) return;
+    const customers = distinct(rows, r => r.CustomerID);
+    const multi = customers.length > 1;
+    groups.push({
+      id: `serial:${key}`,
+      kind: multi ? 'serial_customers' : 'serial_repeat',
+      key,
+      rowIds: rows.map(r => r.id),
+      suggested: multi ? [] : rows.slice(1).map(r => r.id),
+      detail: multi ? `Customers: ${customers.join(', ')}` : `${rows.length} deliveries to ${customers[0] ?? '—'}`,
+    });
+  });
+
+  // Lots: one model and one license per lot
+  groupBy(data, row => row.LotNO).forEach((rows, key) => {
+    const models = distinct(rows, r => r.Model);
+    const licenses = distinct(rows, r => r.LicenseNo);
+    if (models.length < 2 && licenses.length < 2) return;
+    const parts: string[] = [];
+    if (models.length > 1) parts.push(`Models: ${models.join(', ')}`);
+    if (licenses.length > 1) parts.push(`Licenses: ${licenses.join(', ')}`);
+    groups.push({
+      id: `lot:${key}`,
+      kind: 'lot_conflict',
+      key,
+      rowIds: rows.map(r => r.id),
+      suggested: [],
+      detail: parts.join(' · '),
+    });
+  });
+
+  return groups;
+};
+
+// The kept row a merge ends in, following merges into rows that were merged themselves later;
+// null when the chain ends in an excluded row or loops
+const mergeTarget = (decisions: Record<string, RowDecision>, id: string): string | null => {
+  const seen = new Set<string>();
+  let current = id;
+  for (let decision = decisions[current]; decision?.action === 'merge'; decision = decisions[current]) {
+    if (seen.has(current)) return null;
+    seen.add(current);
+    current = decision.into;
+  }
+  return decisions[current] ? null : current;
+};
+
+/**
+ * Applies review choices: excluded rows are dropped, merged rows are dropped and their
+ * quantity is added to the kept row their merge chain ends in. A merge that does not end in a
+ * loaded, kept row is ignored, so no quantity disappears silently.
+ */
+export const applyDecisions = (data: MedFlowRow[], decisions: Record<string, RowDecision>): MedFlowRow[] => {
+  if (Object.keys(decisions).length === 0) return data;
+  const ids = new Set(data.map(r => r.id));
+  const mergedUnits = new Map<string, number>();
+  const unresolved = new Set<string>();
+  data.forEach(row => {
+    if (decisions[row.id]?.action !== 'merge') return;
+    const into = mergeTarget(decisions, row.id);
+    if (into === null || !ids.has(into)) unresolved.add(row.id);
+    else mergedUnits.set(into, (mergedUnits.get(into) ?? 0) + row.Number);
+  });
+  return data
+    .filter(row => !decisions[row.id] || unresolved.has(row.id))
+    .map(row => mergedUnits.has(row.id) ? { ...row, Number: row.Number + mergedUnits.get(row.id)! } : row);
+};
+
+/**
+ * Merges every row of a group into one kept row: where the group's first row that is not
+ * excluded ends up (itself when kept, its merge target when already merged), or the first row,
+ * kept again, when all are excluded. A target is never merged away, and rows merged into a
+ * member follow it through applyDecisions, so earlier merges keep their units.
+ */
+export const mergeGroup = (group: DuplicateGroup, decisions: Record<string, RowDecision>): Record<string, RowDecision> => {
+  const next = { ...decisions };
+  const into = group.rowIds.map(id => mergeTarget(next, id)).find((id): id is string => id !== null) ?? group.rowIds[0];
+  if (next[into]?.action === 'exclude') delete next[into];
+  group.rowIds.forEach(id => {
+    if (id !== into && next[id]?.action !== 'exclude') next[id] = { action: 'merge', into };
+  });
+  return next;
+};
+
+// Merges into a row that becomes excluded are undone, so no quantity disappears silently
+const undoMergesInto = (decisions: Record<string, RowDecision>, ids: string[]) => {
+  Object.keys(decisions).forEach(id => {
+    const decision = decisions[id];
+    if (decision.action === 'merge' && ids.includes(decision.into)) delete decisions[id];
+  });
+};
+
+// Keeps the group's rows except `exclude` (empty to keep all)
+export const setGroupDecision = (
+  group: DuplicateGroup,
+  decisions: Record<string, RowDecision>,
+  exclude: string[]
+): Record<string, RowDecision> => {
+  const next = { ...decisions };
+  group.rowIds.forEach(id => { delete next[id]; });
+  undoMergesInto(next, exclude);
+  exclude.forEach(id => { next[id] = { action: 'exclude' }; });
+  return next;
+};
+
+// Excluded or merged rows go back to kept; kept rows are excluded
+export const toggleRow = (decisions: Record<string, RowDecision>, id: string): Record<string, RowDecision> => {
+  const next = { ...decisions };
+  if (next[id]) {
+    delete next[id];
+  } else {
+    undoMergesInto(next, [id]);
+    next[id] = { action: 'exclude' };
+  }
+  return next;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { readWorkbook, sheetToRows, guessHeaderRow, workbookDateSystem, writeWorkbook } from './excelService';
+
+// Writes a sheet to .xlsx and reads it back the way an upload is read
+const roundTrip = async (sheet: XLSX.WorkSheet) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Data');
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return readWorkbook(new File([buffer], 'upload.xlsx'));
+};
+
+describe('sheetToRows', () => {
+  it('turns date-formatted cells into YYYYMMDD under any header', async () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Ship Day', 'Raw', 'SerNo', 'Number'],
+      [45731, 45731, '007', 3],
+    ]);
+    sheet.A2.z = 'yyyy-mm-dd';
+    const workbook = await roundTrip(sheet);
+    expect(sheetToRows(workbook, 'Data')).toEqual([
+      ['Ship Day', 'Raw', 'SerNo', 'Number'],
+      ['20250315', '45731', '007', '3'],
+    ]);
+    expect(workbookDateSystem(workbook)).toBe('1900');
+  });
+
+  it('returns nothing for a missing or empty sheet', async () => {
+    const workbook = await roundTrip(XLSX.utils.aoa_to_sheet([]));
+    expect(sheetToRows(workbook, 'Data')).toEqual([]);
+    expect(sheetToRows(workbook, 'Nope')).toEqual([]);
+  });
+});
+
+describe('guessHeaderRow', () => {
+  it('skips title rows above the header', () => {
+    expect(guessHeaderRow([['出貨報表'], [''], ['交貨日期', '數量', '客戶'], ['1140315', '1', 'C1']])).toBe(2);
+  });
+});
+
+describe('writeWorkbook', () => {
+  it('writes sheets that read back unchanged', async () => {
+    const buffer = writeWorkbook([{ name: 'Rows', rows: [['SupplierID', 'Number'], ['S1', 2]] }]);
+    const workbook = await readWorkbook(new File([buffer], 'export.xlsx'));
+    expect(sheetToRows(workbook, 'Rows')).toEqual([['SupplierID', 'Number'], ['S1', '2']]);
+  });
+});
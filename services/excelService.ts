@@ -0,0 +1,83 @@
+import * as XLSX from 'xlsx';
+import { DateSystem } from '../types';
+import { resolveColumns } from './dataService';
+
+export const EXCEL_EXTENSIONS = ['.xlsx', '.xls', '.xlsm', '.xlsb', '.ods'];
+
+export const isWorkbookFile = (file: File): boolean =>
+  EXCEL_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+// cellNF keeps each cell's number format, which is how date cells are told apart from numbers
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> =>
+  XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: false, cellNF: true, dense: false });
+
+// Unformatted serials are converted at parse time, once the date column is mapped
+export const workbookDateSystem = (workbook: XLSX.WorkBook): DateSystem =>
+  workbook.Workbook?.WBProps?.date1904 ? '1904' : '1900';
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Serials are days since 1899-12-30 (SheetJS accounts for the 1900 leap-year bug and the 1904 system)
+const serialToYmd = (serial: number, date1904: boolean): string | null => {
+  const parsed = XLSX.SSF.parse_date_code(serial, { date1904 });
+  if (!parsed || !parsed.y) return null;
+  return `${parsed.y}${pad(parsed.m)}${pad(parsed.d)}`;
+};
+
+const dateToYmd = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+/**
+ * Converts a sheet into rows of strings. Date-formatted cells, in any column, become YYYYMMDD
+ * so they go through the same date parsing as CSV input; text cells (e.g. ROC dates such as
+ * 114/03/15) are kept as displayed.
+ */
+export const sheetToRows = (workbook: XLSX.WorkBook, sheetName: string): string[][] => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet || !sheet['!ref']) return [];
+  const date1904 = !!workbook.Workbook?.WBProps?.date1904;
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const rows: string[][] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (!cell || cell.v === undefined || cell.v === null) {
+        row.push('');
+      } else if (cell.v instanceof Date) {
+        row.push(dateToYmd(cell.v));
+      } else if (cell.t === 'n' && cell.z && XLSX.SSF.is_date(cell.z)) {
+        row.push(serialToYmd(cell.v as number, date1904) ?? String(cell.v));
+      } else if (cell.t === 'n' && cell.w && /^0\d+$/.test(cell.w)) {
+        row.push(cell.w); // zero-padded codes such as serial numbers
+      } else if (cell.t === 'n' || cell.t === 'b') {
+        row.push(String(cell.v));
+      } else {
+        row.push(String(cell.w ?? cell.v).trim());
+      }
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// The first row (within the first 30) that names the most known columns; title rows above it are skipped
+export const guessHeaderRow = (rows: string[][]): number => {
+  let best = 0;
+  let bestCount = 0;
+  rows.slice(0, 30).forEach((row, i) => {
+    const count = Object.values(resolveColumns(row.map(c => c.trim()))).filter(idx => idx !== -1).length;
+    if (count > bestCount) {
+      best = i;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Builds an .xlsx file; each sheet is given as rows of cells
+export const writeWorkbook = (sheets: { name: string; rows: unknown[][] }[]): ArrayBuffer => {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(sheet => XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), sheet.name));
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+};
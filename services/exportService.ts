@@ -0,0 +1,81 @@
+// CSV cells are quoted only when they contain a delimiter, quote or newline.
+const escapeCSVCell = (value: unknown): string => {
+  const str = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const toCSV = (headers: string[], rows: unknown[][]): string => {
+  const lines = [headers, ...rows].map(cells => cells.map(escapeCSVCell).join(','));
+  return lines.join('\r\n');
+};
+
+export const formatDate = (date: Date | null): string => {
+  if (!date) return '';
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  // Prefix text exports with a BOM so Excel opens zh-TW content as UTF-8
+  const parts: BlobPart[] = mimeType.startsWith('text/') ? ['\uFEFF', content] : [content];
+  const blob = new Blob(parts, { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+// --- Charts ---
+
+// Gives a rendered SVG explicit size, namespace and the inherited text color, so it looks the
+// same outside the page (currentColor would otherwise fall back to black)
+export const serializeSvg = (svg: SVGSVGElement, background?: string): string => {
+  const { width, height } = svg.getBoundingClientRect();
+  const style = getComputedStyle(svg);
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  if (!clone.getAttribute('viewBox')) clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.setAttribute('style', `color: ${style.color}; font-family: ${style.fontFamily}`);
+  if (background) {
+    const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    rect.setAttribute('width', '100%');
+    rect.setAttribute('height', '100%');
+    rect.setAttribute('fill', background);
+    clone.insertBefore(rect, clone.firstChild);
+  }
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const svgToPng = (svg: SVGSVGElement, background: string, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const { width, height } = svg.getBoundingClientRect();
+    const url = URL.createObjectURL(new Blob([serializeSvg(svg, background)], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, width, height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The chart could not be rendered'));
+    };
+    img.src = url;
+  });
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ForecastOptions } from '../types';
+import { buildForecast, forecastMarkdown, forecastValues } from './forecastService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader();
+
+// One delivery of `units[i]` in each month from January 2023
+const monthly = (units: number[], supplier = 'S1') =>
+  units.map((n, i) => `${2023 + Math.floor(i / 12)}${String((i % 12) + 1).padStart(2, '0')}15,${supplier},C1,${n}`);
+
+const options = (overrides: Partial<ForecastOptions> = {}): ForecastOptions => ({
+  dimension: 'all', value: '', granularity: 'month', horizon: 3, ...overrides,
+});
+
+describe('buildForecast', () => {
+  it('extends a linear trend and backtests it on the last periods', () => {
+    const result = buildForecast(load([...monthly([10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120]), 'unknown,S1,C1,999']), options());
+    expect(result).toMatchObject({ method: 'holt', seasonLength: 0, history: 12, holdout: 2, mape: 0 });
+    expect(result.points.slice(11)).toEqual([
+      { period: '2023-12', actual: 120, forecast: 120, lower: 120, upper: 120 },
+      { period: '2024-01', actual: null, forecast: 130, lower: 130, upper: 130 },
+      { period: '2024-02', actual: null, forecast: 140, lower: 140, upper: 140 },
+      { period: '2024-03', actual: null, forecast: 150, lower: 150, upper: 150 },
+    ]);
+  });
+
+  it('picks up a yearly season once there are two full years', () => {
+    const season = Array.from({ length: 12 }, (_, m) => 100 + 10 * m);
+    const result = buildForecast(load(monthly([...season, ...season, ...season])), options({ horizon: 12 }));
+    expect(result).toMatchObject({ method: 'holt_winters', seasonLength: 12, mape: 0 });
+    expect(result.points.filter(p => p.actual === null).map(p => p.forecast)).toEqual(season);
+  });
+
+  it('never forecasts negative demand and widens the band with the horizon', () => {
+    const result = buildForecast(load(monthly([50, 42, 30, 21, 10])), options({ horizon: 4 }));
+    const ahead = result.points.filter(p => p.actual === null);
+    expect(ahead.map(p => p.forecast).every(f => f! >= 0)).toBe(true);
+    expect(ahead[ahead.length - 1]).toMatchObject({ forecast: 0, lower: 0 });
+    const spread = ahead.map(p => p.upper! - p.forecast!);
+    expect(spread[1]).toBeGreaterThan(spread[0]);
+  });
+
+  it('falls back to the mean of a short series, by week and for one supplier', () => {
+    const rows = load(['20250312,S1,C1,4', '20250322,S1,C1,8', '20250312,S2,C1,100']);
+    const result = buildForecast(rows, options({ dimension: 'supplier', value: 'S1', granularity: 'week', horizon: 1 }));
+    expect(result).toMatchObject({ method: 'mean', mape: null, holdout: 0 });
+    expect(result.points.map(p => [p.period, p.actual, p.forecast])).toEqual([
+      ['2025-03-10', 4, null],
+      ['2025-03-17', 8, 8],
+      ['2025-03-24', null, 6],
+    ]);
+  });
+
+  it('returns no points without dated deliveries', () => {
+    const result = buildForecast(load(['unknown,S1,C1,5']), options());
+    expect(result.points).toEqual([]);
+    expect(forecastMarkdown(result)).toBe('No forecast: no dated deliveries in the current selection.');
+  });
+});
+
+describe('forecastValues', () => {
+  it('lists values by units, largest first', () => {
+    const rows = load([...monthly([1], 'S1'), ...monthly([5], 'S2'), ...monthly([3], 'S3')]);
+    expect(forecastValues(rows, 'supplier', 2)).toEqual(['S2', 'S3']);
+    expect(forecastValues(rows, 'all')).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import { MedFlowRow, ForecastDimension, ForecastGranularity, ForecastOptions, ForecastPoint, ForecastResult } from '../types';
+import { bucketLabel, bucketStart, shiftBucket } from './periodService';
+
+export const FORECAST_DIMENSIONS: ForecastDimension[] = ['all', 'category', 'supplier', 'model', 'customer'];
+export const FORECAST_HORIZONS = [3, 6, 12, 26];
+
+const SEASON_LENGTH: Record<ForecastGranularity, number> = { month: 12, week: 52 };
+
+// Smoothing parameters tried when fitting; the pair or triple with the lowest one-step error wins
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2, 0.3];
+const GAMMAS = [0.05, 0.1, 0.3, 0.5];
+
+const Z_95 = 1.96;
+
+// Backtests need at least this many periods left to fit on
+const MIN_TRAINING = 4;
+
+const dimensionValue = (row: MedFlowRow, dimension: ForecastDimension): string => {
+  switch (dimension) {
+    case 'all': return '';
+    case 'category': return row.Category;
+    case 'supplier': return row.SupplierID;
+    case 'model': return row.Model;
+    case 'customer': return row.CustomerID;
+  }
+};
+
+// Values of a dimension by units, for the picker
+export const forecastValues = (rows: MedFlowRow[], dimension: ForecastDimension, limit = 50): string[] => {
+  if (dimension === 'all') return [];
+  const units = new Map<string, number>();
+  rows.forEach(row => {
+    const value = dimensionValue(row, dimension);
+    if (value) units.set(value, (units.get(value) ?? 0) + row.Number);
+  });
+  return Array.from(units.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit).map(([value]) => value);
+};
+
+// --- Series ---
+
+// Units per period from the first to the last delivery, with empty periods as zero
+const buildSeries = (rows: MedFlowRow[], granularity: ForecastGranularity): { starts: Date[]; values: number[] } => {
+  const byPeriod = new Map<number, number>();
+  rows.forEach(row => {
+    if (!row.parsedDate) return;
+    const key = bucketStart(row.parsedDate, granularity).getTime();
+    byPeriod.set(key, (byPeriod.get(key) ?? 0) + row.Number);
+  });
+  if (byPeriod.size === 0) return { starts: [], values: [] };
+  const keys = Array.from(byPeriod.keys());
+  const last = Math.max(...keys);
+  const starts: Date[] = [];
+  const values: number[] = [];
+  for (let d = new Date(Math.min(...keys)); d.getTime() <= last; d = shiftBucket(d, granularity, 1)) {
+    starts.push(d);
+    values.push(byPeriod.get(d.getTime()) ?? 0);
+  }
+  return { starts, values };
+};
+
+// --- Exponential smoothing ---
+
+interface Fit {
+  method: ForecastResult['method'];
+  seasonLength: number;
+  params: ForecastResult['params'];
+  sigma: number; // RMSE of the one-step-ahead errors
+  forecast: (h: number) => number; // h >= 1
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Additive Holt-Winters (season > 0) or Holt's linear trend (season = 0). Returns the sum of
+ * squared one-step-ahead errors and a forecast function from the end of the series.
+ */
+const smooth = (y: number[], season: number, alpha: number, beta: number, gamma: number) => {
+  const m = season;
+  let level = m ? mean(y.slice(0, m)) : y[0];
+  let trend = m ? (mean(y.slice(m, 2 * m)) - level) / m : y[1] - y[0];
+  const seasonal = m ? y.slice(0, m).map(v => v - level) : [];
+  let sse = 0;
+  let count = 0;
+  for (let t = m || 1; t < y.length; t++) {
+    const s = m ? seasonal[t % m] : 0;
+    const error = y[t] - (level + trend + s);
+    sse += error * error;
+    count++;
+    const prevLevel = level;
+    level = alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    if (m) seasonal[t % m] = gamma * (y[t] - level) + (1 - gamma) * s;
+  }
+  const n = y.length;
+  return {
+    sse,
+    count,
+    forecast: (h: number) => level + h * trend + (m ? seasonal[(n + h - 1) % m] : 0),
+  };
+};
+
+const fitSeries = (y: number[], seasonLength: number): Fit => {
+  if (y.length < 3) {
+    const avg = y.length ? mean(y) : 0;
+    const sigma = y.length ? Math.sqrt(mean(y.map(v => (v - avg) ** 2))) : 0;
+    return { method: 'mean', seasonLength: 0, params: { alpha: 0, beta: 0, gamma: 0 }, sigma, forecast: () => avg };
+  }
+  const season = y.length >= 2 * seasonLength ? seasonLength : 0;
+  let best: (ReturnType<typeof smooth> & { alpha: number; beta: number; gamma: number }) | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of season ? GAMMAS : [0]) {
+        const fit = smooth(y, season, alpha, beta, gamma);
+        if (!best || fit.sse < best.sse) best = { ...fit, alpha, beta, gamma };
+      }
+    }
+  }
+  const { alpha, beta, gamma, sse, count, forecast } = best!;
+  return {
+    method: season ? 'holt_winters' : 'holt',
+    seasonLength: season,
+    params: { alpha, beta, gamma },
+    sigma: count ? Math.sqrt(sse / count) : 0,
+    forecast,
+  };
+};
+
+// Mean absolute percentage error over the periods with demand
+const mapeOf = (actual: number[], predicted: number[]): number | null => {
+  const errors = actual
+    .map((a, i) => (a !== 0 ? Math.abs((a - predicted[i]) / a) : null))
+    .filter((e): e is number => e !== null);
+  return errors.length ? (errors.reduce((a, b) => a + b, 0) / errors.length) * 100 : null;
+};
+
+/**
+ * Forecasts units per week or month for the whole dataset or one category, supplier, model or
+ * customer. The model is picked by in-sample one-step error; MAPE comes from refitting without
+ * the last periods (up to the horizon, at most a fifth of the history) and forecasting them.
+ * Demand is never forecast below zero.
+ */
+export const buildForecast = (rows: MedFlowRow[], options: ForecastOptions): ForecastResult => {
+  const selected = options.dimension === 'all' || !options.value
+    ? rows
+    : rows.filter(row => dimensionValue(row, options.dimension) === options.value);
+  const { starts, values } = buildSeries(selected, options.granularity);
+  const seasonLength = SEASON_LENGTH[options.granularity];
+  const fit = fitSeries(values, seasonLength);
+
+  const holdout = Math.min(options.horizon, Math.floor(values.length / 5));
+  let mape: number | null = null;
+  if (holdout > 0 && values.length - holdout >= MIN_TRAINING) {
+    const training = fitSeries(values.slice(0, -holdout), seasonLength);
+    const predicted = Array.from({ length: holdout }, (_, i) => Math.max(0, training.forecast(i + 1)));
+    mape = mapeOf(values.slice(-holdout), predicted);
+  }
+
+  const points: ForecastPoint[] = starts.map((start, i) => ({
+    period: bucketLabel(start, options.granularity),
+    actual: values[i],
+    forecast: null,
+    lower: null,
+    upper: null,
+  }));
+  if (starts.length > 0) {
+    // The forecast line starts from the last actual so the two connect on the chart
+    const last = points[points.length - 1];
+    last.forecast = last.lower = last.upper = last.actual;
+    for (let h = 1; h <= options.horizon; h++) {
+      const value = Math.max(0, fit.forecast(h));
+      const spread = Z_95 * fit.sigma * Math.sqrt(h);
+      points.push({
+        period: bucketLabel(shiftBucket(starts[starts.length - 1], options.granularity, h), options.granularity),
+        actual: null,
+        forecast: Math.round(value * 10) / 10,
+        lower: Math.round(Math.max(0, value - spread) * 10) / 10,
+        upper: Math.round((value + spread) * 10) / 10,
+      });
+    }
+  }
+
+  return {
+    options,
+    method: fit.method,
+    seasonLength: fit.seasonLength,
+    params: fit.params,
+    points,
+    history: values.length,
+    holdout: mape === null ? 0 : holdout,
+    mape,
+  };
+};
+
+// The `forecast` prompt variable
+export const forecastMarkdown = (result: ForecastResult): string => {
+  const { options } = result;
+  if (result.history === 0) return 'No forecast: no dated deliveries in the current selection.';
+  const subject = options.dimension === 'all' || !options.value ? 'all filtered deliveries' : `${options.dimension} "${options.value}"`;
+  const method = result.method === 'holt_winters'
+    ? `additive Holt-Winters, season ${result.seasonLength}`
+    : result.method === 'holt' ? "Holt's linear trend (too little history for seasonality)" : 'historical mean (too little history)';
+  const lines = [
+    `Forecast of units per ${options.granularity} for ${subject}, ${options.horizon} ${options.granularity}s ahead.`,
+    `Method: ${method}; ${result.history} ${options.granularity}s of history.`,
+    result.mape === null
+      ? 'Backtest MAPE: not available (history too short or no demand in the holdout).'
+      : `Backtest MAPE: ${result.mape.toFixed(1)}% over the last ${result.holdout} ${options.granularity}s held out.`,
+    '',
+    '| Period | Forecast | 95% low | 95% high |',
+    '| --- | --- | --- | --- |',
+    ...result.points.filter(p => p.actual === null).map(p => `| ${p.period} | ${p.forecast} | ${p.lower} | ${p.upper} |`),
+  ];
+  return lines.join('\n');
+};
@@ -1,32 +1,75 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Content, FunctionCall, Part } from "@google/genai";
+import { LLMProvider, LLMRequest } from '../types';
 
-export const callGeminiAgent = async (
-  apiKey: string,
-  modelName: string,
-  systemInstruction: string,
-  prompt: string,
-  maxTokens: number
-): Promise<string> => {
+// Upper bound on model ↔ tool round trips for a single step
+const MAX_TOOL_ROUNDS = 8;
+
+const runToolCall = (request: LLMRequest, call: FunctionCall): Part => {
+  const name = call.name || '';
+  const args = (call.args || {}) as Record<string, unknown>;
+  const tool = request.tools?.find(t => t.name === name);
+  let response: Record<string, unknown>;
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    
-    // Fallback logic for model names if needed, but sticking to spec models
-    // Using gemini-3-flash-preview as the default efficient model
-    const targetModel = modelName.includes('gemini') ? modelName : 'gemini-3-flash-preview';
+    if (!tool) throw new Error(`Unknown tool "${name}"`);
+    const result = tool.execute(args);
+    request.onToolCall?.({ name, args, result, at: Date.now() });
+    response = { output: result };
+  } catch (e: any) {
+    request.onToolCall?.({ name, args, result: null, error: e.message, at: Date.now() });
+    response = { error: e.message };
+  }
+  return { functionResponse: { id: call.id, name, response } };
+};
 
-    const response = await ai.models.generateContent({
-      model: targetModel,
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        maxOutputTokens: maxTokens,
-        temperature: 0.2
-      }
-    });
+export const callGeminiAgent = async (request: LLMRequest): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: request.apiKey });
+  const tools = request.tools?.length
+    ? [{ functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+    : undefined;
+  const config = {
+    systemInstruction: request.systemInstruction,
+    maxOutputTokens: request.maxTokens,
+    temperature: request.temperature,
+    abortSignal: request.signal,
+    tools
+  };
 
+  if (!request.onToken && !tools) {
+    const response = await ai.models.generateContent({ model: request.model, contents: request.prompt, config });
     return response.text || "No response generated.";
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    return `Error calling Gemini: ${error.message}`;
   }
+
+  // Each round streams text as it arrives; when the model asks for tools, the calls run
+  // locally and their results are sent back in the next round
+  const contents: Content[] = [{ role: 'user', parts: [{ text: request.prompt }] }];
+  let text = '';
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const modelParts: Part[] = [];
+    const calls: FunctionCall[] = [];
+    const stream = await ai.models.generateContentStream({ model: request.model, contents, config });
+    for await (const chunk of stream) {
+      // Keep the raw parts: Gemini requires thought signatures to be echoed back with tool calls
+      modelParts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+      calls.push(...(chunk.functionCalls || []));
+      if (chunk.text) {
+        text += chunk.text;
+        request.onToken?.(chunk.text);
+      }
+    }
+    if (calls.length === 0) return text || "No response generated.";
+
+    contents.push({ role: 'model', parts: modelParts });
+    contents.push({ role: 'user', parts: calls.map(call => runToolCall(request, call)) });
+  }
+  throw new Error(`Gemini did not finish within ${MAX_TOOL_ROUNDS} tool-call rounds`);
+};
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  requiresApiKey: true,
+  supportsTools: true,
+  modelPattern: /^gemini-/,
+  defaultModel: 'gemini-3-flash-preview',
+  generate: callGeminiAgent
 };
@@ -0,0 +1,13 @@
+import { LLMProvider } from '../types';
+import { callChatCompletions } from './openaiService';
+
+// xAI exposes an OpenAI-compatible endpoint
+export const grokProvider: LLMProvider = {
+  id: 'grok',
+  label: 'Grok',
+  requiresApiKey: true,
+  supportsTools: false,
+  modelPattern: /^grok-/,
+  defaultModel: 'grok-3-mini',
+  generate: (request) => callChatCompletions('https://api.x.ai/v1', 'Grok', request)
+};
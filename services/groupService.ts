@@ -0,0 +1,14 @@
+import { MedFlowRow } from '../types';
+
+// Rows by key in first-seen order; rows whose key is empty are left out
+export const groupBy = (rows: MedFlowRow[], key: (row: MedFlowRow) => string): Map<string, MedFlowRow[]> => {
+  const groups = new Map<string, MedFlowRow[]>();
+  rows.forEach(row => {
+    const k = key(row);
+    if (!k) return;
+    const list = groups.get(k);
+    if (list) list.push(row);
+    else groups.set(k, [row]);
+  });
+  return groups;
+};
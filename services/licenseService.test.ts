@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { licenseStats, parseLicense } from './licenseService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader('Deliverdate,CustomerID,LicenseNo,Category,DeviceNAME,Model,Number');
+
+describe('parseLicense', () => {
+  it('splits permits into authority, origin, sub-type and number', () => {
+    expect(parseLicense('衛部醫器輸字第033951號')).toEqual({
+      authority: '衛部', origin: 'import', subType: 'standard', number: '033951', normalized: '衛部醫器輸字第033951號',
+    });
+    expect(parseLicense('衛署醫器製壹字第001234號')).toMatchObject({ authority: '衛署', origin: 'domestic', subType: 'class1' });
+    expect(parseLicense('衛部醫器陸輸字第000123號')).toMatchObject({ origin: 'import', subType: 'mainland' });
+  });
+
+  it('accepts full-width digits, spaces and a missing 第 or 號', () => {
+    expect(parseLicense(' 衛部醫器輸字 第０３３９５１號')?.normalized).toBe('衛部醫器輸字第033951號');
+    expect(parseLicense('衛部醫器輸字033951')?.number).toBe('033951');
+  });
+
+  it('rejects malformed numbers and other text', () => {
+    expect(parseLicense('衛部醫器輸字第12345號')).toBeNull();
+    expect(parseLicense('衛部醫器輸字第0339511號')).toBeNull();
+    expect(parseLicense('衛部醫器登字第033951號')).toBeNull();
+    expect(parseLicense('N/A')).toBeNull();
+    expect(parseLicense('')).toBeNull();
+  });
+});
+
+describe('licenseStats', () => {
+  it('counts spelling variants of a permit together, largest first', () => {
+    const stats = licenseStats(load([
+      '20250101,C1,衛部醫器輸字第033951號,E.3610 Pacemaker,Cardiac Pacemaker,P1,2',
+      '20250102,C2,衛部醫器輸字第０３３９５１號,E.3610 Pacemaker,Pacemaker Lead,P2,3',
+      '20250103,C1,PENDING,J.5000 Bandage,Bandage,B1,1',
+      '20250104,C1,,J.5000 Bandage,Bandage,B1,9',
+    ]));
+    expect(stats.map(s => [s.licenseNo, s.units, s.rows, s.customers])).toEqual([
+      ['衛部醫器輸字第033951號', 5, 2, 2],
+      ['PENDING', 1, 1, 1],
+    ]);
+    expect(stats[0].models.map(m => m.key)).toEqual(['P2', 'P1']);
+    expect(stats[0].flags).toEqual([]);
+    expect(stats[1].flags).toEqual(['unparsed']);
+  });
+
+  it('flags permits spanning unrelated panels or device names', () => {
+    const [stat] = licenseStats(load([
+      '20250101,C1,衛部醫器輸字第033951號,E.3610 Pacemaker,Cardiac Pacemaker,P1,2',
+      '20250102,C1,衛部醫器輸字第033951號,J.5000 Bandage,Elastic Bandage,B1,1',
+    ]));
+    expect(stat.flags).toEqual(['unrelated_categories', 'unrelated_devices']);
+  });
+});
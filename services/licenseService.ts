@@ -0,0 +1,118 @@
+import { MedFlowRow, LicenseInfo, LicenseOrigin, LicenseSubType, LicenseStat, LicenseShare, LicenseFlag, LicenseAuthority } from '../types';
+import { parseCategory } from './categoryService';
+
+// e.g. 衛部醫器輸字第033951號, 衛署醫器製壹字第001234號, 衛部醫器陸輸字第000123號
+const LICENSE_RE = /^(衛部|衛署)醫器(製|輸|陸輸)(壹)?字第?(\d{6})號?$/;
+
+const SUB_TYPES: Record<string, LicenseSubType> = {
+  '': 'standard',
+  '壹': 'class1',
+  '陸': 'mainland',
+  '陸壹': 'mainland_class1',
+};
+
+// Exports often carry full-width digits or stray spaces around the permit
+const clean = (value: string) =>
+  value.replace(/[\uff10-\uff19]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xfee0)).replace(/\s+/g, '');
+
+/**
+ * Splits a TFDA device permit into authority, import/domestic origin, sub-type and number.
+ * Returns null for anything else (including notification numbers and free text).
+ */
+export const parseLicense = (value: string): LicenseInfo | null => {
+  const m = LICENSE_RE.exec(clean(value));
+  if (!m) return null;
+  const mainland = m[2] === '陸輸';
+  const subType = SUB_TYPES[(mainland ? '陸' : '') + (m[3] ?? '')];
+  const origin: LicenseOrigin = m[2] === '製' ? 'domestic' : 'import';
+  return {
+    authority: m[1] as LicenseAuthority,
+    origin,
+    subType,
+    number: m[4],
+    normalized: `${m[1]}醫器${m[2]}${m[3] ?? ''}字第${m[4]}號`,
+  };
+};
+
+// --- License analytics ---
+
+// TFDA categories start with their classification panel letter ("E.3610 …"); others compare by name
+const categoryGroup = (category: string) => parseCategory(category).specialty || category.trim().toLowerCase();
+
+// Latin words and CJK character pairs, so "Cardiac Pacemaker" ~ "Pacemaker Lead" and 心律調節器 ~ 心律導線
+const nameTokens = (name: string): Set<string> => {
+  const tokens = new Set<string>();
+  (name.toLowerCase().match(/[a-z]{3,}/g) ?? []).forEach(w => tokens.add(w));
+  (name.match(/[\u4e00-\u9fff]+/g) ?? []).forEach(run => {
+    if (run.length === 1) tokens.add(run);
+    for (let i = 0; i + 1 < run.length; i++) tokens.add(run.slice(i, i + 2));
+  });
+  return tokens;
+};
+
+// Number of groups of names that are linked, directly or through another name, by a shared token
+const nameClusters = (names: string[]): number => {
+  const parent = names.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const owner = new Map<string, number>();
+  names.forEach((name, i) => {
+    nameTokens(name).forEach(token => {
+      const j = owner.get(token);
+      if (j === undefined) owner.set(token, i);
+      else parent[find(i)] = find(j);
+    });
+  });
+  return new Set(names.map((_, i) => find(i))).size;
+};
+
+const shares = (rows: MedFlowRow[], pick: (row: MedFlowRow) => string): LicenseShare[] => {
+  const map = new Map<string, LicenseShare>();
+  rows.forEach(row => {
+    const key = pick(row);
+    if (!key) return;
+    const share = map.get(key) ?? { key, units: 0, rows: 0 };
+    share.units += row.Number;
+    share.rows++;
+    map.set(key, share);
+  });
+  return Array.from(map.values()).sort((a, b) => b.units - a.units || a.key.localeCompare(b.key));
+};
+
+/**
+ * Volume, models, categories and devices per license. A license is flagged when its categories
+ * span several classification panels or its device names fall into groups with no word in common,
+ * which usually means shipments were booked under the wrong permit.
+ */
+export const licenseStats = (rows: MedFlowRow[]): LicenseStat[] => {
+  const byLicense = new Map<string, MedFlowRow[]>();
+  rows.forEach(row => {
+    if (!row.LicenseNo) return;
+    // Spelling variants of one permit are counted together
+    const key = row.licenseNumber ? parseLicense(row.LicenseNo)!.normalized : row.LicenseNo;
+    const list = byLicense.get(key);
+    if (list) list.push(row);
+    else byLicense.set(key, [row]);
+  });
+
+  return Array.from(byLicense.entries()).map(([licenseNo, group]): LicenseStat => {
+    // The 'General' placeholder for a missing category is not a scope of its own
+    const categories = shares(group, r => r.missingFields.includes('Category') ? '' : r.Category);
+    const devices = shares(group, r => r.DeviceNAME);
+    const info = parseLicense(licenseNo);
+    const flags: LicenseFlag[] = [];
+    if (!info) flags.push('unparsed');
+    if (new Set(categories.map(c => categoryGroup(c.key))).size > 1) flags.push('unrelated_categories');
+    if (devices.length > 1 && nameClusters(devices.map(d => d.key)) > 1) flags.push('unrelated_devices');
+    return {
+      licenseNo,
+      info,
+      units: group.reduce((acc, r) => acc + r.Number, 0),
+      rows: group.length,
+      customers: new Set(group.map(r => r.CustomerID)).size,
+      models: shares(group, r => r.Model),
+      categories,
+      devices,
+      flags,
+    };
+  }).sort((a, b) => b.units - a.units);
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { ApiKeys } from '../types';
+import { isProviderId, validateProviderModel } from './llmService';
+
+const KEYS: ApiKeys = { gemini: 'g-key', openai: '', anthropic: 'a-key', grok: '' };
+
+describe('validateProviderModel', () => {
+  it('accepts a known model of a provider with a key, and mock without one', () => {
+    expect(validateProviderModel('gemini', 'gemini-2.5-flash', KEYS)).toBeNull();
+    expect(validateProviderModel('anthropic', 'claude-sonnet-4-5', KEYS)).toBeNull();
+    expect(validateProviderModel('mock', 'anything', KEYS)).toBeNull();
+  });
+
+  it('rejects unknown providers and lists the known ones', () => {
+    expect(isProviderId('mistral')).toBe(false);
+    expect(validateProviderModel('mistral', 'mistral-large', KEYS))
+      .toBe('Unknown provider "mistral". Expected one of: gemini, openai, anthropic, grok, mock.');
+  });
+
+  it('rejects a missing model or one from another provider', () => {
+    expect(validateProviderModel('gemini', '', KEYS)).toBe('No model set for provider "gemini".');
+    expect(validateProviderModel('anthropic', 'gpt-4o', KEYS))
+      .toBe('Model "gpt-4o" is not available from provider "anthropic" (Anthropic).');
+  });
+
+  it('asks for the API key of providers that need one', () => {
+    expect(validateProviderModel('openai', 'gpt-4o', KEYS)).toBe('OpenAI API key is missing.');
+  });
+});
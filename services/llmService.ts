@@ -0,0 +1,49 @@
+import { ApiKeys, LLMProvider, LLMProviderId, LLMRequest } from '../types';
+import { geminiProvider } from './geminiService';
+import { openaiProvider } from './openaiService';
+import { anthropicProvider } from './anthropicService';
+import { grokProvider } from './grokService';
+import { mockProvider } from './mockService';
+
+export const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  grok: grokProvider,
+  mock: mockProvider
+};
+
+export const isProviderId = (id: string): id is LLMProviderId => id in PROVIDERS;
+
+export const getApiKey = (providerId: LLMProviderId, apiKeys: ApiKeys): string =>
+  providerId === 'mock' ? '' : apiKeys[providerId];
+
+// Returns a user-facing reason why the step cannot run, or null when it can
+export const validateProviderModel = (providerId: string, model: string, apiKeys: ApiKeys): string | null => {
+  if (!isProviderId(providerId)) {
+    return `Unknown provider "${providerId}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`;
+  }
+  const provider = PROVIDERS[providerId];
+  if (!model) return `No model set for provider "${providerId}".`;
+  if (!provider.modelPattern.test(model)) {
+    return `Model "${model}" is not available from provider "${providerId}" (${provider.label}).`;
+  }
+  if (provider.requiresApiKey && !getApiKey(providerId, apiKeys)) {
+    return `${provider.label} API key is missing.`;
+  }
+  return null;
+};
+
+export const callAgent = async (
+  providerId: string,
+  apiKeys: ApiKeys,
+  request: Omit<LLMRequest, 'apiKey'>
+): Promise<string> => {
+  const problem = validateProviderModel(providerId, request.model, apiKeys);
+  if (problem) throw new Error(problem);
+  const id = providerId as LLMProviderId;
+  if (request.tools?.length && !PROVIDERS[id].supportsTools) {
+    throw new Error(`Provider "${providerId}" does not support tool calling.`);
+  }
+  return PROVIDERS[id].generate({ ...request, apiKey: getApiKey(id, apiKeys) });
+};
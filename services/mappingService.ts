@@ -0,0 +1,85 @@
+import { ColumnMapping, MappingProfile, SourceSample } from '../types';
+import { createCsvParser, detectDelimiter, detectEncoding, Encoding, SAMPLE_ROWS } from './dataService';
+
+const SNIFF_BYTES = 64 * 1024;
+const STORAGE_KEY = 'medflow.mappingProfiles';
+
+const sampleCsv = (text: string, complete: boolean): SourceSample => {
+  const records: string[][] = [];
+  const parser = createCsvParser(fields => { records.push(fields); }, () => {}, detectDelimiter(text));
+  parser.push(text);
+  // A truncated sniff may end mid-record; only finish the text when it is the whole source
+  if (complete) parser.end();
+  const [header = [], ...rows] = records;
+  return { headers: header.map(h => h.trim()), rows: rows.slice(0, SAMPLE_ROWS) };
+};
+
+/**
+ * Reads the header and first rows of a CSV file or pasted text from its first 64 KB. JSON cannot
+ * be parsed partially, so it is not read here: null tells the caller to take the sample from the
+ * parser worker (`onSample`), which has to parse it in full anyway.
+ */
+export const sniffSource = async (source: File | string, encoding: Encoding): Promise<SourceSample | null> => {
+  let text: string;
+  let complete = true;
+  if (typeof source === 'string') {
+    text = source;
+  } else {
+    const head = new Uint8Array(await source.slice(0, SNIFF_BYTES).arrayBuffer());
+    text = new TextDecoder(encoding === 'auto' ? detectEncoding(head) : encoding).decode(head, { stream: true });
+    complete = source.size <= SNIFF_BYTES;
+  }
+  text = text.replace(/^\uFEFF/, '').trimStart();
+  if (!text) return { headers: [], rows: [] };
+  return text[0] === '[' || text[0] === '{' ? null : sampleCsv(text, complete);
+};
+
+// Profiles match on the set of headers, so reordered columns still pick up the same profile
+const headerKey = (headers: string[]) => [...headers].map(h => h.trim()).sort().join('\u0000');
+
+export const findProfile = (profiles: MappingProfile[], headers: string[]): MappingProfile | null => {
+  const key = headerKey(headers);
+  return profiles
+    .filter(p => headerKey(p.headers) === key)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null;
+};
+
+export const loadProfiles = (): MappingProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeProfiles = (profiles: MappingProfile[]): MappingProfile[] => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+// Saving under an existing name replaces that profile
+export const saveProfile = (
+  profiles: MappingProfile[],
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping
+): MappingProfile[] => {
+  const existing = profiles.find(p => p.name === name);
+  const profile: MappingProfile = {
+    id: existing?.id ?? `map-${Date.now().toString(36)}`,
+    name,
+    headers,
+    columns: mapping.columns,
+    transforms: mapping.transforms,
+    dateFormat: mapping.dateFormat,
+    updatedAt: Date.now(),
+  };
+  return storeProfiles([...profiles.filter(p => p.id !== profile.id), profile]);
+};
+
+export const deleteProfile = (profiles: MappingProfile[], id: string): MappingProfile[] =>
+  storeProfiles(profiles.filter(p => p.id !== id));
+
+export const toMapping = ({ columns, transforms, dateFormat }: ColumnMapping): ColumnMapping =>
+  ({ columns, transforms, dateFormat });
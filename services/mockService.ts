@@ -0,0 +1,45 @@
+import { LLMProvider, LLMRequest } from '../types';
+
+// FNV-1a, so the same prompt always yields the same fingerprint
+const hashString = (str: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+// Deterministic local provider for building and testing pipelines without network access.
+// It echoes the rendered prompt back, truncated to roughly maxTokens (4 chars per token).
+export const callMockAgent = async (request: LLMRequest): Promise<string> => {
+  const fingerprint = hashString(`${request.model}\n${request.systemInstruction}\n${request.prompt}`);
+  const body = [
+    `[mock:${request.model}] #${fingerprint}`,
+    `System: ${request.systemInstruction.split('\n')[0]}`,
+    `Prompt: ${request.prompt}`
+  ].join('\n');
+  const limit = request.maxTokens * 4;
+  const text = body.length > limit ? `${body.slice(0, limit)}…` : body;
+
+  if (!request.onToken) return text;
+
+  // Stream word by word so cancel/pause can be exercised offline
+  const chunks = text.match(/\S+\s*|\s+/g) || [];
+  for (const chunk of chunks) {
+    if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    await new Promise(resolve => setTimeout(resolve, 15));
+    request.onToken(chunk);
+  }
+  return text;
+};
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Mock (Echo)',
+  requiresApiKey: false,
+  supportsTools: false,
+  modelPattern: /.*/,
+  defaultModel: 'echo',
+  generate: callMockAgent
+};
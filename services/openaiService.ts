@@ -0,0 +1,65 @@
+import { LLMProvider, LLMRequest } from '../types';
+import { readSSE } from './streamService';
+
+// Shared by every vendor that speaks the OpenAI chat-completions wire format.
+// `sendTemperature` is false for models that reject the parameter.
+export const callChatCompletions = async (
+  baseUrl: string,
+  label: string,
+  request: LLMRequest,
+  maxTokensField: 'max_tokens' | 'max_completion_tokens' = 'max_tokens',
+  sendTemperature = true
+): Promise<string> => {
+  const stream = !!request.onToken;
+  const res = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal: request.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${request.apiKey}`
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.systemInstruction },
+        { role: 'user', content: request.prompt }
+      ],
+      [maxTokensField]: request.maxTokens,
+      ...(sendTemperature && { temperature: request.temperature }),
+      stream
+    })
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(`${label} API error (${res.status}): ${body?.error?.message || res.statusText}`);
+  }
+
+  if (stream) {
+    let text = '';
+    await readSSE(res, event => {
+      const chunk = event?.choices?.[0]?.delta?.content;
+      if (!chunk) return;
+      text += chunk;
+      request.onToken!(chunk);
+    });
+    return text || "No response generated.";
+  }
+
+  const body = await res.json();
+  return body?.choices?.[0]?.message?.content || "No response generated.";
+};
+
+// o-series reasoning models (o1, o3-mini, o4-mini…) only accept the default temperature
+const REASONING_MODEL = /^o\d/;
+
+export const openaiProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  requiresApiKey: true,
+  supportsTools: false,
+  modelPattern: /^(gpt-|o\d|chatgpt-)/,
+  defaultModel: 'gpt-4o-mini',
+  generate: (request) =>
+    callChatCompletions('https://api.openai.com/v1', 'OpenAI', request, 'max_completion_tokens', !REASONING_MODEL.test(request.model))
+};
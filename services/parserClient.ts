@@ -0,0 +1,106 @@
+import { MedFlowRow, ColumnMapping, RowSource, SourceSample } from '../types';
+import { ParseSummary, Encoding } from './dataService';
+
+export interface ParserRequest {
+  source: File | string;
+  batchSize: number;
+  encoding: Encoding; // files only; pasted text is already decoded
+  mapping?: ColumnMapping;
+  rowSource?: RowSource;
+  sample: boolean; // post a 'sample' message for JSON sources
+}
+
+export interface ParseResult extends ParseSummary {
+  encoding: Encoding | null; // the encoding actually used, null for pasted text
+}
+
+export type ParserMessage =
+  | { type: 'sample'; sample: SourceSample }
+  | { type: 'rows'; rows: MedFlowRow[] }
+  | { type: 'progress'; loaded: number; total: number }
+  | ({ type: 'done' } & ParseResult)
+  | { type: 'error'; message: string };
+
+export interface ParseProgress {
+  loaded: number; // bytes for files, characters for pasted text
+  total: number;
+  rows: number;
+}
+
+export interface ParseOptions {
+  onRows: (rows: MedFlowRow[]) => void;
+  // JSON only, before the first rows: the headers and first records, for mapping the columns
+  onSample?: (sample: SourceSample) => void;
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+  batchSize?: number;
+  encoding?: Encoding;
+  mapping?: ColumnMapping; // header aliases are used when omitted
+  rowSource?: RowSource;
+}
+
+/**
+ * Parses a file or pasted text in a Web Worker. Rows arrive in batches through `onRows`
+ * while parsing continues; aborting the signal terminates the worker and rejects with an AbortError.
+ */
+export const parseInWorker = (source: File | string, options: ParseOptions): Promise<ParseResult> =>
+  new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./parserWorker.ts', import.meta.url), { type: 'module' });
+    let rows = 0;
+
+    const finish = () => {
+      worker.onmessage = null; // messages already queued must not reach a cancelled caller
+      worker.terminate();
+      options.signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    options.signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<ParserMessage>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'sample':
+          options.onSample?.(message.sample);
+          break;
+        case 'rows':
+          rows += message.rows.length;
+          options.onRows(message.rows);
+          break;
+        case 'progress':
+          options.onProgress?.({ loaded: message.loaded, total: message.total, rows });
+          break;
+        case 'done': {
+          const { type, ...result } = message;
+          finish();
+          resolve(result);
+          break;
+        }
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Parser worker failed'));
+    };
+
+    const request: ParserRequest = {
+      source,
+      batchSize: options.batchSize ?? 10_000,
+      encoding: options.encoding ?? 'auto',
+      mapping: options.mapping,
+      rowSource: options.rowSource,
+      sample: !!options.onSample,
+    };
+    worker.postMessage(request);
+  });
@@ -0,0 +1,49 @@
+/// <reference lib="webworker" />
+import { createDataStream, detectEncoding } from './dataService';
+import { ParserRequest, ParserMessage } from './parserClient';
+
+// Reads the source in chunks so neither the file nor the parsed rows block the UI thread.
+// Cancellation is handled by the client terminating the worker.
+
+const CHUNK_BYTES = 1 << 20;  // files
+const CHUNK_CHARS = 1 << 20;  // pasted text
+const SNIFF_BYTES = 64 * 1024;
+
+const post = (message: ParserMessage) => (self as unknown as DedicatedWorkerGlobalScope).postMessage(message);
+
+self.onmessage = async (e: MessageEvent<ParserRequest>) => {
+  const { source, batchSize, mapping, rowSource, sample } = e.data;
+  try {
+    const stream = createDataStream(rows => post({ type: 'rows', rows }), {
+      batchSize,
+      mapping,
+      source: rowSource,
+      onSample: sample ? s => post({ type: 'sample', sample: s }) : undefined,
+    });
+    const progress = (loaded: number, total: number) => post({ type: 'progress', loaded, total });
+    let encoding: ParserRequest['encoding'] | null = null;
+
+    if (typeof source === 'string') {
+      for (let offset = 0; offset < source.length; offset += CHUNK_CHARS) {
+        stream.push(source.slice(offset, offset + CHUNK_CHARS));
+        progress(Math.min(offset + CHUNK_CHARS, source.length), source.length);
+      }
+    } else {
+      encoding = e.data.encoding === 'auto'
+        ? detectEncoding(new Uint8Array(await source.slice(0, SNIFF_BYTES).arrayBuffer()))
+        : e.data.encoding;
+      // TextDecoder strips a matching BOM by default
+      const decoder = new TextDecoder(encoding);
+      for (let offset = 0; offset < source.size; offset += CHUNK_BYTES) {
+        const bytes = await source.slice(offset, offset + CHUNK_BYTES).arrayBuffer();
+        stream.push(decoder.decode(bytes, { stream: true }));
+        progress(Math.min(offset + CHUNK_BYTES, source.size), source.size);
+      }
+      stream.push(decoder.decode());
+    }
+
+    post({ type: 'done', ...stream.end(), encoding });
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};
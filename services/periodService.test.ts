@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { bucketStart, bucketLabel, buildTrend, comparePeriods } from './periodService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader();
+
+describe('bucketStart', () => {
+  const day = new Date(2025, 4, 18, 15, 30); // Sunday 18 May 2025
+
+  it('starts weeks on Monday and quarters on their first month', () => {
+    expect(bucketStart(day, 'day')).toEqual(new Date(2025, 4, 18));
+    expect(bucketStart(day, 'week')).toEqual(new Date(2025, 4, 12));
+    expect(bucketStart(day, 'month')).toEqual(new Date(2025, 4, 1));
+    expect(bucketStart(day, 'quarter')).toEqual(new Date(2025, 3, 1));
+    expect(bucketStart(day, 'year')).toEqual(new Date(2025, 0, 1));
+  });
+
+  it('labels each granularity', () => {
+    expect(bucketLabel(bucketStart(day, 'week'), 'week')).toBe('2025-05-12');
+    expect(bucketLabel(bucketStart(day, 'month'), 'month')).toBe('2025-05');
+    expect(bucketLabel(bucketStart(day, 'quarter'), 'quarter')).toBe('2025-Q2');
+    expect(bucketLabel(bucketStart(day, 'year'), 'year')).toBe('2025');
+  });
+});
+
+describe('buildTrend', () => {
+  const rows = load(['20250110,S1,C1,3', '20250305,S1,C1,2', '20250320,S1,C2,1', 'unknown,S1,C1,100']);
+
+  it('fills empty buckets with zero and leaves undated rows out', () => {
+    expect(buildTrend(rows, 'month', 'none')).toEqual([
+      { period: '2025-01', val: 3, compare: null },
+      { period: '2025-02', val: 0, compare: null },
+      { period: '2025-03', val: 3, compare: null },
+    ]);
+  });
+
+  it('compares with the previous bucket, null before the data starts', () => {
+    expect(buildTrend(rows, 'month', 'previous').map(p => p.compare)).toEqual([null, 3, 0]);
+  });
+
+  it('compares with the same bucket a year earlier', () => {
+    const trend = buildTrend(load(['20240310,S1,C1,5', '20250310,S1,C1,7']), 'quarter', 'year');
+    expect(trend[0]).toEqual({ period: '2024-Q1', val: 5, compare: null });
+    expect(trend[trend.length - 1]).toEqual({ period: '2025-Q1', val: 7, compare: 5 });
+  });
+
+  it('returns nothing without dated rows', () => {
+    expect(buildTrend(load(['unknown,S1,C1,1']), 'day', 'previous')).toEqual([]);
+  });
+});
+
+describe('comparePeriods', () => {
+  it('cuts both buckets to the same number of days', () => {
+    const rows = load(['20250205,S1,C1,4', '20250220,S2,C2,8', '20250302,S1,C1,1', '20250310,S1,C2,2']);
+    expect(comparePeriods(rows, 'month', 'previous')).toEqual({
+      current: { label: '2025-03', from: '2025-03-01', to: '2025-03-10', stats: { rows: 2, units: 3, suppliers: 1, customers: 2 } },
+      previous: { label: '2025-02', from: '2025-02-01', to: '2025-02-10', stats: { rows: 1, units: 4, suppliers: 1, customers: 1 } },
+    });
+  });
+
+  it('stops the earlier window at the end of a shorter bucket', () => {
+    const result = comparePeriods(load(['20250331,S1,C1,1']), 'month', 'previous');
+    expect(result?.previous).toMatchObject({ from: '2025-02-01', to: '2025-02-28' });
+  });
+
+  it('is null without a comparison or dated rows', () => {
+    expect(comparePeriods(load(['20250310,S1,C1,1']), 'month', 'none')).toBeNull();
+    expect(comparePeriods(load(['unknown,S1,C1,1']), 'month', 'year')).toBeNull();
+  });
+});
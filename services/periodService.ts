@@ -0,0 +1,131 @@
+import { MedFlowRow, TimeGranularity, PeriodComparison, PeriodStats, PeriodWindow } from '../types';
+import { formatDate } from './exportService';
+import { inDateRange } from './dateService';
+
+export const TIME_GRANULARITIES: TimeGranularity[] = ['day', 'week', 'month', 'quarter', 'year'];
+export const PERIOD_COMPARISONS: PeriodComparison[] = ['none', 'previous', 'year'];
+
+// Buckets of each granularity in a year, for year-over-year offsets
+const BUCKETS_PER_YEAR: Record<Exclude<TimeGranularity, 'day'>, number> = { week: 52, month: 12, quarter: 4, year: 1 };
+
+// --- Buckets ---
+
+export const bucketStart = (date: Date, granularity: TimeGranularity): Date => {
+  const y = date.getFullYear();
+  const m = date.getMonth();
+  switch (granularity) {
+    case 'day': return new Date(y, m, date.getDate());
+    case 'week': return new Date(y, m, date.getDate() - ((date.getDay() + 6) % 7)); // Monday
+    case 'month': return new Date(y, m, 1);
+    case 'quarter': return new Date(y, m - (m % 3), 1);
+    case 'year': return new Date(y, 0, 1);
+  }
+};
+
+// The bucket `steps` after (or before, when negative) the one starting at `start`
+export const shiftBucket = (start: Date, granularity: TimeGranularity, steps: number): Date => {
+  const y = start.getFullYear();
+  const m = start.getMonth();
+  switch (granularity) {
+    case 'day': return new Date(y, m, start.getDate() + steps);
+    case 'week': return new Date(y, m, start.getDate() + 7 * steps);
+    case 'month': return new Date(y, m + steps, 1);
+    case 'quarter': return new Date(y, m + 3 * steps, 1);
+    case 'year': return new Date(y + steps, 0, 1);
+  }
+};
+
+export const bucketLabel = (start: Date, granularity: TimeGranularity): string => {
+  switch (granularity) {
+    case 'day':
+    case 'week': return formatDate(start);
+    case 'month': return formatDate(start).slice(0, 7);
+    case 'quarter': return `${start.getFullYear()}-Q${Math.floor(start.getMonth() / 3) + 1}`;
+    case 'year': return String(start.getFullYear());
+  }
+};
+
+// Start of the bucket a bucket is compared with; a day a year back keeps its calendar date
+const comparisonStart = (start: Date, granularity: TimeGranularity, comparison: PeriodComparison): Date => {
+  if (comparison === 'previous') return shiftBucket(start, granularity, -1);
+  if (granularity === 'day') return new Date(start.getFullYear() - 1, start.getMonth(), start.getDate());
+  return shiftBucket(start, granularity, -BUCKETS_PER_YEAR[granularity]);
+};
+
+// --- Trend ---
+
+export interface TrendPoint {
+  period: string;
+  val: number; // units
+  compare: number | null; // units in the comparison bucket; null before the data starts
+}
+
+/**
+ * Units per bucket from the first to the last dated delivery, with empty buckets as zero so
+ * gaps show on the chart. Rows without a parsed date are left out.
+ */
+export const buildTrend = (rows: MedFlowRow[], granularity: TimeGranularity, comparison: PeriodComparison): TrendPoint[] => {
+  const byBucket = new Map<number, number>();
+  rows.forEach(row => {
+    if (!row.parsedDate) return;
+    const key = bucketStart(row.parsedDate, granularity).getTime();
+    byBucket.set(key, (byBucket.get(key) ?? 0) + row.Number);
+  });
+  if (byBucket.size === 0) return [];
+  const keys = Array.from(byBucket.keys());
+  const first = keys.reduce((min, k) => Math.min(min, k), Infinity);
+  const last = keys.reduce((max, k) => Math.max(max, k), -Infinity);
+
+  const points: TrendPoint[] = [];
+  for (let d = new Date(first); d.getTime() <= last; d = shiftBucket(d, granularity, 1)) {
+    let compare: number | null = null;
+    if (comparison !== 'none') {
+      const key = comparisonStart(d, granularity, comparison).getTime();
+      compare = key < first ? null : byBucket.get(key) ?? 0;
+    }
+    points.push({ period: bucketLabel(d, granularity), val: byBucket.get(d.getTime()) ?? 0, compare });
+  }
+  return points;
+};
+
+// --- KPI deltas ---
+
+export const periodStats = (rows: MedFlowRow[]): PeriodStats => ({
+  rows: rows.length,
+  units: rows.reduce((acc, r) => acc + r.Number, 0),
+  suppliers: new Set(rows.map(r => r.SupplierID)).size,
+  customers: new Set(rows.map(r => r.CustomerID)).size,
+});
+
+const periodWindow = (rows: MedFlowRow[], label: string, from: Date, to: Date): PeriodWindow => {
+  const range: [string, string] = [formatDate(from), formatDate(to)];
+  return { label, from: range[0], to: range[1], stats: periodStats(rows.filter(r => inDateRange(r.parsedDate, range))) };
+};
+
+/**
+ * The bucket holding the latest delivery against the previous bucket or the same bucket a year
+ * earlier. The latest bucket is usually still running, so both are cut to the same number of
+ * days (period to date): a month that is ten days in is compared with the first ten days of the
+ * other month, not with all of it. Null without dated rows or without a comparison.
+ */
+export const comparePeriods = (
+  rows: MedFlowRow[],
+  granularity: TimeGranularity,
+  comparison: PeriodComparison
+): { current: PeriodWindow; previous: PeriodWindow } | null => {
+  if (comparison === 'none') return null;
+  const latest = rows.reduce<Date | null>((max, r) => (r.parsedDate && (!max || r.parsedDate > max) ? r.parsedDate : max), null);
+  if (!latest) return null;
+
+  const start = bucketStart(latest, granularity);
+  const elapsedDays = Math.round((bucketStart(latest, 'day').getTime() - start.getTime()) / 86400000);
+  const previousStart = comparisonStart(start, granularity, comparison);
+  const previousBucketEnd = shiftBucket(shiftBucket(previousStart, granularity, 1), 'day', -1);
+  const previousCut = shiftBucket(previousStart, 'day', elapsedDays);
+  const previousEnd = previousCut < previousBucketEnd ? previousCut : previousBucketEnd;
+
+  return {
+    current: periodWindow(rows, bucketLabel(start, granularity), start, latest),
+    previous: periodWindow(rows, bucketLabel(previousStart, granularity), previousStart, previousEnd),
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { AgentStep } from '../types';
+import { runDag, NonRetryableError, DagRunCallbacks, findCycle, computeLevels, renderPromptTemplate } from './pipelineService';
+
+const step = (id: string, depends_on: string[] = [], max_attempts = 1, backoff_ms = 0) =>
+  ({ id, depends_on, retry: { max_attempts, backoff_ms } }) as AgentStep;
+
+// Runs `steps` with `execute`, collecting the latest state of every step
+const run = async (steps: AgentStep[], execute: DagRunCallbacks['execute'], signal?: AbortSignal) => {
+  const result: Record<string, Partial<AgentStep>> = {};
+  const outputs = await runDag(steps, {
+    execute,
+    onUpdate: (id, patch) => { result[id] = { ...result[id], ...patch }; },
+  }, { signal, initialOutputs: { earlier: 'kept' } });
+  return { outputs, result };
+};
+
+describe('runDag', () => {
+  it('starts independent steps together and feeds their outputs downstream', async () => {
+    const started: string[] = [];
+    const { outputs, result } = await run([step('a'), step('b'), step('c', ['a', 'b', 'earlier'])], async (s, prior) => {
+      started.push(s.id);
+      await Promise.resolve();
+      return s.id === 'c' ? `${prior.a}+${prior.b}+${prior.earlier}` : s.id.toUpperCase();
+    });
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(outputs.c).toBe('A+B+kept');
+    expect(result.c).toMatchObject({ status: 'completed', attempts: 1 });
+  });
+
+  it('retries failed attempts and skips descendants of a step that keeps failing', async () => {
+    let calls = 0;
+    const { result } = await run([step('flaky', [], 3, 1), step('broken', [], 2, 1), step('after', ['broken'])], async s => {
+      if (s.id === 'flaky' && ++calls < 3) throw new Error('timeout');
+      if (s.id === 'broken') throw new Error('bad request');
+      return 'ok';
+    });
+    expect(result.flaky).toMatchObject({ status: 'completed', attempts: 3 });
+    expect(result.broken).toMatchObject({ status: 'error', attempts: 2, output: 'Error: bad request' });
+    expect(result.after.status).toBe('skipped');
+  });
+
+  it('does not retry a non-retryable error', async () => {
+    let calls = 0;
+    const { result } = await run([step('big', [], 5, 1)], async () => {
+      calls++;
+      throw new NonRetryableError('Prompt is over its context budget');
+    });
+    expect(calls).toBe(1);
+    expect(result.big).toMatchObject({ status: 'error', attempts: 1 });
+  });
+
+  it('stops waiting out the retry backoff as soon as the run is cancelled', async () => {
+    const controller = new AbortController();
+    const begin = Date.now();
+    const { result } = await run([step('slow', [], 3, 60000), step('next', ['slow'])], async () => {
+      setTimeout(() => controller.abort(), 10);
+      throw new Error('rate limited');
+    }, controller.signal);
+    expect(Date.now() - begin).toBeLessThan(5000);
+    expect(result.slow).toMatchObject({ status: 'cancelled', attempts: 1 });
+    expect(result.next.status).toBe('cancelled');
+  });
+});
+
+describe('DAG helpers', () => {
+  it('finds cycles and lays steps out by depth', () => {
+    expect(findCycle([step('a', ['c']), step('b', ['a']), step('c', ['b'])])).toEqual(['a', 'c', 'b', 'a']);
+    expect(findCycle([step('a'), step('b', ['a', 'missing'])])).toBeNull();
+    expect(computeLevels([step('a'), step('b', ['a']), step('c', ['a', 'b'])])).toEqual({ a: 0, b: 1, c: 2 });
+  });
+
+  it('renders variables and outputs, leaving unknown ones as they are', () => {
+    const vars = { variables: { data_summary: 'S' }, outputs: { step1: 'O' } };
+    expect(renderPromptTemplate('{{ data_summary }} {{outputs.step1}} {{outputs.x}} {{nope}}', vars)).toBe('S O {{outputs.x}} {{nope}}');
+  });
+});
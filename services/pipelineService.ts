@@ -0,0 +1,252 @@
+import { AgentStep } from '../types';
+import { isAbortError } from './streamService';
+
+export interface PromptVariables {
+  variables: Record<string, string>; // {{name}}: context variables and previous_output
+  outputs: Record<string, string>;   // {{outputs.<id>}}
+}
+
+const OUTPUT_REF = /\{\{\s*outputs\.([\w.-]+)\s*\}\}/g;
+
+// Step ids referenced as {{outputs.<id>}} in a template
+export const referencedOutputs = (template: string): string[] =>
+  Array.from(template.matchAll(OUTPUT_REF), m => m[1]);
+
+// Replaces every {{name}} / {{outputs.<id>}} occurrence; unknown variables are left untouched
+export const renderPromptTemplate = (template: string, vars: PromptVariables): string =>
+  template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (whole, name: string) => {
+    if (name.startsWith('outputs.')) {
+      const id = name.slice('outputs.'.length);
+      return vars.outputs[id] !== undefined ? vars.outputs[id] : whole;
+    }
+    return vars.variables[name] !== undefined ? vars.variables[name] : whole;
+  });
+
+// What downstream steps see: the analyst's edit when there is one, else the model output
+export const effectiveOutput = (step: Pick<AgentStep, 'output' | 'editedOutput'>): string =>
+  step.editedOutput ?? step.output;
+
+// {{previous_output}} resolves to the last declared dependency
+export const buildPromptVariables = (step: AgentStep, context: Record<string, string>, outputs: Record<string, string>): PromptVariables => {
+  const lastDep = step.depends_on[step.depends_on.length - 1];
+  return {
+    variables: {
+      ...context,
+      previous_output: lastDep !== undefined && outputs[lastDep] !== undefined ? outputs[lastDep] : 'None',
+    },
+    outputs,
+  };
+};
+
+// Returns the ids forming a dependency cycle, or null when the graph is acyclic
+export const findCycle = (steps: Pick<AgentStep, 'id' | 'depends_on'>[]): string[] | null => {
+  const deps = new Map(steps.map(s => [s.id, s.depends_on]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...stack.slice(stack.indexOf(id)), id];
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of deps.get(id) || []) {
+      if (!deps.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const s of steps) {
+    const cycle = visit(s.id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+// Longest-path depth of each step, used to lay the DAG out in columns
+export const computeLevels = (steps: Pick<AgentStep, 'id' | 'depends_on'>[]): Record<string, number> => {
+  const deps = new Map(steps.map(s => [s.id, s.depends_on]));
+  const levels: Record<string, number> = {};
+  const level = (id: string, seen: Set<string>): number => {
+    if (levels[id] !== undefined) return levels[id];
+    if (seen.has(id)) return 0; // cycles are rejected by the config parser
+    seen.add(id);
+    const parents = (deps.get(id) || []).filter(d => deps.has(d));
+    levels[id] = parents.length ? Math.max(...parents.map(p => level(p, seen))) + 1 : 0;
+    return levels[id];
+  };
+  steps.forEach(s => level(s.id, new Set()));
+  return levels;
+};
+
+// Steps downstream of `id` (not including `id` itself), in declaration order
+export const descendantsOf = (steps: Pick<AgentStep, 'id' | 'depends_on'>[], id: string): string[] => {
+  const found = new Set<string>([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    steps.forEach(s => {
+      if (!found.has(s.id) && s.depends_on.some(d => found.has(d))) {
+        found.add(s.id);
+        grew = true;
+      }
+    });
+  }
+  return steps.filter(s => s.id !== id && found.has(s.id)).map(s => s.id);
+};
+
+// Resolves after `ms`, or as soon as `signal` aborts; callers check the signal afterwards
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (signal?.aborted) return resolve();
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+// Thrown by `execute` for failures another attempt cannot fix, such as a prompt over its context budget
+export class NonRetryableError extends Error {
+  name = 'NonRetryableError';
+}
+
+export interface StepContext {
+  attempt: number;
+  signal?: AbortSignal;
+  // Streamed chunks are accumulated by the runner, so cancelled steps keep their partial output
+  onToken: (chunk: string) => void;
+}
+
+export interface DagRunCallbacks {
+  // Produces the step output; throwing marks the attempt as failed, or the step when it is a NonRetryableError
+  execute: (step: AgentStep, outputs: Record<string, string>, context: StepContext) => Promise<string>;
+  onUpdate: (id: string, patch: Partial<AgentStep>) => void;
+  // Awaited before a step starts; `started` is how many steps this run already started
+  beforeStep?: (step: AgentStep, started: number) => Promise<void>;
+  // Per-step signal, so a single step can be cancelled without stopping the run
+  signalFor?: (id: string) => AbortSignal;
+}
+
+export interface DagRunOptions {
+  // Results of steps that are not part of this run
+  initialOutputs?: Record<string, string>;
+  // Aborting stops the whole run: running steps are cancelled and nothing new starts
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the steps as a DAG: every step whose dependencies have completed is started
+ * immediately, so independent branches run in parallel. A step that still fails after
+ * its retry policy is exhausted, or is cancelled, causes all of its descendants to be skipped.
+ */
+export const runDag = async (
+  steps: AgentStep[],
+  callbacks: DagRunCallbacks,
+  options: DagRunOptions = {}
+): Promise<Record<string, string>> => {
+  const outputs: Record<string, string> = { ...options.initialOutputs };
+  const ids = new Set(steps.map(s => s.id));
+  const state = new Map<string, AgentStep['status']>(steps.map(s => [s.id, 'idle']));
+  const running = new Map<string, Promise<void>>();
+  let started = 0;
+
+  steps.forEach(s => callbacks.onUpdate(s.id, {
+    status: 'idle', output: '', editedOutput: undefined, attempts: 0, startedAt: undefined, finishedAt: undefined
+  }));
+
+  const depsDone = (s: AgentStep) =>
+    s.depends_on.every(d => ids.has(d) ? state.get(d) === 'completed' : outputs[d] !== undefined);
+  const depsFailed = (s: AgentStep) =>
+    s.depends_on.some(d => ['error', 'skipped', 'cancelled'].includes(state.get(d) as string));
+
+  const runStep = async (step: AgentStep, order: number) => {
+    const signal = callbacks.signalFor?.(step.id) ?? options.signal;
+    let partial = '';
+    const cancel = () => {
+      state.set(step.id, 'cancelled');
+      callbacks.onUpdate(step.id, {
+        status: 'cancelled', output: partial ? `${partial}\n\n[Cancelled]` : '[Cancelled]', finishedAt: Date.now()
+      });
+    };
+
+    if (callbacks.beforeStep) await callbacks.beforeStep(step, order);
+    if (signal?.aborted) return cancel();
+
+    const { max_attempts, backoff_ms } = step.retry;
+    for (let attempt = 1; attempt <= max_attempts; attempt++) {
+      partial = '';
+      callbacks.onUpdate(step.id, { status: 'running', attempts: attempt, output: '', ...(attempt === 1 && { startedAt: Date.now() }) });
+      try {
+        const output = await callbacks.execute(step, outputs, {
+          attempt,
+          signal,
+          onToken: chunk => {
+            partial += chunk;
+            callbacks.onUpdate(step.id, { output: partial });
+          }
+        });
+        outputs[step.id] = output;
+        state.set(step.id, 'completed');
+        callbacks.onUpdate(step.id, { status: 'completed', output, finishedAt: Date.now() });
+        return;
+      } catch (e: any) {
+        if (signal?.aborted || isAbortError(e)) return cancel();
+        if (attempt < max_attempts && !(e instanceof NonRetryableError)) {
+          callbacks.onUpdate(step.id, { output: `Attempt ${attempt} failed: ${e.message}. Retrying...` });
+          await sleep(backoff_ms * 2 ** (attempt - 1), signal);
+          if (signal?.aborted) return cancel();
+          continue;
+        }
+        state.set(step.id, 'error');
+        callbacks.onUpdate(step.id, { status: 'error', output: `Error: ${e.message}`, finishedAt: Date.now() });
+        return;
+      }
+    }
+  };
+
+  while (true) {
+    // Propagate failures before scheduling, so skipped chains are marked in one pass
+    let changed = true;
+    while (changed) {
+      changed = false;
+      steps.forEach(s => {
+        if (state.get(s.id) !== 'idle' || !depsFailed(s)) return;
+        if (options.signal?.aborted) {
+          state.set(s.id, 'cancelled');
+          callbacks.onUpdate(s.id, { status: 'cancelled', output: '[Cancelled]' });
+        } else {
+          state.set(s.id, 'skipped');
+          callbacks.onUpdate(s.id, { status: 'skipped', output: 'Skipped: an upstream step failed or was cancelled.' });
+        }
+        changed = true;
+      });
+    }
+
+    if (!options.signal?.aborted) {
+      steps.forEach(s => {
+        if (state.get(s.id) !== 'idle' || !depsDone(s)) return;
+        state.set(s.id, 'running');
+        running.set(s.id, runStep(s, started++).finally(() => running.delete(s.id)));
+      });
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  // Anything still idle was never reached: the run was cancelled, or it depends on a
+  // step outside this run that never produced output
+  steps.forEach(s => {
+    if (state.get(s.id) !== 'idle') return;
+    callbacks.onUpdate(s.id, options.signal?.aborted
+      ? { status: 'cancelled', output: '[Cancelled]' }
+      : { status: 'skipped', output: 'Skipped: dependencies have no output.' });
+  });
+
+  return outputs;
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { PivotConfig } from '../types';
+import { buildPivot, pivotCSV, OTHER } from './pivotService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader('Deliverdate,SupplierID,CustomerID,SerNo,Number');
+
+const rows = load([
+  '20250110,S1,C1,A,2',
+  '20250203,S1,C2,B,3',
+  '20250115,S2,C1,A,5',
+  'unknown,S2,C1,,1',
+]);
+
+const config = (overrides: Partial<PivotConfig>): PivotConfig => ({
+  rows: ['SupplierID'], column: null, measure: 'units', sortBy: 'label', sortDir: 'asc', ...overrides,
+});
+
+describe('buildPivot', () => {
+  it('adds a subtotal after each first-level group and keeps calendar columns in time order', () => {
+    const result = buildPivot(rows, config({ rows: ['SupplierID', 'CustomerID'], column: 'month', sortBy: 'value', sortDir: 'desc' }));
+    expect(result.columns).toEqual(['2025-01', '2025-02', '(no date)']);
+    expect(result.lines.map(l => [l.keys, l.subtotal, l.cells, l.total])).toEqual([
+      [['S2', 'C1'], false, [5, 0, 1], 6],
+      [['S2'], true, [5, 0, 1], 6],
+      [['S1', 'C2'], false, [0, 3, 0], 3],
+      [['S1', 'C1'], false, [2, 0, 0], 2],
+      [['S1'], true, [2, 3, 0], 5],
+    ]);
+    expect(result.columnTotals).toEqual([7, 3, 1]);
+    expect(result.grandTotal).toBe(11);
+    expect(result.lines[0].cellRows[2]).toEqual([rows[3]]);
+  });
+
+  it('recounts distinct measures for totals instead of adding cells up', () => {
+    const result = buildPivot(rows, config({ rows: ['SerNo'], measure: 'customers' }));
+    expect(result.lines.map(l => [l.keys[0], l.total])).toEqual([['(blank)', 1], ['A', 1], ['B', 1]]);
+    expect(result.grandTotal).toBe(2);
+  });
+
+  it('folds columns past the limit into one other column', () => {
+    const wide = load(Array.from({ length: 45 }, (_, i) => `20250110,S${i},C1,,${i + 1}`));
+    const result = buildPivot(wide, config({ rows: ['CustomerID'], column: 'SupplierID' }));
+    expect(result.columns).toHaveLength(40);
+    expect(result.columns.slice(0, 2)).toEqual(['S44', 'S43']); // largest first
+    expect(result.columns[39]).toBe(OTHER);
+    expect(result.foldedColumns).toBe(6);
+    expect(result.columnTotals[39]).toBe(1 + 2 + 3 + 4 + 5 + 6);
+    expect(result.columnTotals.reduce((a, b) => a + b, 0)).toBe(result.grandTotal);
+  });
+});
+
+describe('pivotCSV', () => {
+  it('marks subtotals and ends with the grand total', () => {
+    const result = buildPivot(rows, config({ rows: ['SupplierID', 'CustomerID'] }));
+    expect(pivotCSV(result, 'Total').split('\r\n')).toEqual([
+      'SupplierID,CustomerID,units',
+      'S1,C1,2',
+      'S1,C2,3',
+      'S1,Total,5',
+      'S2,C1,6',
+      'S2,Total,6',
+      'Total,,11',
+    ]);
+  });
+});
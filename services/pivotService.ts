@@ -0,0 +1,162 @@
+import { MedFlowRow, PivotConfig, PivotDimension, PivotMeasure } from '../types';
+import { toCSV } from './exportService';
+import { groupBy } from './groupService';
+import { bucketLabel, bucketStart } from './periodService';
+
+export const PIVOT_DIMENSIONS: PivotDimension[] = [
+  'SupplierID', 'CustomerID', 'Category', 'categorySpecialty', 'categoryCode', 'DeviceNAME', 'Model',
+  'LicenseNo', 'licenseOrigin', 'LotNO', 'SerNo', 'UDID', 'udiGtin', 'Deliverdate', 'sourceName',
+  'year', 'quarter', 'month', 'week',
+];
+
+export const PIVOT_MEASURES: PivotMeasure[] = ['units', 'rows', 'customers', 'serials'];
+
+const CALENDAR: PivotDimension[] = ['year', 'quarter', 'month', 'week', 'Deliverdate'];
+
+// Wide dimensions (lots, serials) would make thousands of columns; the rest are folded into OTHER
+const MAX_COLUMNS = 40;
+
+export const BLANK = '(blank)';
+export const OTHER = '(other)';
+const NO_DATE = '(no date)';
+
+const dimensionValue = (row: MedFlowRow, dimension: PivotDimension): string => {
+  const date = row.parsedDate;
+  switch (dimension) {
+    case 'year':
+    case 'quarter':
+    case 'month':
+    case 'week': return date ? bucketLabel(bucketStart(date, dimension), dimension) : NO_DATE;
+    default: return String(row[dimension] ?? '') || BLANK;
+  }
+};
+
+const measureOf = (rows: MedFlowRow[], measure: PivotMeasure): number => {
+  switch (measure) {
+    case 'units': return rows.reduce((acc, r) => acc + r.Number, 0);
+    case 'rows': return rows.length;
+    // Distinct counts are recomputed for every subtotal: they do not add up across cells
+    case 'customers': return new Set(rows.map(r => r.CustomerID)).size;
+    case 'serials': return new Set(rows.map(r => r.SerNo).filter(Boolean)).size;
+  }
+};
+
+export interface PivotLine {
+  keys: string[]; // one per row dimension; a subtotal line has only the first
+  subtotal: boolean;
+  cells: number[]; // per column
+  cellRows: MedFlowRow[][];
+  total: number;
+  rows: MedFlowRow[];
+}
+
+export interface PivotResult {
+  config: PivotConfig;
+  columns: string[]; // [''] without a column dimension
+  lines: PivotLine[];
+  columnTotals: number[];
+  columnRows: MedFlowRow[][];
+  grandTotal: number;
+  foldedColumns: number; // columns merged into OTHER
+}
+
+const compareLabels = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Cross-tabulates rows by one or two row dimensions and an optional column dimension.
+ * With two row dimensions each first-level value gets a subtotal line after its children.
+ * Calendar columns stay in time order; other columns are ordered by their total, largest first.
+ */
+export const buildPivot = (rows: MedFlowRow[], config: PivotConfig): PivotResult => {
+  const { measure, column } = config;
+
+  // Columns
+  let columnOf: (row: MedFlowRow) => string = () => '';
+  let columns = [''];
+  let foldedColumns = 0;
+  if (column) {
+    const groups = groupBy(rows, r => dimensionValue(r, column));
+    let keys = Array.from(groups.keys());
+    if (CALENDAR.includes(column)) {
+      // Undated rows go after the last period
+      keys.sort((a, b) => Number(a === NO_DATE || a === BLANK) - Number(b === NO_DATE || b === BLANK) || compareLabels(a, b));
+    } else {
+      const totals = new Map(keys.map(k => [k, measureOf(groups.get(k)!, measure)]));
+      keys.sort((a, b) => totals.get(b)! - totals.get(a)! || compareLabels(a, b));
+    }
+    if (keys.length > MAX_COLUMNS) {
+      foldedColumns = keys.length - (MAX_COLUMNS - 1);
+      keys = [...keys.slice(0, MAX_COLUMNS - 1), OTHER];
+    }
+    const kept = new Set(keys);
+    columnOf = row => {
+      const value = dimensionValue(row, column);
+      return kept.has(value) ? value : OTHER;
+    };
+    columns = keys;
+  }
+  const columnIndex = new Map(columns.map((c, i) => [c, i]));
+
+  const makeLine = (keys: string[], lineRows: MedFlowRow[], subtotal: boolean): PivotLine => {
+    const cellRows: MedFlowRow[][] = columns.map(() => []);
+    lineRows.forEach(row => cellRows[columnIndex.get(columnOf(row))!].push(row));
+    return {
+      keys,
+      subtotal,
+      cells: cellRows.map(cell => measureOf(cell, measure)),
+      cellRows,
+      total: measureOf(lineRows, measure),
+      rows: lineRows,
+    };
+  };
+
+  const sortLines = (lines: PivotLine[], level: number) => {
+    const dir = config.sortDir === 'asc' ? 1 : -1;
+    return lines.sort((a, b) =>
+      config.sortBy === 'label'
+        ? dir * compareLabels(a.keys[level], b.keys[level])
+        : dir * (a.total - b.total) || compareLabels(a.keys[level], b.keys[level])
+    );
+  };
+
+  const [first, second] = config.rows;
+  const firstGroups = groupBy(rows, r => dimensionValue(r, first));
+  const outer = sortLines(Array.from(firstGroups.entries()).map(([key, group]) => makeLine([key], group, !!second)), 0);
+
+  const lines: PivotLine[] = [];
+  outer.forEach(subtotal => {
+    if (second) {
+      const inner = Array.from(groupBy(subtotal.rows, r => dimensionValue(r, second)).entries())
+        .map(([key, group]) => makeLine([subtotal.keys[0], key], group, false));
+      lines.push(...sortLines(inner, 1));
+    }
+    lines.push(subtotal);
+  });
+
+  const columnRows: MedFlowRow[][] = columns.map(() => []);
+  rows.forEach(row => columnRows[columnIndex.get(columnOf(row))!].push(row));
+
+  return {
+    config,
+    columns,
+    lines,
+    columnTotals: columnRows.map(cell => measureOf(cell, measure)),
+    columnRows,
+    grandTotal: measureOf(rows, measure),
+    foldedColumns,
+  };
+};
+
+// One line per pivot line, subtotals marked in the last row-dimension column, then the grand total
+export const pivotCSV = (result: PivotResult, totalLabel: string): string => {
+  const { config, columns } = result;
+  const headers = [...config.rows, ...(config.column ? columns : [config.measure]), ...(config.column ? [totalLabel] : [])];
+  const dims = config.rows.length;
+  const lineCells = (cells: number[], total: number) => (config.column ? [...cells, total] : [total]);
+  const body = result.lines.map(line => {
+    const keys = line.subtotal ? [line.keys[0], ...Array(dims - 1).fill(totalLabel)] : line.keys;
+    return [...keys, ...lineCells(line.cells, line.total)];
+  });
+  body.push([totalLabel, ...Array(dims - 1).fill(''), ...lineCells(result.columnTotals, result.grandTotal)]);
+  return toCSV(headers, body);
+};
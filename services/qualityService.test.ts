@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateQuality, issueKey, issueRows } from './qualityService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader('Deliverdate,Number,DeviceNAME,SupplierID,CustomerID,Category,LicenseNo,UDID,LotNO,SerNo,Model');
+
+const CLEAN = '20250301,3,Stent,S1,C1,E.3610 Pacemaker,衛部醫器輸字第033951號,(01)09506000134352(10)LOT1(21)SN1,LOT1,SN1,M1';
+const RETURN = '20250302,-2,Stent,S1,C1,E.3610 Pacemaker,衛部醫器輸字第033951號,(01)09506000134352(10)LOT1(21)SN1,LOT1,SN1,M1';
+const DIRTY = '2025-02-30,0,Stent,S1,C1,Pacemaker,衛部醫器輸字第12號,,,,M1';
+
+describe('evaluateQuality', () => {
+  it('scores complete rows 100 and lists returns without penalizing them', () => {
+    const report = evaluateQuality(load([CLEAN, RETURN]));
+    expect(report.score).toBe(100);
+    expect(report.issues).toEqual([{ rule: 'negative_quantity', field: 'Number', severity: 'info', count: 1 }]);
+    expect(report.completeness.UDID).toBe(1);
+  });
+
+  it('weights failing checks by the share of rows and lists errors first', () => {
+    const data = load([CLEAN, DIRTY]);
+    const report = evaluateQuality(data);
+    expect(report.score).toBe(79.7);
+    expect(report.issues.map(issueKey)).toEqual([
+      'unparsed_date:Deliverdate',
+      'zero_quantity:Number', 'invalid_license:LicenseNo', 'category_pattern:Category', 'no_lot_or_serial:',
+      'missing:UDID', 'missing:LotNO', 'missing:SerNo',
+    ]);
+    expect(report.completeness).toMatchObject({ Deliverdate: 1, UDID: 0.5 });
+    expect(issueRows(data, { rule: 'invalid_license', field: 'LicenseNo' }).map(r => r.id)).toEqual([data[1].id]);
+  });
+
+  it('scores an empty dataset 0 without issues', () => {
+    expect(evaluateQuality([])).toMatchObject({ score: 0, totalRows: 0, issues: [] });
+  });
+});
@@ -0,0 +1,150 @@
+import { MedFlowRow, MappedField, QualityIssue, QualityReport, QualityRuleId, QualitySeverity, QualitySnapshot } from '../types';
+import { MAPPED_FIELDS } from './dataService';
+import { toCSV, formatDate } from './exportService';
+
+interface QualityRule {
+  rule: QualityRuleId;
+  field: MappedField | null;
+  severity: QualitySeverity;
+  weight: number; // 0 = reported but not scored
+  test: (row: MedFlowRow) => boolean; // true when the row fails the check
+}
+
+// Fields every delivery record is expected to have; the rest are optional for scoring
+const REQUIRED_FIELDS: MappedField[] = ['Deliverdate', 'Number', 'DeviceNAME', 'SupplierID', 'CustomerID', 'Category'];
+
+const SEVERITY_ORDER: QualitySeverity[] = ['error', 'warning', 'info'];
+
+const QUALITY_RULES: QualityRule[] = [
+  ...MAPPED_FIELDS.map((field): QualityRule => ({
+    rule: 'missing',
+    field,
+    severity: REQUIRED_FIELDS.includes(field) ? 'warning' : 'info',
+    weight: REQUIRED_FIELDS.includes(field) ? 2 : 1,
+    test: row => row.missingFields.includes(field),
+  })),
+  {
+    rule: 'unparsed_date', field: 'Deliverdate', severity: 'error', weight: 3,
+    test: row => row.Deliverdate.trim() !== '' && !row.parsedDate,
+  },
+  {
+    rule: 'zero_quantity', field: 'Number', severity: 'warning', weight: 2,
+    test: row => row.Number === 0 && !row.missingFields.includes('Number'),
+  },
+  {
+    // Negative quantities are returns (see SKILL.md), so they are listed but not penalized
+    rule: 'negative_quantity', field: 'Number', severity: 'info', weight: 0,
+    test: row => row.Number < 0,
+  },
+  {
+    rule: 'invalid_license', field: 'LicenseNo', severity: 'warning', weight: 2,
+    test: row => row.LicenseNo !== '' && !row.licenseNumber, // see parseLicense
+  },
+  {
+    rule: 'invalid_udi', field: 'UDID', severity: 'error', weight: 3,
+    test: row => row.udiIssues.includes('invalid_format') || row.udiIssues.includes('bad_check_digit'),
+  },
+  {
+    rule: 'udi_mismatch', field: 'UDID', severity: 'warning', weight: 2,
+    test: row => row.udiIssues.includes('lot_mismatch') || row.udiIssues.includes('serial_mismatch'),
+  },
+  {
+    rule: 'category_pattern', field: 'Category', severity: 'warning', weight: 1,
+    test: row => !row.missingFields.includes('Category') && !row.categoryCode, // see parseCategory
+  },
+  {
+    rule: 'no_lot_or_serial', field: null, severity: 'warning', weight: 2,
+    test: row => row.LotNO === '' && row.SerNo === '',
+  },
+];
+
+export const issueKey = (issue: Pick<QualityIssue, 'rule' | 'field'>) => `${issue.rule}:${issue.field ?? ''}`;
+
+const findRule = (issue: Pick<QualityIssue, 'rule' | 'field'>) =>
+  QUALITY_RULES.find(r => r.rule === issue.rule && r.field === issue.field);
+
+/**
+ * Runs every rule over the rows in one pass. The score is the weighted share of passing
+ * (row, check) pairs, so a rule failing on every row costs its full weight.
+ */
+export const evaluateQuality = (data: MedFlowRow[]): QualityReport => {
+  const counts = QUALITY_RULES.map(() => 0);
+  data.forEach(row => {
+    QUALITY_RULES.forEach((rule, i) => {
+      if (rule.test(row)) counts[i]++;
+    });
+  });
+
+  const total = data.length;
+  let weightSum = 0;
+  let penalty = 0;
+  QUALITY_RULES.forEach((rule, i) => {
+    weightSum += rule.weight;
+    if (total) penalty += rule.weight * counts[i] / total;
+  });
+
+  const completeness = {} as Record<MappedField, number>;
+  MAPPED_FIELDS.forEach(field => {
+    const missing = counts[QUALITY_RULES.findIndex(r => r.rule === 'missing' && r.field === field)];
+    completeness[field] = total ? 1 - missing / total : 0;
+  });
+
+  const issues: QualityIssue[] = QUALITY_RULES
+    .map((rule, i) => ({ rule: rule.rule, field: rule.field, severity: rule.severity, count: counts[i] }))
+    .filter(issue => issue.count > 0)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.count - a.count);
+
+  return {
+    score: total ? Math.round((1 - penalty / weightSum) * 1000) / 10 : 0,
+    totalRows: total,
+    issues,
+    completeness,
+  };
+};
+
+// The rows behind an issue, for drill-down
+export const issueRows = (data: MedFlowRow[], issue: Pick<QualityIssue, 'rule' | 'field'>): MedFlowRow[] => {
+  const rule = findRule(issue);
+  return rule ? data.filter(rule.test) : [];
+};
+
+/**
+ * One line per failing (row, check) pair with the offending value, so the report can be
+ * filtered in a spreadsheet. `label` names a rule for the Rule column.
+ */
+export const qualityReportCSV = (data: MedFlowRow[], report: QualityReport, label: (issue: QualityIssue) => string): string => {
+  const lines: unknown[][] = [];
+  report.issues.forEach(issue => {
+    issueRows(data, issue).forEach(row => {
+      lines.push([
+        label(issue), issue.severity, issue.field ?? '', row.id,
+        issue.field ? row[issue.field] : `${row.LotNO}/${row.SerNo}`,
+        formatDate(row.parsedDate) || row.Deliverdate, row.SupplierID, row.CustomerID, row.DeviceNAME,
+      ]);
+    });
+  });
+  return toCSV(['Rule', 'Severity', 'Field', 'Row', 'Value', 'Date', 'SupplierID', 'CustomerID', 'DeviceNAME'], lines);
+};
+
+// --- Score trend across loads ---
+
+const HISTORY_KEY = 'medflow.qualityHistory';
+const MAX_SNAPSHOTS = 50;
+
+export const loadQualityHistory = (): QualitySnapshot[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Re-parsing the same data does not add a point
+export const recordQuality = (history: QualitySnapshot[], snapshot: QualitySnapshot): QualitySnapshot[] => {
+  const last = history[history.length - 1];
+  if (last && last.datasetFingerprint === snapshot.datasetFingerprint && last.score === snapshot.score) return history;
+  const next = [...history, snapshot].slice(-MAX_SNAPSHOTS);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,275 @@
+import { MedFlowRow, LLMTool } from '../types';
+import { formatDate } from './exportService';
+import { bucketLabel, bucketStart } from './periodService';
+
+// Local, read-only query tools that agents can call through function calling.
+// They run in the browser against the currently filtered rows; results are kept small
+// so they fit comfortably in a model turn.
+
+const DIMENSIONS = [
+  'SupplierID', 'CustomerID', 'Category', 'DeviceNAME', 'Model',
+  'LicenseNo', 'LotNO', 'SerNo', 'UDID', 'date', 'week', 'month', 'year'
+] as const;
+type Dimension = typeof DIMENSIONS[number];
+
+const METRICS = ['units', 'rows', 'customers', 'suppliers', 'serials'] as const;
+type Metric = typeof METRICS[number];
+
+const MAX_ROWS = 200;
+const MAX_GROUPS = 100;
+
+interface RowQuery {
+  filters?: Record<string, string>;
+  date_from?: string;
+  date_to?: string;
+}
+
+const dimensionValue = (row: MedFlowRow, dim: Dimension): string => {
+  const d = row.parsedDate;
+  switch (dim) {
+    case 'date':
+    case 'week':
+    case 'month':
+    case 'year': {
+      if (!d) return '(no date)';
+      const granularity = dim === 'date' ? 'day' : dim;
+      return bucketLabel(bucketStart(d, granularity), granularity);
+    }
+    default: return row[dim] || '(empty)';
+  }
+};
+
+const parseDay = (str: string | undefined): number | null => {
+  if (!str) return null;
+  const m = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(str.trim());
+  if (!m) throw new Error(`Invalid date "${str}", expected YYYY-MM-DD`);
+  return new Date(parseInt(m[1]), parseInt(m[2]) - 1, parseInt(m[3])).getTime();
+};
+
+const assertDimension = (dim: string): Dimension => {
+  if (!(DIMENSIONS as readonly string[]).includes(dim)) {
+    throw new Error(`Unknown field "${dim}". Use one of: ${DIMENSIONS.join(', ')}`);
+  }
+  return dim as Dimension;
+};
+
+const assertMetric = (metric: string): Metric => {
+  if (!(METRICS as readonly string[]).includes(metric)) {
+    throw new Error(`Unknown metric "${metric}". Use one of: ${METRICS.join(', ')}`);
+  }
+  return metric as Metric;
+};
+
+// --- Arguments ---
+// Tool arguments come straight from the model, so each one is checked before use
+
+const optionalString = (args: Record<string, unknown>, name: string): string | undefined => {
+  const value = args[name];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new Error(`"${name}" must be a string`);
+  return value;
+};
+
+const optionalInteger = (args: Record<string, unknown>, name: string): number | undefined => {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  const n = typeof value === 'string' ? Number(value) : value; // some models quote numbers
+  if (typeof n !== 'number' || !Number.isFinite(n)) throw new Error(`"${name}" must be an integer`);
+  return Math.floor(n);
+};
+
+const stringList = (args: Record<string, unknown>, name: string): string[] => {
+  const value = args[name];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) throw new Error(`"${name}" must be an array of strings`);
+  return value;
+};
+
+const readQuery = (args: Record<string, unknown>): RowQuery => {
+  const filters = args.filters;
+  if (filters !== undefined && filters !== null && (typeof filters !== 'object' || Array.isArray(filters))) {
+    throw new Error('"filters" must be an object of field: value');
+  }
+  return {
+    filters: filters ? Object.fromEntries(Object.entries(filters).map(([field, value]) => [field, String(value)])) : undefined,
+    date_from: optionalString(args, 'date_from'),
+    date_to: optionalString(args, 'date_to'),
+  };
+};
+
+// Filters match case-insensitively; a value of "a|b" matches either
+const applyQuery = (rows: MedFlowRow[], q: RowQuery): MedFlowRow[] => {
+  const from = parseDay(q.date_from);
+  const to = parseDay(q.date_to);
+  const filters = Object.entries(q.filters || {}).map(([field, value]) => ({
+    dim: assertDimension(field),
+    values: String(value).split('|').map(v => v.trim().toLowerCase()),
+  }));
+
+  return rows.filter(row => {
+    if (from !== null || to !== null) {
+      const time = row.parsedDate?.getTime();
+      if (time === undefined) return false;
+      if (from !== null && time < from) return false;
+      if (to !== null && time > to + 86_399_999) return false;
+    }
+    return filters.every(f => f.values.includes(dimensionValue(row, f.dim).toLowerCase()));
+  });
+};
+
+const projectRow = (row: MedFlowRow) => ({
+  date: formatDate(row.parsedDate) || row.Deliverdate,
+  SupplierID: row.SupplierID,
+  CustomerID: row.CustomerID,
+  Category: row.Category,
+  DeviceNAME: row.DeviceNAME,
+  Model: row.Model,
+  LicenseNo: row.LicenseNo,
+  LotNO: row.LotNO,
+  SerNo: row.SerNo,
+  UDID: row.UDID,
+  Number: row.Number,
+});
+
+type Aggregate = Record<Metric, number>;
+
+const aggregate = (rows: MedFlowRow[], groupBy: Dimension[]) => {
+  const groups = new Map<string, { key: string[]; rows: MedFlowRow[] }>();
+  rows.forEach(row => {
+    const key = groupBy.map(d => dimensionValue(row, d));
+    const id = key.join('\u0000');
+    if (!groups.has(id)) groups.set(id, { key, rows: [] });
+    groups.get(id)!.rows.push(row);
+  });
+  return Array.from(groups.values()).map(g => {
+    const metrics: Aggregate = {
+      units: g.rows.reduce((acc, r) => acc + r.Number, 0),
+      rows: g.rows.length,
+      customers: new Set(g.rows.map(r => r.CustomerID)).size,
+      suppliers: new Set(g.rows.map(r => r.SupplierID)).size,
+      serials: new Set(g.rows.map(r => r.SerNo).filter(Boolean)).size,
+    };
+    const keyObj: Record<string, string> = {};
+    groupBy.forEach((d, i) => { keyObj[d] = g.key[i]; });
+    return { ...keyObj, ...metrics };
+  });
+};
+
+const queryProperties = {
+  filters: {
+    type: 'object',
+    description: `Exact-match filters by field (case-insensitive). Use "a|b" to match several values. Fields: ${DIMENSIONS.join(', ')}`,
+    additionalProperties: { type: 'string' },
+  },
+  date_from: { type: 'string', description: 'Inclusive start date, YYYY-MM-DD' },
+  date_to: { type: 'string', description: 'Inclusive end date, YYYY-MM-DD' },
+};
+
+export const buildQueryTools = (getRows: () => MedFlowRow[]): LLMTool[] => [
+  {
+    name: 'filter_rows',
+    description: 'Return delivery rows matching the filters (at most 200), plus the total match count and units.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...queryProperties,
+        limit: { type: 'integer', description: 'Maximum rows to return (default 50, max 200)' },
+      },
+    },
+    execute: (args: Record<string, unknown>) => {
+      const rows = applyQuery(getRows(), readQuery(args));
+      const limit = Math.min(Math.max(1, optionalInteger(args, 'limit') ?? 50), MAX_ROWS);
+      return {
+        matched_rows: rows.length,
+        matched_units: rows.reduce((acc, r) => acc + r.Number, 0),
+        returned: Math.min(limit, rows.length),
+        rows: rows.slice(0, limit).map(projectRow),
+      };
+    },
+  },
+  {
+    name: 'group_aggregate',
+    description: 'Group matching rows by one or more fields and compute metrics (units = sum of Number, rows, distinct customers/suppliers/serials).',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...queryProperties,
+        group_by: { type: 'array', items: { type: 'string', enum: [...DIMENSIONS] }, description: 'Fields to group by' },
+        sort_by: { type: 'string', enum: [...METRICS], description: 'Metric to sort by, descending (default units)' },
+        limit: { type: 'integer', description: 'Maximum groups to return (default 50, max 100)' },
+      },
+      required: ['group_by'],
+    },
+    execute: (args: Record<string, unknown>) => {
+      const groupBy = stringList(args, 'group_by').map(assertDimension);
+      if (groupBy.length === 0) throw new Error('group_by must name at least one field');
+      const sortBy = assertMetric(optionalString(args, 'sort_by') ?? 'units');
+      const groups = aggregate(applyQuery(getRows(), readQuery(args)), groupBy)
+        .sort((a, b) => b[sortBy] - a[sortBy]);
+      const limit = Math.min(Math.max(1, optionalInteger(args, 'limit') ?? 50), MAX_GROUPS);
+      return { total_groups: groups.length, groups: groups.slice(0, limit) };
+    },
+  },
+  {
+    name: 'top_n',
+    description: 'Top N values of one field ranked by a metric, with each value\'s share of the total.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...queryProperties,
+        dimension: { type: 'string', enum: [...DIMENSIONS], description: 'Field to rank' },
+        metric: { type: 'string', enum: [...METRICS], description: 'Ranking metric (default units)' },
+        n: { type: 'integer', description: 'How many to return (default 10, max 100)' },
+      },
+      required: ['dimension'],
+    },
+    execute: (args: Record<string, unknown>) => {
+      const dim = assertDimension(optionalString(args, 'dimension') ?? '');
+      const metric = assertMetric(optionalString(args, 'metric') ?? 'units');
+      const groups = aggregate(applyQuery(getRows(), readQuery(args)), [dim]).sort((a, b) => b[metric] - a[metric]);
+      const total = groups.reduce((acc, g) => acc + g[metric], 0);
+      const n = Math.min(Math.max(1, optionalInteger(args, 'n') ?? 10), MAX_GROUPS);
+      return {
+        metric,
+        total,
+        distinct_values: groups.length,
+        top: groups.slice(0, n).map(g => ({
+          value: (g as Record<string, unknown>)[dim],
+          [metric]: g[metric],
+          share: total ? Math.round((g[metric] / total) * 1000) / 10 : 0,
+        })),
+      };
+    },
+  },
+  {
+    name: 'time_series',
+    description: 'Metric per time bucket (day, week starting Monday, month or year), optionally split by one field.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...queryProperties,
+        granularity: { type: 'string', enum: ['date', 'week', 'month', 'year'], description: 'Bucket size (default month)' },
+        metric: { type: 'string', enum: [...METRICS], description: 'Metric per bucket (default units)' },
+        split_by: { type: 'string', enum: [...DIMENSIONS], description: 'Optional field to break each bucket down by' },
+      },
+    },
+    execute: (args: Record<string, unknown>) => {
+      const granularity = assertDimension(optionalString(args, 'granularity') ?? 'month');
+      if (!['date', 'week', 'month', 'year'].includes(granularity)) throw new Error('granularity must be date, week, month or year');
+      const metric = assertMetric(optionalString(args, 'metric') ?? 'units');
+      const splitRaw = optionalString(args, 'split_by');
+      const splitBy = splitRaw === undefined ? null : assertDimension(splitRaw);
+      const groupBy: Dimension[] = splitBy ? [granularity, splitBy] : [granularity];
+      const points = aggregate(applyQuery(getRows(), readQuery(args)), groupBy)
+        .map(g => {
+          const point: Record<string, unknown> = { period: (g as Record<string, unknown>)[granularity], [metric]: g[metric] };
+          if (splitBy) point[splitBy] = (g as Record<string, unknown>)[splitBy];
+          return point;
+        })
+        .sort((a, b) => String(a.period).localeCompare(String(b.period)));
+      return { metric, points: points.slice(0, MAX_ROWS), truncated: points.length > MAX_ROWS };
+    },
+  },
+];
+
+export const QUERY_TOOL_NAMES = buildQueryTools(() => []).map(tool => tool.name);
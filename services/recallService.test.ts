@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildRecallNotificationCSV, parseIdentifierList, traceRecall } from './recallService';
+import { rowLoader } from './testRows';
+
+const load = rowLoader('Deliverdate,SupplierID,CustomerID,Model,LotNO,SerNo,Number');
+
+const rows = load([
+  '20250310,S1,C1,Calistar S,L100,,2',
+  '20250105,S1,C1,Calistar S,L100,,1',
+  '20250201,S1,C2,Other,L200,SN9,5',
+  '20250202,S2,C3,Other,L300,,4',
+]);
+
+describe('parseIdentifierList', () => {
+  it('splits on lines and list separators, keeping spaces and dropping repeats', () => {
+    expect(parseIdentifierList('L100\r\nl100; "Calistar S",\tSN9\n\n')).toEqual(['L100', 'Calistar S', 'SN9']);
+  });
+});
+
+describe('traceRecall', () => {
+  it('groups matching shipments by customer, largest first, and lists identifiers without a match', () => {
+    const result = traceRecall(rows, ['l100', 'SN9', 'NOPE']);
+    expect(result.groups.map(g => [g.customerID, g.totalUnits])).toEqual([['C2', 5], ['C1', 3]]);
+    expect(result.groups[1].shipments.map(s => s.row.Deliverdate)).toEqual(['20250105', '20250310']);
+    expect(result.groups[1]).toMatchObject({ firstDelivery: new Date(2025, 0, 5), lastDelivery: new Date(2025, 2, 10) });
+    expect(result.groups[0].shipments[0]).toMatchObject({ matchedField: 'SerNo', matchedValue: 'SN9' });
+    expect(result).toMatchObject({ unmatched: ['NOPE'], totalShipments: 3, totalUnits: 8 });
+  });
+
+  it('only looks at the chosen fields', () => {
+    expect(traceRecall(rows, ['Calistar S'], ['LotNO']).unmatched).toEqual(['Calistar S']);
+    expect(traceRecall(rows, ['Calistar S'], ['Model']).totalShipments).toBe(2);
+  });
+});
+
+describe('buildRecallNotificationCSV', () => {
+  it('writes one line per shipment with its customer and match', () => {
+    const lines = buildRecallNotificationCSV(traceRecall(rows, ['L300'])).split('\r\n');
+    expect(lines[0]).toBe('CustomerID,DeliveryDate,Number,MatchedField,MatchedValue,SupplierID,LicenseNo,UDID,DeviceNAME,Model,LotNO,SerNo');
+    expect(lines[1]).toBe('C3,2025-02-02,4,LotNO,L300,S2,,,,Other,L300,');
+  });
+});
@@ -0,0 +1,116 @@
+import { MedFlowRow } from '../types';
+import { toCSV, formatDate } from './exportService';
+
+export type RecallField = 'LotNO' | 'SerNo' | 'UDID' | 'LicenseNo' | 'Model';
+
+export const RECALL_FIELDS: RecallField[] = ['LotNO', 'SerNo', 'UDID', 'LicenseNo', 'Model'];
+
+export interface RecallMatch {
+  row: MedFlowRow;
+  matchedField: RecallField;
+  matchedValue: string;
+}
+
+export interface RecallCustomerGroup {
+  customerID: string;
+  shipments: RecallMatch[];
+  totalUnits: number;
+  firstDelivery: Date | null;
+  lastDelivery: Date | null;
+}
+
+export interface RecallResult {
+  groups: RecallCustomerGroup[];
+  unmatched: string[];
+  totalShipments: number;
+  totalUnits: number;
+}
+
+// Identifiers may be pasted one per line or as comma/semicolon/tab separated lists.
+// Spaces are kept because Model values such as "Calistar S" contain them.
+export const parseIdentifierList = (text: string): string[] => {
+  const seen = new Set<string>();
+  const ids: string[] = [];
+  text.split(/[\r\n,;\t]+/).forEach(part => {
+    const id = part.trim().replace(/^"(.*)"$/, '$1');
+    if (!id) return;
+    const key = id.toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+    ids.push(id);
+  });
+  return ids;
+};
+
+export const traceRecall = (
+  data: MedFlowRow[],
+  identifiers: string[],
+  fields: RecallField[] = RECALL_FIELDS
+): RecallResult => {
+  const wanted = new Map(identifiers.map(id => [id.toLowerCase(), id]));
+  const hit = new Set<string>();
+  const byCustomer = new Map<string, RecallMatch[]>();
+
+  data.forEach(row => {
+    for (const field of fields) {
+      const value = row[field];
+      if (!value) continue;
+      const original = wanted.get(value.toLowerCase());
+      if (original === undefined) continue;
+
+      hit.add(original);
+      if (!byCustomer.has(row.CustomerID)) byCustomer.set(row.CustomerID, []);
+      byCustomer.get(row.CustomerID)!.push({ row, matchedField: field, matchedValue: value });
+      break; // one match per shipment is enough
+    }
+  });
+
+  const groups: RecallCustomerGroup[] = Array.from(byCustomer.entries()).map(([customerID, shipments]) => {
+    const times = shipments
+      .map(s => s.row.parsedDate?.getTime())
+      .filter((t): t is number => t !== undefined);
+    shipments.sort((a, b) => (a.row.parsedDate?.getTime() ?? 0) - (b.row.parsedDate?.getTime() ?? 0));
+    return {
+      customerID,
+      shipments,
+      totalUnits: shipments.reduce((acc, s) => acc + s.row.Number, 0),
+      firstDelivery: times.length ? new Date(Math.min(...times)) : null,
+      lastDelivery: times.length ? new Date(Math.max(...times)) : null,
+    };
+  });
+  groups.sort((a, b) => b.totalUnits - a.totalUnits || a.customerID.localeCompare(b.customerID));
+
+  return {
+    groups,
+    unmatched: identifiers.filter(id => !hit.has(id)),
+    totalShipments: groups.reduce((acc, g) => acc + g.shipments.length, 0),
+    totalUnits: groups.reduce((acc, g) => acc + g.totalUnits, 0),
+  };
+};
+
+export const buildRecallNotificationCSV = (result: RecallResult): string => {
+  const headers = [
+    'CustomerID', 'DeliveryDate', 'Number', 'MatchedField', 'MatchedValue',
+    'SupplierID', 'LicenseNo', 'UDID', 'DeviceNAME', 'Model', 'LotNO', 'SerNo'
+  ];
+  const rows: unknown[][] = [];
+  result.groups.forEach(g => {
+    g.shipments.forEach(({ row, matchedField, matchedValue }) => {
+      rows.push([
+        g.customerID,
+        formatDate(row.parsedDate) || row.Deliverdate,
+        row.Number,
+        matchedField,
+        matchedValue,
+        row.SupplierID,
+        row.LicenseNo,
+        row.UDID,
+        row.DeviceNAME,
+        row.Model,
+        row.LotNO,
+        row.SerNo,
+      ]);
+    });
+  });
+  return toCSV(headers, rows);
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { GlobalFilters } from '../types';
+import { parseData, MAPPED_FIELDS } from './dataService';
+import { exportData } from './reportService';
+
+const FILTERS: GlobalFilters = {
+  dateRange: ['2025-01-01', ''], topN: 10, searchSupplier: 'S1', category: '', licenseNo: '', model: '', lotNo: '', serNo: '',
+  customerID: '', specialty: '', deviceName: '', timeZone: '',
+};
+
+describe('exportData', () => {
+  it('writes CSV that loads back as the same rows', () => {
+    const { data } = parseData('Deliverdate,SupplierID,CustomerID,DeviceNAME,LotNO,Number\n20250301,S1,"Clinic, North",Stent,L1,3\n20250302,S1,C2,"Mesh ""XL""",,1');
+    const file = exportData(data, FILTERS, 'csv');
+    expect(String(file.content).startsWith('Deliverdate,')).toBe(true);
+
+    const reloaded = parseData(String(file.content));
+    expect(reloaded.metrics.parseFailures).toBe(0);
+    const fields = (rows: typeof data) => rows.map(r => [...MAPPED_FIELDS.map(f => r[f]), r.parsedDate]);
+    expect(fields(reloaded.data)).toEqual(fields(data));
+  });
+
+  it('keeps the filters next to the rows in JSON', () => {
+    const file = exportData([], FILTERS, 'json');
+    expect(JSON.parse(String(file.content))).toMatchObject({ filters: FILTERS, rowCount: 0, rows: [] });
+  });
+});
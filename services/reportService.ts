@@ -0,0 +1,206 @@
+import { MedFlowRow, GlobalFilters, AgentPipeline } from '../types';
+import { MAPPED_FIELDS } from './dataService';
+import { toCSV, formatDate } from './exportService';
+import { writeWorkbook } from './excelService';
+import { describeFilters } from './contextBuilderService';
+import { effectiveOutput } from './pipelineService';
+import { formatDuration } from './runHistoryService';
+
+export interface ExportFile {
+  filename: string;
+  content: BlobPart;
+  mimeType: string;
+}
+
+export type DataExportFormat = 'csv' | 'json' | 'xlsx';
+export type ReportFormat = 'md' | 'html';
+
+const stamp = (date: Date) => formatDate(date).replace(/-/g, '');
+
+// --- Filtered data ---
+
+const EXPORT_HEADERS = [...MAPPED_FIELDS, 'ParsedDate', 'Source', 'LoadedAt'];
+
+const exportRow = (row: MedFlowRow): unknown[] => [
+  ...MAPPED_FIELDS.map(field => row[field]),
+  formatDate(row.parsedDate),
+  row.sourceName,
+  row.loadedAt ? new Date(row.loadedAt).toISOString() : '',
+];
+
+/**
+ * Exports rows with the filters that produced them: JSON as top-level fields next to `rows`,
+ * XLSX on a separate sheet. CSV is the header and rows only, so it loads back as a data source
+ * and opens cleanly in Excel; its filters are not recorded.
+ */
+export const exportData = (rows: MedFlowRow[], filters: GlobalFilters, format: DataExportFormat): ExportFile => {
+  const now = new Date();
+  const filename = `medflow-data-${stamp(now)}.${format}`;
+  const meta: [string, string][] = [
+    ['Exported at', now.toISOString()],
+    ['Filters', describeFilters(filters)],
+    ['Rows', String(rows.length)],
+  ];
+
+  switch (format) {
+    case 'csv':
+      return { filename, content: toCSV(EXPORT_HEADERS, rows.map(exportRow)), mimeType: 'text/csv;charset=utf-8' };
+    case 'json': {
+      const content = {
+        exportedAt: now.toISOString(),
+        filters,
+        filterSummary: describeFilters(filters),
+        rowCount: rows.length,
+        rows: rows.map(row => {
+          const values = exportRow(row);
+          return Object.fromEntries(EXPORT_HEADERS.map((h, i) => [h, values[i]]));
+        }),
+      };
+      return { filename, content: JSON.stringify(content, null, 2), mimeType: 'application/json' };
+    }
+    case 'xlsx': {
+      const filterRows = (Object.keys(filters) as (keyof GlobalFilters)[])
+        .map(key => [key, Array.isArray(filters[key]) ? (filters[key] as string[]).join(' – ') : filters[key]]);
+      return {
+        filename,
+        content: writeWorkbook([
+          { name: 'Data', rows: [EXPORT_HEADERS, ...rows.map(exportRow)] },
+          { name: 'Filters', rows: [...meta, [], ['Filter', 'Value'], ...filterRows] },
+        ]),
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      };
+    }
+  }
+};
+
+// --- Agent report ---
+
+export interface ReportContext {
+  filters: GlobalFilters;
+  rowCount: number;
+  contextVariables: Record<string, string>; // as built for the prompts
+}
+
+const buildReportMarkdown = (pipeline: AgentPipeline, context: ReportContext, generatedAt: Date): string => {
+  let summary = context.contextVariables.data_summary ?? '';
+  try {
+    summary = JSON.stringify(JSON.parse(summary), null, 2);
+  } catch {
+    // keep as is
+  }
+
+  const lines = [
+    '# MedFlow Agent Report',
+    '',
+    `Generated ${generatedAt.toLocaleString()}`,
+    '',
+    '## Data summary',
+    '',
+    `- Rows analysed: ${context.rowCount.toLocaleString()}`,
+    `- Filters: ${describeFilters(context.filters)}`,
+    '',
+    '```json',
+    summary,
+    '```',
+  ];
+
+  const steps = pipeline.agents.filter(step => effectiveOutput(step).trim() !== '');
+  steps.forEach(step => {
+    const duration = step.startedAt && step.finishedAt ? step.finishedAt - step.startedAt : undefined;
+    lines.push(
+      '',
+      `## ${step.name}`,
+      '',
+      `*${step.provider} · ${step.model} · ${step.status} · ${formatDuration(duration)}${step.editedOutput !== undefined ? ' · edited' : ''}*`,
+      '',
+      effectiveOutput(step).trim(),
+    );
+  });
+  return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>');
+
+const tableCells = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(c => c.trim());
+
+// Enough Markdown for model output: headings, lists, tables, code blocks and emphasis
+const markdownToHtml = (markdown: string): string => {
+  const lines = markdown.split('\n');
+  const html: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith('```'); i++) code.push(lines[i]);
+      html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      i++;
+    } else if (/^#{1,6}\s/.test(line)) {
+      const level = line.match(/^#+/)![0].length;
+      html.push(`<h${level}>${inlineHtml(line.slice(level).trim())}</h${level}>`);
+      i++;
+    } else if (line.trim().startsWith('|') && /^\s*\|?[\s:|-]+\|?\s*$/.test(lines[i + 1] ?? '')) {
+      const head = tableCells(line);
+      const body: string[][] = [];
+      for (i += 2; i < lines.length && lines[i].trim().startsWith('|'); i++) body.push(tableCells(lines[i]));
+      html.push(
+        `<table><thead><tr>${head.map(c => `<th>${inlineHtml(c)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${body.map(r => `<tr>${r.map(c => `<td>${inlineHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+      );
+    } else if (/^\s*([-*]|\d+\.)\s/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      for (; i < lines.length && /^\s*([-*]|\d+\.)\s/.test(lines[i]); i++) {
+        items.push(`<li>${inlineHtml(lines[i].replace(/^\s*([-*]|\d+\.)\s/, ''))}</li>`);
+      }
+      html.push(ordered ? `<ol>${items.join('')}</ol>` : `<ul>${items.join('')}</ul>`);
+    } else if (line.trim() === '') {
+      i++;
+    } else {
+      const para: string[] = [];
+      for (; i < lines.length && lines[i].trim() !== '' && !/^(#{1,6}\s|```|\s*\||\s*([-*]|\d+\.)\s)/.test(lines[i]); i++) {
+        para.push(inlineHtml(lines[i]));
+      }
+      html.push(`<p>${para.join('<br>')}</p>`);
+    }
+  }
+  return html.join('\n');
+};
+
+const REPORT_CSS = `
+body { font-family: system-ui, "Noto Sans TC", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+h1, h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: .3rem; }
+pre { background: #f3f4f6; padding: 1rem; overflow-x: auto; border-radius: 6px; }
+code { font-family: ui-monospace, monospace; font-size: .9em; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d1d5db; padding: .3rem .6rem; text-align: left; }
+th { background: #f9fafb; }
+`;
+
+// Outputs of every step that produced one, in pipeline order, after the data summary they were based on
+export const buildPipelineReport = (pipeline: AgentPipeline, context: ReportContext, format: ReportFormat): ExportFile => {
+  const now = new Date();
+  const markdown = buildReportMarkdown(pipeline, context, now);
+  const filename = `medflow-agent-report-${stamp(now)}.${format}`;
+  if (format === 'md') return { filename, content: markdown, mimeType: 'text/markdown;charset=utf-8' };
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>MedFlow Agent Report ${formatDate(now)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+${markdownToHtml(markdown)}
+</body>
+</html>
+`;
+  return { filename, content: html, mimeType: 'text/html;charset=utf-8' };
+};
@@ -0,0 +1,91 @@
+import { AgentStep, MedFlowRow, PipelineRun, PipelineRunStep } from '../types';
+
+const DB_NAME = 'medflow';
+const DB_VERSION = 1;
+const RUNS = 'runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(RUNS, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RUNS, mode);
+    const request = fn(tx.objectStore(RUNS));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveRun = (run: PipelineRun): Promise<IDBValidKey> =>
+  withStore('readwrite', store => store.put(run));
+
+// Newest first
+export const listRuns = async (): Promise<PipelineRun[]> => {
+  const runs = await withStore<PipelineRun[]>('readonly', store => store.index('startedAt').getAll());
+  return runs.reverse();
+};
+
+export const deleteRun = (id: string): Promise<undefined> =>
+  withStore('readwrite', store => store.delete(id));
+
+// FNV-1a over the row fields, so runs on the same data can be recognised after a reload
+export const datasetFingerprint = (rows: MedFlowRow[]): string => {
+  let h = 0x811c9dc5;
+  const feed = (str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      h ^= str.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    h ^= 0x1f; // field separator
+    h = Math.imul(h, 0x01000193);
+  };
+  rows.forEach(r => {
+    [r.Deliverdate, r.SupplierID, r.CustomerID, r.Category, r.DeviceNAME, r.LicenseNo,
+      r.UDID, r.LotNO, r.SerNo, r.Model, String(r.Number)].forEach(feed);
+  });
+  return `${rows.length}-${(h >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+export const toRunStep = (step: AgentStep): PipelineRunStep => ({
+  id: step.id,
+  name: step.name,
+  provider: step.provider,
+  model: step.model,
+  status: step.status,
+  attempts: step.attempts,
+  output: step.output,
+  editedOutput: step.editedOutput,
+  renderedPrompt: step.renderedPrompt,
+  toolCalls: step.toolCalls,
+  startedAt: step.startedAt,
+  finishedAt: step.finishedAt,
+});
+
+export const runStatus = (steps: PipelineRunStep[]): PipelineRun['status'] => {
+  if (steps.some(s => s.status === 'cancelled')) return 'cancelled';
+  return steps.every(s => s.status === 'completed') ? 'completed' : 'error';
+};
+
+export const formatDuration = (ms: number | undefined): string => {
+  if (ms === undefined || ms < 0) return '–';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
@@ -0,0 +1,36 @@
+import { MedFlowRow, DataMetrics, DataSource, RowSource } from '../types';
+import { calculateMetrics } from './dataService';
+import { rowKey } from './duplicateService';
+
+let sequence = 0;
+
+export const createRowSource = (name: string): RowSource => ({
+  id: `s${Date.now().toString(36)}${(sequence++).toString(36)}`,
+  name,
+  loadedAt: Date.now(),
+});
+
+/**
+ * Filters batches of a new load against the rows already loaded: a row with the same value
+ * in every field is skipped. Duplicates within the new load are kept for the duplicate review.
+ */
+export const createDeduper = (existing: MedFlowRow[]) => {
+  const seen = new Set(existing.map(rowKey));
+  let skipped = 0;
+  return {
+    filter: (rows: MedFlowRow[]) => seen.size === 0 ? rows : rows.filter(row => {
+      if (!seen.has(rowKey(row))) return true;
+      skipped++;
+      return false;
+    }),
+    skipped: () => skipped,
+  };
+};
+
+// Metrics for the combined dataset; parse failures and errors are summed over the sources
+export const sourceMetrics = (rows: MedFlowRow[], sources: DataSource[]): DataMetrics => {
+  const { metrics } = calculateMetrics(rows);
+  metrics.parseFailures = sources.reduce((acc, s) => acc + s.parseFailures, 0);
+  metrics.parseErrors = sources.flatMap(s => s.errors.map(e => ({ ...e, source: s.name })));
+  return metrics;
+};
@@ -0,0 +1,38 @@
+// Reads a text/event-stream response and hands each parsed `data:` payload to onEvent.
+// Payloads that are not JSON (e.g. OpenAI's "[DONE]") are skipped.
+export const readSSE = async (response: Response, onEvent: (event: any) => void): Promise<void> => {
+  if (!response.body) throw new Error('Streaming response has no body');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return;
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return; // not JSON: end-of-stream markers and keep-alives
+    }
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || '';
+    blocks.forEach(flush);
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) flush(buffer);
+};
+
+export const isAbortError = (e: unknown): boolean =>
+  e instanceof DOMException ? e.name === 'AbortError' : (e as any)?.name === 'AbortError';
@@ -0,0 +1,6 @@
+import { MedFlowRow } from '../types';
+import { parseData } from './dataService';
+
+// Test fixtures: a loader that parses CSV lines under `header` into rows, ids row-1, row-2, …
+export const rowLoader = (header = 'Deliverdate,SupplierID,CustomerID,Number') =>
+  (lines: string[]): MedFlowRow[] => parseData([header, ...lines].join('\n')).data;
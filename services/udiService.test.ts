@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { isValidGTIN, parseUDI, crossCheckUDI } from './udiService';
+
+describe('isValidGTIN', () => {
+  it('accepts GTIN-8/12/13/14 with a correct check digit', () => {
+    expect(isValidGTIN('09506000134352')).toBe(true);
+    expect(isValidGTIN('9506000134352')).toBe(true);
+    expect(isValidGTIN('036000291452')).toBe(true);
+    expect(isValidGTIN('96385074')).toBe(true);
+  });
+
+  it('rejects a wrong check digit and other lengths', () => {
+    expect(isValidGTIN('09506000134353')).toBe(false);
+    expect(isValidGTIN('0950600013435')).toBe(false);
+    expect(isValidGTIN('95060001343')).toBe(false);
+    expect(isValidGTIN('0950600013435A')).toBe(false);
+  });
+});
+
+describe('parseUDI', () => {
+  it('reads a bracketed GS1 UDI', () => {
+    const udi = parseUDI('(01)09506000134352(17)201225(10)ABC123(21)SN9');
+    expect(udi.format).toBe('gs1');
+    expect(udi.gtin).toBe('09506000134352');
+    expect(udi.gtinValid).toBe(true);
+    expect(udi.lot).toBe('ABC123');
+    expect(udi.serial).toBe('SN9');
+    expect(udi.expiry).toEqual(new Date(2020, 11, 25));
+    expect(udi.issues).toEqual([]);
+  });
+
+  it('reads an element string with GS separators and a symbology prefix', () => {
+    const udi = parseUDI(']d20109506000134352172012001010\u001d21ABC');
+    expect(udi.gtin).toBe('09506000134352');
+    expect(udi.lot).toBe('10');
+    expect(udi.serial).toBe('ABC');
+    expect(udi.expiry).toEqual(new Date(2020, 11, 31)); // day 00 is the last day of the month
+  });
+
+  it('pads a plain GTIN and flags a bad check digit', () => {
+    expect(parseUDI('9506000134352')).toMatchObject({ format: 'gtin', gtin: '09506000134352', issues: [] });
+    expect(parseUDI('9506000134353').issues).toEqual(['bad_check_digit']);
+  });
+
+  it('flags unparseable input and treats blanks as empty', () => {
+    expect(parseUDI('ABC-123').issues).toEqual(['invalid_format']);
+    expect(parseUDI('(10)LOT1').issues).toEqual(['invalid_format']); // no GTIN
+    expect(parseUDI('  ').format).toBe('empty');
+  });
+});
+
+describe('crossCheckUDI', () => {
+  it('flags lot and serial mismatches only when both sides have a value', () => {
+    const udi = parseUDI('(01)09506000134352(10)LOT1(21)SN1');
+    expect(crossCheckUDI(udi, 'lot1', 'SN2').issues).toEqual(['serial_mismatch']);
+    expect(crossCheckUDI(udi, 'LOT9', '').issues).toEqual(['lot_mismatch']);
+    expect(crossCheckUDI(udi, '', '').issues).toEqual([]);
+  });
+});
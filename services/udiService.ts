@@ -0,0 +1,123 @@
+import { UdiInfo, UdiIssue } from '../types';
+
+// GS1 Application Identifiers we care about for device UDIs.
+// Fixed-length AIs carry their data length; variable ones end at a GS (FNC1) or the next "(".
+const FIXED_AI_LENGTH: Record<string, number> = {
+  '01': 14, // GTIN
+  '11': 6,  // production date
+  '17': 6,  // expiration date
+};
+const VARIABLE_AIS = new Set(['10', '21']); // lot, serial
+const GS = '\u001d';
+
+export const isValidGTIN = (gtin: string): boolean => {
+  if (!/^\d{8}$|^\d{12,14}$/.test(gtin)) return false;
+  const digits = gtin.padStart(14, '0').split('').map(Number);
+  const check = digits.pop()!;
+  // Weights alternate 3,1,3,... starting from the leftmost digit of the padded 13-digit body
+  const sum = digits.reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// YYMMDD; a day of "00" means the last day of the month per the GS1 spec
+const parseGS1Date = (yymmdd: string): Date | null => {
+  if (!/^\d{6}$/.test(yymmdd)) return null;
+  const y = 2000 + parseInt(yymmdd.substring(0, 2));
+  const m = parseInt(yymmdd.substring(2, 4)) - 1;
+  const d = parseInt(yymmdd.substring(4, 6));
+  if (m < 0 || m > 11) return null;
+  return d === 0 ? new Date(y, m + 1, 0) : new Date(y, m, d);
+};
+
+const parseBracketed = (str: string): Record<string, string> | null => {
+  const elements: Record<string, string> = {};
+  const re = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(str)) !== null) {
+    if (m.index !== consumed) return null;
+    elements[m[1]] = m[2].replace(new RegExp(GS, 'g'), '').trim();
+    consumed = re.lastIndex;
+  }
+  return consumed === str.length && Object.keys(elements).length > 0 ? elements : null;
+};
+
+// Unbracketed element string, e.g. "0100802526576331172712311089023021ABC" with GS separators
+const parseElementString = (str: string): Record<string, string> | null => {
+  const elements: Record<string, string> = {};
+  let pos = str.startsWith(']d2') || str.startsWith(']C1') ? 3 : 0;
+  while (pos < str.length) {
+    if (str[pos] === GS) { pos++; continue; }
+    const ai = str.substring(pos, pos + 2);
+    pos += 2;
+    if (FIXED_AI_LENGTH[ai] !== undefined) {
+      const len = FIXED_AI_LENGTH[ai];
+      const value = str.substring(pos, pos + len);
+      if (value.length !== len) return null;
+      elements[ai] = value;
+      pos += len;
+    } else if (VARIABLE_AIS.has(ai)) {
+      const end = str.indexOf(GS, pos);
+      const stop = end === -1 ? str.length : end;
+      elements[ai] = str.substring(pos, stop);
+      pos = stop;
+    } else {
+      return null;
+    }
+  }
+  return Object.keys(elements).length > 0 ? elements : null;
+};
+
+const EMPTY_UDI: UdiInfo = {
+  format: 'empty',
+  gtin: '',
+  gtinValid: false,
+  expiry: null,
+  lot: '',
+  serial: '',
+  issues: [],
+};
+
+export const parseUDI = (raw: string): UdiInfo => {
+  const str = raw.trim();
+  if (!str) return { ...EMPTY_UDI, issues: [] };
+
+  // Plain GTIN (GTIN-8/12/13/14)
+  if (/^\d+$/.test(str) && (str.length === 8 || (str.length >= 12 && str.length <= 14))) {
+    const gtin = str.padStart(14, '0');
+    const gtinValid = isValidGTIN(str);
+    return { ...EMPTY_UDI, format: 'gtin', gtin, gtinValid, issues: gtinValid ? [] : ['bad_check_digit'] };
+  }
+
+  const elements = str.startsWith('(') ? parseBracketed(str) : parseElementString(str);
+  if (!elements || !elements['01']) {
+    return { ...EMPTY_UDI, format: 'unknown', issues: ['invalid_format'] };
+  }
+
+  const gtin = elements['01'];
+  const gtinValid = isValidGTIN(gtin);
+  const expiry = elements['17'] !== undefined ? parseGS1Date(elements['17']) : null;
+  const issues: UdiIssue[] = [];
+  if (!gtinValid) issues.push('bad_check_digit');
+  if (elements['17'] !== undefined && !expiry) issues.push('invalid_format');
+
+  return {
+    format: 'gs1',
+    gtin,
+    gtinValid,
+    expiry,
+    lot: elements['10'] || '',
+    serial: elements['21'] || '',
+    issues,
+  };
+};
+
+// Compares the lot/serial encoded in the UDI with the row's own LotNO/SerNo columns.
+// Only flags a mismatch when both sides carry a value.
+export const crossCheckUDI = (udi: UdiInfo, lotNo: string, serNo: string): UdiInfo => {
+  const issues = [...udi.issues];
+  const same = (a: string, b: string) => a.trim().toUpperCase() === b.trim().toUpperCase();
+  if (udi.lot && lotNo && !same(udi.lot, lotNo)) issues.push('lot_mismatch');
+  if (udi.serial && serNo && !same(udi.serial, serNo)) issues.push('serial_mismatch');
+  return { ...udi, issues };
+};
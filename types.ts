@@ -13,6 +13,127 @@ export interface MedFlowRow {
   LotNO: string;
   SerNo: string; // SN
   Model: string;
+  // Provenance: rows from different loads never share an id
+  sourceId: string;
+  sourceName: string;
+  loadedAt: number; // epoch ms
+  missingFields: MappedField[]; // fields whose source value was empty (before defaults were filled in)
+  // Parsed from UDID (GS1)
+  udiFormat: UdiFormat;
+  udiGtin: string;
+  udiGtinValid: boolean;
+  udiExpiry: Date | null;
+  udiLot: string;
+  udiSerial: string;
+  udiIssues: UdiIssue[];
+  // Parsed from LicenseNo (TFDA permit); null / '' when it does not parse
+  licenseAuthority: LicenseAuthority | null;
+  licenseOrigin: LicenseOrigin | null;
+  licenseSubType: LicenseSubType | null;
+  licenseNumber: string;
+  // Parsed from Category (TFDA code); '' when it has none
+  categorySpecialty: string;
+  categoryCode: string;
+  categoryName: string;
+}
+
+export type UdiFormat = 'empty' | 'gtin' | 'gs1' | 'unknown';
+
+export type UdiIssue = 'invalid_format' | 'bad_check_digit' | 'lot_mismatch' | 'serial_mismatch';
+
+export interface UdiInfo {
+  format: UdiFormat;
+  gtin: string;
+  gtinValid: boolean;
+  expiry: Date | null;
+  lot: string;
+  serial: string;
+  issues: UdiIssue[];
+}
+
+// 衛部 = Ministry of Health and Welfare (2013 on), 衛署 = the former Department of Health
+export type LicenseAuthority = '衛部' | '衛署';
+
+export type LicenseOrigin = 'import' | 'domestic'; // 輸 / 製
+
+// 壹 marks a Class I listing, 陸 an import from mainland China (陸輸)
+export type LicenseSubType = 'standard' | 'class1' | 'mainland' | 'mainland_class1';
+
+export interface LicenseInfo {
+  authority: LicenseAuthority;
+  origin: LicenseOrigin;
+  subType: LicenseSubType;
+  number: string; // 6 digits
+  normalized: string; // canonical spelling, e.g. 衛部醫器輸字第033951號
+}
+
+// "E.3610植入式心律器之脈搏產生器" -> specialty E, code E.3610, name 植入式心律器之脈搏產生器
+export interface CategoryInfo {
+  specialty: string; // '' when the value has no TFDA code
+  code: string;
+  name: string;
+}
+
+// Drill-down path of the category explorer; each level maps to a global filter
+export type CategoryLevel = 'specialty' | 'code' | 'model' | 'device';
+
+export type ForecastDimension = 'all' | 'category' | 'supplier' | 'model' | 'customer';
+export type ForecastGranularity = 'week' | 'month';
+
+export interface ForecastOptions {
+  dimension: ForecastDimension;
+  value: string; // the category, supplier, ... to forecast; ignored for 'all'
+  granularity: ForecastGranularity;
+  horizon: number; // periods ahead
+}
+
+export interface ForecastPoint {
+  period: string; // YYYY-MM, or the Monday of the week as YYYY-MM-DD
+  actual: number | null;
+  forecast: number | null;
+  lower: number | null; // 95% band
+  upper: number | null;
+}
+
+export interface ForecastResult {
+  options: ForecastOptions;
+  method: 'holt_winters' | 'holt' | 'mean'; // seasonal when there are two full seasons of history
+  seasonLength: number; // 0 without a seasonal component
+  params: { alpha: number; beta: number; gamma: number };
+  points: ForecastPoint[]; // history followed by the forecast
+  history: number; // periods of history
+  holdout: number; // periods held back for the backtest
+  mape: number | null; // backtest error in percent; null when history is too short or all zero
+}
+
+export type AnomalyKind = 'volume_spike' | 'volume_drop' | 'dormant' | 'odd_quantity' | 'lot_overrun';
+export type AnomalySeverity = 'high' | 'medium' | 'low';
+
+export interface Anomaly {
+  id: string; // kind and subject; stable for the same data
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  subject: string; // e.g. "Customer C05363" or "Lot 869531"
+  period: string; // month, date or date range the anomaly refers to
+  detail: string; // the numbers behind it, e.g. "140 units vs usual 1–2"
+  score: number; // z-score or ratio to normal; orders anomalies of one kind
+  rowIds: string[];
+}
+
+// MedFlowRow fields usable as pivot dimensions, plus calendar buckets of parsedDate
+export type PivotDimension =
+  | 'SupplierID' | 'CustomerID' | 'Category' | 'DeviceNAME' | 'Model' | 'LicenseNo' | 'LotNO' | 'SerNo' | 'UDID'
+  | 'Deliverdate' | 'sourceName' | 'udiGtin' | 'categorySpecialty' | 'categoryCode' | 'licenseOrigin'
+  | 'year' | 'quarter' | 'month' | 'week';
+
+export type PivotMeasure = 'units' | 'rows' | 'customers' | 'serials';
+
+export interface PivotConfig {
+  rows: [PivotDimension] | [PivotDimension, PivotDimension]; // a second level adds subtotals per first-level value
+  column: PivotDimension | null;
+  measure: PivotMeasure;
+  sortBy: 'label' | 'value'; // rows; value = row total
+  sortDir: 'asc' | 'desc';
 }
 
 export interface DataMetrics {
@@ -22,8 +143,125 @@ export interface DataMetrics {
   uniqueCustomers: number;
   uniqueCategories: number;
   dateRange: [Date | null, Date | null];
-  missingValues: Record<string, number>;
+  missingValues: Record<string, number>; // empty source values per MappedField
+  parseFailures: number; // rows that could not be used
+  parseErrors: ParseError[];
+}
+
+// MedFlowRow fields that are read from a source column
+export type MappedField =
+  | 'Deliverdate' | 'Number' | 'DeviceNAME' | 'SupplierID' | 'CustomerID' | 'Category'
+  | 'LicenseNo' | 'UDID' | 'LotNO' | 'SerNo' | 'Model';
+
+export type FieldTransform = 'trim' | 'uppercase' | 'lowercase' | 'remove_spaces';
+
+export type DateFormat = 'auto' | 'YYYYMMDD' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'ROC';
+
+// Spreadsheet date serials count days from 1899-12-30, or from 1904-01-01 in the 1904 date system
+export type DateSystem = '1900' | '1904';
+
+// How source columns (by header name) feed MedFlowRow fields
+export interface ColumnMapping {
+  columns: Partial<Record<MappedField, string>>; // unmapped fields fall back to their defaults
+  transforms: Partial<Record<MappedField, FieldTransform[]>>;
+  dateFormat: DateFormat;
+}
+
+// Headers and the first rows of a source, read before parsing so the columns can be mapped
+export interface SourceSample {
+  headers: string[];
+  rows: string[][];
+}
+
+// A saved mapping, applied automatically to files with the same set of headers
+export interface MappingProfile extends ColumnMapping {
+  id: string;
+  name: string;
+  headers: string[];
+  updatedAt: number; // epoch ms
+}
+
+export interface ParseError {
+  line: number; // 1-based line in the source file where the record starts
+  message: string;
+  source?: string; // file name, when several sources are loaded
+}
+
+// A file, sheet or pasted text that contributed rows to the dataset
+export interface RowSource {
+  id: string;
+  name: string;
+  loadedAt: number; // epoch ms
+}
+
+export interface DataSource extends RowSource {
+  rowCount: number; // rows added, after dropping duplicates of rows already loaded
+  duplicatesSkipped: number;
   parseFailures: number;
+  errors: ParseError[];
+}
+
+export type QualityRuleId =
+  | 'missing' | 'unparsed_date' | 'zero_quantity' | 'negative_quantity' | 'invalid_license'
+  | 'invalid_udi' | 'udi_mismatch' | 'category_pattern' | 'no_lot_or_serial';
+
+export type QualitySeverity = 'error' | 'warning' | 'info';
+
+export interface QualityIssue {
+  rule: QualityRuleId;
+  field: MappedField | null; // set for per-field rules such as 'missing'
+  severity: QualitySeverity;
+  count: number;
+}
+
+export interface QualityReport {
+  score: number; // 0–100, weighted share of rows passing each check
+  totalRows: number;
+  issues: QualityIssue[]; // only checks with at least one failing row
+  completeness: Record<MappedField, number>; // 0–1 per field
+}
+
+// One entry per data load, for the score trend
+export interface QualitySnapshot {
+  timestamp: number;
+  score: number;
+  rowCount: number;
+  datasetFingerprint: string;
+}
+
+export type DuplicateKind = 'exact' | 'reimport' | 'serial_repeat' | 'serial_customers' | 'lot_conflict';
+
+export interface DuplicateGroup {
+  id: string; // kind and key; stable for the same data
+  kind: DuplicateKind;
+  key: string;
+  rowIds: string[]; // in data order
+  suggested: string[]; // rows suggested for exclusion (later copies); empty when it needs judgement
+  detail: string; // e.g. the conflicting customers or models
+}
+
+// Review choice for a row; rows without one are kept
+export type RowDecision = { action: 'exclude' } | { action: 'merge'; into: string };
+
+// unrelated_*: the license covers categories or devices that do not look like one product scope
+export type LicenseFlag = 'unparsed' | 'unrelated_categories' | 'unrelated_devices';
+
+export interface LicenseShare {
+  key: string;
+  units: number;
+  rows: number;
+}
+
+export interface LicenseStat {
+  licenseNo: string;
+  info: LicenseInfo | null;
+  units: number;
+  rows: number;
+  customers: number;
+  models: LicenseShare[]; // by units, descending
+  categories: LicenseShare[];
+  devices: LicenseShare[];
+  flags: LicenseFlag[];
 }
 
 export type SkinType = 
@@ -44,29 +282,156 @@ export interface SkinDef {
 
 export type Lang = 'en' | 'zh-TW';
 
+export type LLMProviderId = 'gemini' | 'openai' | 'anthropic' | 'grok' | 'mock';
+
+export type ApiKeys = Record<Exclude<LLMProviderId, 'mock'>, string>;
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema of the arguments object
+  execute: (args: Record<string, unknown>) => unknown;
+}
+
+export interface ToolCallLog {
+  name: string;
+  args: Record<string, unknown>;
+  result: unknown;
+  error?: string;
+  at: number; // epoch ms
+}
+
+export interface LLMRequest {
+  apiKey: string;
+  model: string;
+  systemInstruction: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  // When set, the provider streams and reports each text chunk as it arrives
+  onToken?: (chunk: string) => void;
+  tools?: LLMTool[];
+  onToolCall?: (log: ToolCallLog) => void;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  supportsTools: boolean;
+  // Model names this provider accepts; steps naming another vendor's model are rejected
+  modelPattern: RegExp;
+  defaultModel: string;
+  generate: (request: LLMRequest) => Promise<string>;
+}
+
 export interface AgentStep {
   id: string;
   name: string;
-  provider: 'gemini' | 'openai' | 'anthropic' | 'grok';
+  provider: LLMProviderId;
   model: string;
   system_prompt: string;
   user_prompt_template: string;
   max_tokens: number;
-  status: 'idle' | 'running' | 'completed' | 'error';
+  temperature: number;
+  context_budget: number; // max estimated prompt tokens (system + user); 0 = unlimited
+  depends_on: string[];
+  retry: RetryPolicy;
+  tools: string[]; // names of local query tools the model may call
+  toolCalls: ToolCallLog[];
+  renderedPrompt?: RenderedPrompt; // what was actually sent on the last run
+  startedAt?: number; // epoch ms of the first attempt
+  finishedAt?: number;
+  status: 'idle' | 'paused' | 'running' | 'completed' | 'error' | 'skipped' | 'cancelled';
+  attempts: number;
   output: string;
-  editedOutput?: string;
+  editedOutput?: string; // analyst's edit; used downstream instead of output when set
+  versions: OutputVersion[];
+  extra: Record<string, unknown>; // unknown agents.yaml keys, kept as-is
+}
+
+export interface OutputVersion {
+  text: string;
+  source: 'model' | 'edit';
+  at: number; // epoch ms
+}
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  tokens: number; // estimated
+  budget: number;
+  truncated: string[]; // template variables that were cut to fit the budget
+}
+
+export interface RetryPolicy {
+  max_attempts: number;
+  backoff_ms: number; // doubled after every failed attempt
 }
 
 export interface AgentPipeline {
+  version: string;
   defaults: {
     temperature: number;
     max_tokens: number;
+    context_budget: number;
+    retry: RetryPolicy;
+    provider?: LLMProviderId;
+    model?: string;
   };
   agents: AgentStep[];
+  extra: Record<string, unknown>;
+}
+
+export interface AgentConfigError {
+  message: string;
+  line: number;
+  col: number;
+}
+
+// A pipeline run as stored in IndexedDB
+export interface PipelineRun {
+  id: string;
+  startedAt: number; // epoch ms
+  finishedAt: number;
+  status: 'completed' | 'error' | 'cancelled';
+  datasetFingerprint: string;
+  rowCount: number;
+  filters: GlobalFilters;
+  agentsYaml: string;
+  skillMd: string;
+  steps: PipelineRunStep[]; // only the steps that were part of the run
+}
+
+export type PipelineRunStep = Pick<AgentStep,
+  'id' | 'name' | 'provider' | 'model' | 'status' | 'attempts' | 'output' | 'editedOutput' |
+  'renderedPrompt' | 'toolCalls' | 'startedAt' | 'finishedAt'>;
+
+// Date-range picker shortcuts; presets end on the latest delivery in the data
+export type DateRangePreset = 'all' | 'last7' | 'last30' | 'last90' | 'quarter' | 'custom';
+
+// Dashboard trend buckets; weeks start on Monday
+export type TimeGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type PeriodComparison = 'none' | 'previous' | 'year'; // previous bucket, or the same bucket a year earlier
+
+export interface PeriodStats {
+  rows: number;
+  units: number;
+  suppliers: number;
+  customers: number;
+}
+
+export interface PeriodWindow {
+  label: string;
+  from: string; // inclusive YYYY-MM-DD
+  to: string;
+  stats: PeriodStats;
 }
 
 export interface GlobalFilters {
-  dateRange: [string, string];
+  dateRange: [string, string]; // inclusive YYYY-MM-DD bounds, '' for open
+
   topN: number;
   searchSupplier: string; // acts as SupplierID filter
   // New filters
@@ -76,5 +441,7 @@ export interface GlobalFilters {
   lotNo: string;
   serNo: string;
   customerID: string;
-  timeZone: string;
+  specialty: string; // TFDA specialty letter, exact match
+  deviceName: string;
+  timeZone: string; // IANA zone for timestamps with an offset; '' keeps the browser's
 }